@@ -0,0 +1,133 @@
+import type { CanUseTool, ToolPermissionResult } from "./types.ts";
+import { codeBlockOrAttachment, type DiscordSender } from "./discord-sender.ts";
+import { createToolDiff } from "./diff.ts";
+import type { ButtonHandlers, InteractionContext, EmbedData } from "../discord/types.ts";
+
+// ボタンのカスタムIDプレフィックス（権限チェックもこのプレフィックスで行われる）
+export const TOOL_APPROVE_PREFIX = 'tool-approve';
+export const TOOL_DENY_PREFIX = 'tool-deny';
+export const TOOL_ALWAYS_PREFIX = 'tool-always';
+
+export interface ToolApproverDeps {
+  sender: DiscordSender;
+  buttonHandlers: ButtonHandlers;
+  // 承認リクエストを送信したときに呼ばれる
+  onRequest?: (toolName: string) => void;
+}
+
+// ツール入力を確認用に整形（ファイル変更はdiff、長い場合は添付ファイル）
+// deno-lint-ignore no-explicit-any
+function formatToolInput(toolName: string, input: Record<string, any>) {
+  const diff = createToolDiff(toolName, input);
+  if (diff) {
+    const fileName = `${String(input.file_path).split('/').pop() || 'file'}.diff`;
+    return codeBlockOrAttachment(diff, 'diff', fileName);
+  }
+  return codeBlockOrAttachment(JSON.stringify(input, null, 2), 'json', `${toolName}-input.txt`);
+}
+
+// Discordのボタンでツール実行を承認するcanUseToolを作成
+export function createToolApprover(deps: ToolApproverDeps) {
+  const { sender, buttonHandlers } = deps;
+  // 「常に許可」されたツール名
+  const alwaysAllowedTools = new Set<string>();
+
+  const canUseTool: CanUseTool = (toolName, input, { signal }) => {
+    if (alwaysAllowedTools.has(toolName)) {
+      return Promise.resolve({ behavior: 'allow', updatedInput: input });
+    }
+
+    // ボタンのIDは複数のワークスペースで共有されるため一意にする
+    const requestId = crypto.randomUUID();
+    const approveId = `${TOOL_APPROVE_PREFIX}:${requestId}`;
+    const denyId = `${TOOL_DENY_PREFIX}:${requestId}`;
+    const alwaysId = `${TOOL_ALWAYS_PREFIX}:${requestId}`;
+
+    const { description, files } = formatToolInput(toolName, input);
+    const requestEmbed: EmbedData = {
+      color: 0xff9900,
+      title: `🔐 ツール実行の承認待ち: ${toolName}`,
+      description,
+      footer: { text: '承認されるまでClaude Codeは一時停止しています' },
+      timestamp: true
+    };
+
+    return new Promise<ToolPermissionResult>((resolve) => {
+      let settled = false;
+
+      const cleanup = () => {
+        buttonHandlers.delete(approveId);
+        buttonHandlers.delete(denyId);
+        buttonHandlers.delete(alwaysId);
+        signal.removeEventListener('abort', onAbort);
+      };
+
+      const settle = async (ctx: InteractionContext | null, result: ToolPermissionResult, label: string, color: number) => {
+        if (settled) return;
+        settled = true;
+        cleanup();
+        resolve(result);
+
+        if (ctx) {
+          await ctx.update({
+            embeds: [{
+              ...requestEmbed,
+              color,
+              title: `${label}: ${toolName}`,
+              footer: undefined
+            }],
+            components: []
+          });
+        }
+      };
+
+      // Claude Codeの実行がキャンセルされた場合は拒否として扱う
+      const onAbort = () => {
+        settle(null, { behavior: 'deny', message: 'Request was cancelled' }, '⏹️ キャンセル', 0x808080);
+      };
+      signal.addEventListener('abort', onAbort);
+
+      buttonHandlers.set(approveId, async (ctx) => {
+        await settle(ctx, { behavior: 'allow', updatedInput: input }, '✅ 承認済み', 0x00ff00);
+      });
+
+      buttonHandlers.set(denyId, async (ctx) => {
+        await settle(ctx, { behavior: 'deny', message: 'The user denied this tool use from Discord' }, '❌ 拒否', 0xff0000);
+      });
+
+      buttonHandlers.set(alwaysId, async (ctx) => {
+        alwaysAllowedTools.add(toolName);
+        await settle(ctx, { behavior: 'allow', updatedInput: input }, '✅ 常に許可', 0x00ff00);
+      });
+
+      sender.sendMessage({
+        embeds: [requestEmbed],
+        files,
+        components: [{
+          type: 'actionRow',
+          components: [
+            { type: 'button', customId: approveId, label: '承認', style: 'success' },
+            { type: 'button', customId: denyId, label: '拒否', style: 'danger' },
+            { type: 'button', customId: alwaysId, label: `常に許可 (${toolName})`, style: 'secondary' }
+          ]
+        }]
+      }).then(() => {
+        deps.onRequest?.(toolName);
+      }).catch((error) => {
+        // 承認リクエストを送信できない場合は待ち続けないよう拒否する
+        console.error('Failed to send tool approval request:', error);
+        settle(null, { behavior: 'deny', message: 'Failed to request approval from Discord' }, '❌ 送信失敗', 0xff0000);
+      });
+    });
+  };
+
+  return {
+    canUseTool,
+    getAlwaysAllowedTools(): string[] {
+      return Array.from(alwaysAllowedTools);
+    },
+    clearAlwaysAllowedTools() {
+      alwaysAllowedTools.clear();
+    }
+  };
+}
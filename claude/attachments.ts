@@ -0,0 +1,138 @@
+import { BOT_DATA_DIR, ensureBotDataDir } from "./registry.ts";
+import type { ClaudeImage } from "./types.ts";
+import type { IncomingAttachment } from "../discord/types.ts";
+
+// 添付ファイルの保存先（スレッドごとのサブディレクトリに保存）
+export const ATTACHMENTS_DIR = `${BOT_DATA_DIR}/attachments`;
+
+// Discordの添付ファイルの上限に合わせる
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+// Claudeに画像として渡せるサイズの上限（超える場合はパスで参照）
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export interface DownloadedAttachment {
+  name: string;
+  // workDirからの相対パス（プロンプトで参照する）
+  relativePath: string;
+  contentType: string | null;
+  size: number;
+  // Claudeに画像として渡す場合のみ
+  image?: ClaudeImage;
+}
+
+export interface AttachmentDownloadResult {
+  files: DownloadedAttachment[];
+  // ダウンロードできなかったファイルの説明
+  errors: string[];
+}
+
+// ファイル名をパスとして安全な形にする
+function sanitizeFileName(name: string): string {
+  const sanitized = name.replace(/[^\w.\-]/g, '_').replace(/^\.+/, '_');
+  return sanitized || 'attachment';
+}
+
+function threadDir(workDir: string, threadId: string): string {
+  return `${workDir}/${ATTACHMENTS_DIR}/${threadId}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Discordの添付ファイルをスレッドの作業用ディレクトリにダウンロード
+export async function downloadAttachments(
+  workDir: string,
+  threadId: string,
+  attachments: IncomingAttachment[]
+): Promise<AttachmentDownloadResult> {
+  const result: AttachmentDownloadResult = { files: [], errors: [] };
+  if (attachments.length === 0) return result;
+
+  await ensureBotDataDir(`${workDir}/${BOT_DATA_DIR}`);
+  // 同じ名前のファイルが送られても上書きしないようメッセージごとに分ける
+  const batch = `${Date.now()}`;
+  const dir = `${threadDir(workDir, threadId)}/${batch}`;
+  await Deno.mkdir(dir, { recursive: true });
+
+  for (const attachment of attachments) {
+    if (attachment.size > MAX_ATTACHMENT_BYTES) {
+      result.errors.push(`${attachment.name}: サイズが上限（${formatSize(MAX_ATTACHMENT_BYTES)}）を超えています`);
+      continue;
+    }
+
+    try {
+      const response = await fetch(attachment.url);
+      if (!response.ok) {
+        await response.body?.cancel();
+        result.errors.push(`${attachment.name}: ダウンロードに失敗しました (HTTP ${response.status})`);
+        continue;
+      }
+      const data = new Uint8Array(await response.arrayBuffer());
+      const fileName = sanitizeFileName(attachment.name);
+      await Deno.writeFile(`${dir}/${fileName}`, data);
+
+      const contentType = attachment.contentType?.split(';')[0].trim() ?? null;
+      const isImage = contentType !== null && IMAGE_MEDIA_TYPES.includes(contentType) && data.length <= MAX_IMAGE_BYTES;
+      result.files.push({
+        name: attachment.name,
+        relativePath: `${ATTACHMENTS_DIR}/${threadId}/${batch}/${fileName}`,
+        contentType,
+        size: data.length,
+        ...(isImage && contentType && { image: { mediaType: contentType, data: toBase64(data) } })
+      });
+    } catch (error) {
+      result.errors.push(`${attachment.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+}
+
+// 添付ファイルをプロンプトから参照できるようにする（画像も念のためパスを記載）
+export function appendAttachmentsToPrompt(prompt: string, files: DownloadedAttachment[]): string {
+  if (files.length === 0) return prompt;
+  const lines = files.map(file =>
+    `- ${file.relativePath} (${file.contentType ?? '不明な形式'}, ${formatSize(file.size)}${file.image ? ', 画像として添付' : ''})`
+  );
+  return `${prompt}\n\n添付ファイル（作業ディレクトリからの相対パス）:\n${lines.join('\n')}`;
+}
+
+// 添付ファイルの一覧を表示用に整形
+export function formatAttachmentSummary(result: AttachmentDownloadResult): string {
+  return [
+    ...result.files.map(file => `📎 ${file.name} (${formatSize(file.size)}${file.image ? ', 画像' : ''})`),
+    ...result.errors.map(error => `⚠️ ${error}`)
+  ].join('\n');
+}
+
+// スレッドの添付ファイルを削除
+export async function cleanupAttachments(workDir: string, threadId: string): Promise<void> {
+  try {
+    await Deno.remove(threadDir(workDir, threadId), { recursive: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.error(`添付ファイルの削除に失敗しました (${threadId}):`, error);
+    }
+  }
+}
+
+// すべての添付ファイルを削除
+export async function cleanupAllAttachments(workDir: string): Promise<void> {
+  try {
+    await Deno.remove(`${workDir}/${ATTACHMENTS_DIR}`, { recursive: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.error('添付ファイルの削除に失敗しました:', error);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { query as claudeQuery, type SDKMessage } from "npm:@anthropic-ai/claude-code@latest";
+import type { ClaudeRunOptions, ClaudeResponse, ClaudeErrorKind, ClaudeImage } from "./types.ts";
 
 // セッションIDをクリーンアップ（余計な文字を除去）
 export function cleanSessionId(sessionId: string): string {
@@ -10,6 +11,45 @@ export function cleanSessionId(sessionId: string): string {
     .trim();                         // 再度前後の空白を除去
 }
 
+// canUseToolや画像を使う場合、SDKはストリーミング入力を要求するためプロンプトを変換
+function toStreamingPrompt(prompt: string, images: ClaudeImage[] = []) {
+  const content = images.length === 0 ? prompt : [
+    ...images.map(image => ({
+      type: 'image' as const,
+      source: { type: 'base64' as const, media_type: image.mediaType, data: image.data }
+    })),
+    { type: 'text' as const, text: prompt }
+  ];
+  return (async function* () {
+    yield {
+      type: 'user' as const,
+      message: { role: 'user' as const, content },
+      parent_tool_use_id: null,
+      session_id: '',
+    };
+  })();
+}
+
+// エラーメッセージからエラーの種類を判定
+// - rate_limit: レート制限・利用上限・過負荷（別モデルへのフォールバック対象）
+// - auth: 認証・課金エラー（モデルを変えても解決しない）
+// - crash: それ以外のプロセスの異常終了
+export function classifyClaudeError(message: string): ClaudeErrorKind {
+  if (/rate.?limit|usage limit|\b429\b|overloaded|\b529\b|quota|too many requests/i.test(message)) {
+    return 'rate_limit';
+  }
+  if (/\b401\b|\b403\b|unauthori[sz]ed|authentication|invalid.*api.?key|oauth|\/login|not logged in|credit balance/i.test(message)) {
+    return 'auth';
+  }
+  return 'crash';
+}
+
+const ERROR_HINTS: Record<ClaudeErrorKind, string> = {
+  rate_limit: '⚠️ レート制限または利用上限に達しました。しばらく時間を置いてから再度お試しください。',
+  auth: '⚠️ 認証エラーです。`claude login` でログインし直すか、APIキー・課金状況を確認してください。',
+  crash: '⚠️ Claude Codeプロセスが異常終了しました。',
+};
+
 // Claude Code SDKのquery関数をラップ
 export async function sendToClaudeCode(
   workDir: string,
@@ -19,40 +59,48 @@ export async function sendToClaudeCode(
   onChunk?: (text: string) => void,
   // deno-lint-ignore no-explicit-any
   onStreamJson?: (json: any) => void,
-  continueMode?: boolean
-): Promise<{
-  response: string;
-  sessionId?: string;
-  cost?: number;
-  duration?: number;
-  modelUsed?: string;
-}> {
-  const messages: SDKMessage[] = [];
-  let fullResponse = "";
-  let resultSessionId: string | undefined;
-  let modelUsed = "Default";
-  
+  continueMode?: boolean,
+  runOptions: ClaudeRunOptions = {}
+): Promise<ClaudeResponse> {
   // セッションIDをクリーンアップ
   const cleanedSessionId = sessionId ? cleanSessionId(sessionId) : undefined;
   
+  const permissionMode = runOptions.permissionMode ?? "bypassPermissions";
+  // bypassモードではツール実行の確認は不要
+  const canUseTool = permissionMode === "bypassPermissions" ? undefined : runOptions.canUseTool;
+  const images = runOptions.images ?? [];
+  
+  // 試行するモデルの順序（undefinedはClaude Codeのデフォルトモデル）
+  const candidates: Array<string | undefined> = [runOptions.model];
+  for (const fallback of runOptions.fallbackModels ?? []) {
+    if (!candidates.includes(fallback)) {
+      candidates.push(fallback);
+    }
+  }
+  
   // 包括的なエラーハンドリングでラップ
-  const executeWithErrorHandling = async (useRetryModel = false) => {
+  const executeWithErrorHandling = async (model: string | undefined, isRetry: boolean) => {
+    const label = `Claude Code${isRetry ? ' (Retry)' : ''}`;
+    // ストリーム中に報告されたエラー（例外メッセージだけでは原因が分からない場合の判定用）
+    let streamErrorText = "";
+    
     try {
       const queryOptions = {
-        prompt,
+        prompt: canUseTool || images.length > 0 ? toStreamingPrompt(prompt, images) : prompt,
         abortController: controller,
         options: {
           cwd: workDir,
-          permissionMode: "bypassPermissions" as const,
+          permissionMode,
+          ...(canUseTool && { canUseTool }),
           verbose: true,
           outputFormat: "stream-json",
           ...(continueMode && { continue: true }),
           ...(cleanedSessionId && !continueMode && { resume: cleanedSessionId }),
-          ...(useRetryModel && { model: "claude-sonnet-4-20250514" }),
+          ...(model && { model }),
         },
       };
       
-      console.log(`Claude Code: ${useRetryModel ? 'Sonnet 4で' : 'デフォルトモデルで'}実行中...`);
+      console.log(`${label}: ${model ?? 'デフォルトモデル'}で実行中... (permissionMode: ${permissionMode})`);
       if (continueMode) {
         console.log(`Continue mode: Reading latest conversation in directory`);
       } else if (cleanedSessionId) {
@@ -63,16 +111,25 @@ export async function sendToClaudeCode(
       const currentMessages: SDKMessage[] = [];
       let currentResponse = "";
       let currentSessionId: string | undefined;
+      // 実際に応答したモデル（initメッセージから取得）
+      let currentModel: string | undefined;
       
       for await (const message of iterator) {
         // AbortSignalをチェックしてループを停止
         if (controller.signal.aborted) {
-          console.log(`Claude Code${useRetryModel ? ' (Retry)' : ''}: Abort signal detected, stopping iteration`);
+          console.log(`${label}: Abort signal detected, stopping iteration`);
           break;
         }
         
         currentMessages.push(message);
         
+        if (message.type === 'system' && message.subtype === 'init' && message.model) {
+          currentModel = message.model;
+        }
+        if (message.type === 'result' && message.is_error) {
+          streamErrorText = `${message.subtype ?? ''} ${message.result ?? ''}`;
+        }
+        
         // JSONストリームの場合、専用のコールバックを呼び出し
         if (onStreamJson) {
           onStreamJson(message);
@@ -104,6 +161,7 @@ export async function sendToClaudeCode(
         messages: currentMessages,
         response: currentResponse,
         sessionId: currentSessionId,
+        model: currentModel ?? model,
         aborted: controller.signal.aborted
       };
     // deno-lint-ignore no-explicit-any
@@ -112,78 +170,60 @@ export async function sendToClaudeCode(
       if (error.name === 'AbortError' || 
           controller.signal.aborted || 
           (error.message && error.message.includes('exited with code 143'))) {
-        console.log(`Claude Code${useRetryModel ? ' (Retry)' : ''}: Process terminated by abort signal`);
+        console.log(`${label}: Process terminated by abort signal`);
         return {
           messages: [],
           response: "",
           sessionId: undefined,
+          model,
           aborted: true
         };
       }
+      error.kind = classifyClaudeError(`${error.message ?? ''} ${streamErrorText}`);
       throw error;
     }
   };
   
-  // まず通常のモデルで試行
-  try {
-    const result = await executeWithErrorHandling(false);
+  for (let i = 0; i < candidates.length; i++) {
+    const model = candidates[i];
     
-    if (result.aborted) {
-      return { response: "リクエストがキャンセルされました", modelUsed };
-    }
-    
-    messages.push(...result.messages);
-    fullResponse = result.response;
-    resultSessionId = result.sessionId;
-    
-    // 最後のメッセージから情報を取得
-    const lastMessage = messages[messages.length - 1];
-    
-    return {
-      response: fullResponse || "応答がありません",
-      sessionId: resultSessionId,
-      cost: 'total_cost_usd' in lastMessage ? lastMessage.total_cost_usd : undefined,
-      duration: 'duration_ms' in lastMessage ? lastMessage.duration_ms : undefined,
-      modelUsed
-    };
-  // deno-lint-ignore no-explicit-any
-  } catch (error: any) {
-    // exit code 1エラーの場合、Sonnet 4でリトライ
-    if (error.message && (error.message.includes('exit code 1') || error.message.includes('exited with code 1'))) {
-      console.log("Rate limit detected, retrying with Sonnet 4...");
-      modelUsed = "Claude Sonnet 4";
+    try {
+      const result = await executeWithErrorHandling(model, i > 0);
+      const modelUsed = result.model ?? "Default";
       
-      try {
-        const retryResult = await executeWithErrorHandling(true);
-        
-        if (retryResult.aborted) {
-          return { response: "リクエストがキャンセルされました", modelUsed };
-        }
-        
-        // 最後のメッセージから情報を取得
-        const lastRetryMessage = retryResult.messages[retryResult.messages.length - 1];
-        
-        return {
-          response: retryResult.response || "応答がありません",
-          sessionId: retryResult.sessionId,
-          cost: 'total_cost_usd' in lastRetryMessage ? lastRetryMessage.total_cost_usd : undefined,
-          duration: 'duration_ms' in lastRetryMessage ? lastRetryMessage.duration_ms : undefined,
-          modelUsed
-        };
-      // deno-lint-ignore no-explicit-any
-      } catch (retryError: any) {
-        // Sonnet 4でも失敗した場合
-        if (retryError.name === 'AbortError' || 
-            controller.signal.aborted || 
-            (retryError.message && retryError.message.includes('exited with code 143'))) {
-          return { response: "リクエストがキャンセルされました", modelUsed };
-        }
-        
-        retryError.message += '\n\n⚠️ デフォルトモデルとSonnet 4の両方でエラーが発生しました。しばらく時間を置いてから再度お試しください。';
-        throw retryError;
+      if (result.aborted) {
+        return { response: "リクエストがキャンセルされました", modelUsed };
+      }
+      
+      // 最後のメッセージから情報を取得
+      const lastMessage = result.messages[result.messages.length - 1];
+      
+      return {
+        response: result.response || "応答がありません",
+        sessionId: result.sessionId,
+        cost: lastMessage && 'total_cost_usd' in lastMessage ? lastMessage.total_cost_usd : undefined,
+        duration: lastMessage && 'duration_ms' in lastMessage ? lastMessage.duration_ms : undefined,
+        inputTokens: lastMessage && 'usage' in lastMessage ? lastMessage.usage?.input_tokens : undefined,
+        outputTokens: lastMessage && 'usage' in lastMessage ? lastMessage.usage?.output_tokens : undefined,
+        modelUsed
+      };
+    // deno-lint-ignore no-explicit-any
+    } catch (error: any) {
+      const kind: ClaudeErrorKind = error.kind ?? 'crash';
+      const nextModel = candidates[i + 1];
+      
+      // レート制限のみ次のモデルにフォールバック（認証エラーやクラッシュはモデルを変えても解決しない）
+      if (kind === 'rate_limit' && i < candidates.length - 1) {
+        console.log(`Rate limit detected on ${model ?? 'default model'}, falling back to ${nextModel}...`);
+        continue;
       }
+      
+      const tried = candidates.slice(0, i + 1).map(m => m ?? 'デフォルトモデル').join(' → ');
+      error.message += `\n\n${ERROR_HINTS[kind]}${kind === 'rate_limit' ? `\n試行したモデル: ${tried}` : ''}`;
+      throw error;
     }
-    
-    throw error;
   }
-}
\ No newline at end of file
+  
+  // candidatesは常に1件以上あるため到達しない
+  throw new Error("No model candidates to run Claude Code");
+}
@@ -1,6 +1,15 @@
-import type { ClaudeResponse, ClaudeMessage } from "./types.ts";
-import { sendToClaudeCode } from "./client.ts";
+import type { ClaudeMessage, ClaudeResponse, ClaudeImage, ClaudeNotification, MessageFilter, PermissionMode, RunCheckpoint, RunSummary, SessionRecord, UsageBudgets } from "./types.ts";
+import type { ButtonHandlers, IncomingMessage, IncomingAttachment, AutocompleteChoice, EmbedData, MessageContent, SentMessageHandle } from "../discord/types.ts";
+import { sendToClaudeCode, cleanSessionId } from "./client.ts";
 import { convertToClaudeMessages } from "./message-converter.ts";
+import { createClaudeSender, codeBlockOrAttachment, type DiscordSender } from "./discord-sender.ts";
+import { createToolApprover } from "./approval.ts";
+import type { ClaudeSessionManager, ClaudeThreadSession } from "./session.ts";
+import type { SessionLookup, SessionRegistry } from "./registry.ts";
+import { estimateCost, startOfToday, startOfWeek, type UsageLedger, type BudgetCheckResult } from "./usage.ts";
+import type { ClaudeJobQueue, QueuedJob } from "./queue.ts";
+import { downloadAttachments, appendAttachmentsToPrompt, formatAttachmentSummary, cleanupAttachments, cleanupAllAttachments } from "./attachments.ts";
+import { CONTINUE_PROMPT, createRunCardButtonIds, getEditedFilePath, revertResultEmbed, runSummaryCard } from "./summary.ts";
 import { SlashCommandBuilder } from "npm:discord.js@14.14.1";
 
 // Discord command definitions
@@ -15,6 +24,18 @@ export const claudeCommands = [
     .addStringOption(option =>
       option.setName('session_id')
         .setDescription('継続するセッションID（オプション）')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('model')
+        .setDescription('このセッションで使用するモデル（オプション、例: opus, sonnet）')
+        .setRequired(false))
+    .addBooleanOption(option =>
+      option.setName('force')
+        .setDescription('実行中のジョブを中断してすぐに実行（オプション）')
+        .setRequired(false))
+    .addAttachmentOption(option =>
+      option.setName('attachment')
+        .setDescription('Claude Codeに渡すファイル・画像（オプション）')
         .setRequired(false)),
   
   new SlashCommandBuilder()
@@ -23,134 +44,913 @@ export const claudeCommands = [
     .addStringOption(option =>
       option.setName('prompt')
         .setDescription('Claude Codeへのプロンプト（オプション）')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('model')
+        .setDescription('このセッションで使用するモデル（オプション、例: opus, sonnet）')
+        .setRequired(false))
+    .addBooleanOption(option =>
+      option.setName('force')
+        .setDescription('実行中のジョブを中断してすぐに実行（オプション）')
         .setRequired(false)),
   
   new SlashCommandBuilder()
     .setName('claude-cancel')
-    .setDescription('現在実行中のClaude Codeコマンドをキャンセル'),
+    .setDescription('実行中のClaude Codeをキャンセル（スレッド内ではそのセッションのみ）'),
+  
+  new SlashCommandBuilder()
+    .setName('sessions')
+    .setDescription('保存されたClaude Codeセッションを管理')
+    .addSubcommand(subcommand =>
+      subcommand.setName('list')
+        .setDescription('保存されたセッションの一覧を表示'))
+    .addSubcommand(subcommand =>
+      subcommand.setName('resume')
+        .setDescription('保存されたセッションをスレッドで再開')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('セッション名またはID')
+            .setRequired(true)
+            .setAutocomplete(true))
+        .addStringOption(option =>
+          option.setName('prompt')
+            .setDescription('再開時に送信するプロンプト（オプション）')
+            .setRequired(false)))
+    .addSubcommand(subcommand =>
+      subcommand.setName('rename')
+        .setDescription('セッションに名前を付ける')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('セッション名またはID')
+            .setRequired(true)
+            .setAutocomplete(true))
+        .addStringOption(option =>
+          option.setName('name')
+            .setDescription('新しい名前')
+            .setRequired(true)))
+    .addSubcommand(subcommand =>
+      subcommand.setName('delete')
+        .setDescription('セッションの記録を削除')
+        .addStringOption(option =>
+          option.setName('session')
+            .setDescription('セッション名またはID')
+            .setRequired(true)
+            .setAutocomplete(true))),
+  
+  new SlashCommandBuilder()
+    .setName('queue')
+    .setDescription('Claude Codeの実行待ちキューを管理')
+    .addSubcommand(subcommand =>
+      subcommand.setName('list')
+        .setDescription('実行中と待機中のジョブを表示'))
+    .addSubcommand(subcommand =>
+      subcommand.setName('clear')
+        .setDescription('待機中のジョブをすべてキャンセル'))
+    .addSubcommand(subcommand =>
+      subcommand.setName('move')
+        .setDescription('待機中のジョブの順番を変更')
+        .addIntegerOption(option =>
+          option.setName('job')
+            .setDescription('ジョブ番号（/queue list で確認）')
+            .setRequired(true))
+        .addIntegerOption(option =>
+          option.setName('position')
+            .setDescription('新しい待ち順（1が次に実行）')
+            .setRequired(true)
+            .setMinValue(1))),
+  
+  new SlashCommandBuilder()
+    .setName('model')
+    .setDescription('デフォルトのモデルとフォールバック順を表示・変更')
+    .addStringOption(option =>
+      option.setName('name')
+        .setDescription('デフォルトのモデル（defaultでClaude Codeの既定に戻す）')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('fallback')
+        .setDescription('レート制限時に順に試すモデル（カンマ区切り、noneで無効）')
+        .setRequired(false)),
+  
+  new SlashCommandBuilder()
+    .setName('usage')
+    .setDescription('Claude Codeの利用量（コスト・トークン）と予算を表示'),
 ];
 
 export interface ClaudeHandlerDeps {
   workDir: string;
-  claudeController: AbortController | null;
-  setClaudeController: (controller: AbortController | null) => void;
-  setClaudeSessionId: (sessionId: string | undefined) => void;
-  sendClaudeMessages: (messages: ClaudeMessage[]) => Promise<void>;
+  sessionManager: ClaudeSessionManager;
+  jobQueue: ClaudeJobQueue;
+  sessionRegistry: SessionRegistry;
+  usageLedger: UsageLedger;
+  getBudgets: () => UsageBudgets;
+  // スレッドにメッセージを送信するsenderを作成
+  createThreadSender: (threadId: string) => DiscordSender;
+  buttonHandlers: ButtonHandlers;
+  getPermissionMode: () => PermissionMode;
+  // デフォルトのモデル（nullはClaude Codeの既定）
+  getModel: () => string | null;
+  getFallbackModels: () => string[];
+  // スレッドに表示するメッセージの絞り込み（表示レベルの設定）
+  getMessageFilter: () => MessageFilter;
+  // 完了・失敗・承認待ち・予算超過を通知（メンションするかどうかは通知設定で決まる）
+  notify: (notification: ClaudeNotification) => Promise<void>;
+  // 実行前の作業ツリーのスナップショットを保存（gitリポジトリでない場合などはnull）
+  createCheckpoint: (label: string) => Promise<RunCheckpoint | null>;
+}
+
+// キュー待ちのジョブのキャンセルボタン（権限チェックもこのプレフィックスで行われる）
+export const QUEUE_CANCEL_PREFIX = 'queue-cancel';
+
+export interface RunRequestOptions {
+  sessionId?: string;
+  model?: string;
+  // 実行中のジョブを中断して先頭で実行
+  force?: boolean;
+  attachments?: IncomingAttachment[];
+}
+
+// 実行の結果と、実行による変更を確認・取り消すための実行前の状態
+interface RunOutcome {
+  summary: RunSummary;
+  checkpoint: RunCheckpoint | null;
+}
+
+// プロンプトからスレッド名を作成（Discordの上限は100文字）
+function createThreadName(prompt: string): string {
+  const firstLine = prompt.split('\n').find(line => line.trim())?.trim() || 'Claude Code';
+  return firstLine.length > 90 ? firstLine.substring(0, 87) + '...' : firstLine;
 }
 
 export function createClaudeHandlers(deps: ClaudeHandlerDeps) {
-  const { workDir, sendClaudeMessages } = deps;
+  const { workDir, sessionManager, jobQueue, sessionRegistry, usageLedger, createThreadSender, buttonHandlers } = deps;
   
-  return {
-    // deno-lint-ignore no-explicit-any
-    async onClaude(ctx: any, prompt: string, sessionId?: string): Promise<ClaudeResponse> {
-      // 既存のセッションがあればキャンセル
-      if (deps.claudeController) {
-        deps.claudeController.abort();
+  // 通知の失敗で実行結果の処理を止めない
+  function notify(notification: ClaudeNotification) {
+    deps.notify(notification).catch((error) => {
+      console.error(`Failed to send ${notification.event} notification:`, error);
+    });
+  }
+  
+  // 予算を確認（セッションの累計コストは再開で引き継がれた記録から取得）
+  function checkBudget(sessionId?: string, pendingCost = 0): BudgetCheckResult {
+    const sessionCost = sessionId ? sessionRegistry.get(sessionId)?.totalCost : undefined;
+    return usageLedger.checkBudget(deps.getBudgets(), sessionCost, pendingCost);
+  }
+  
+  function budgetExceededEmbed(message?: string) {
+    return {
+      color: 0xff0000,
+      title: '予算超過',
+      description: `${message}\n予算は \`/settings\` で変更できます。`,
+      timestamp: true
+    };
+  }
+  
+  // 実行後に予算を超えた場合、日次予算なら実行中の他のセッションも停止
+  async function enforceBudgetAfterRun(session: ClaudeThreadSession) {
+    const budget = checkBudget(session.sessionId);
+    if (budget.allowed) return;
+    
+    const { dailyUsd } = deps.getBudgets();
+    const dailyExceeded = dailyUsd !== null && usageLedger.getDailyTotals().cost >= dailyUsd;
+    // 日次予算を超えた場合は待機中のジョブも実行しない（終了処理中のこのセッションは除く）
+    const stopped = dailyExceeded
+      ? sessionManager.getRunning().filter(other => other !== session && sessionManager.cancel(other.threadId)).length + jobQueue.clear().length
+      : 0;
+    const sender = createThreadSender(session.threadId);
+    await sender.sendMessage({
+      embeds: [{
+        ...budgetExceededEmbed(budget.message),
+        fields: stopped > 0 ? [{ name: '停止したセッション', value: `${stopped}件`, inline: true }] : undefined
+      }]
+    });
+    notify({ event: 'budget', threadId: session.threadId, message: '💸 予算の上限に達しました。' });
+  }
+  
+  // スレッドに紐づくセッションを作成
+  function createSession(threadId: string, sessionId?: string, model?: string): ClaudeThreadSession {
+    const sender = createThreadSender(threadId);
+    const session: ClaudeThreadSession = {
+      threadId,
+      sessionId: sessionId ? cleanSessionId(sessionId) : undefined,
+      model,
+      controller: null,
+      sendClaudeMessages: createClaudeSender(sender, deps.getMessageFilter),
+      // ツール承認もセッションのスレッドで行う
+      canUseTool: createToolApprover({
+        sender,
+        buttonHandlers,
+        onRequest: (toolName) => {
+          notify({ event: 'approval', threadId, message: `🔐 ツール実行の承認待ちです: ${toolName}` });
+        }
+      }).canUseTool
+    };
+    sessionManager.add(session);
+    return session;
+  }
+  
+  // スレッドのセッションを保存されたセッションに切り替える
+  async function switchSession(session: ClaudeThreadSession, sessionId: string): Promise<void> {
+    session.sessionId = sessionId;
+    await sessionRegistry.bindThread(sessionId, session.threadId);
+  }
+  
+  // 実行中・待機中のジョブがあるか
+  function isThreadBusy(threadId: string): boolean {
+    return !!sessionManager.get(threadId)?.controller || jobQueue.list().some(job => job.threadId === threadId);
+  }
+  
+  // 添付ファイルをスレッドの作業用ディレクトリにダウンロードし、プロンプトと画像を作成
+  async function prepareAttachments(threadId: string, prompt: string, attachments: IncomingAttachment[] = []): Promise<{ prompt: string; images: ClaudeImage[] }> {
+    if (attachments.length === 0) {
+      return { prompt, images: [] };
+    }
+    
+    const downloaded = await downloadAttachments(workDir, threadId, attachments);
+    await createThreadSender(threadId).sendMessage({
+      embeds: [{
+        color: downloaded.errors.length > 0 ? 0xff9900 : 0x0099ff,
+        title: '📎 添付ファイル',
+        description: formatAttachmentSummary(downloaded),
+        timestamp: true
+      }]
+    });
+    
+    return {
+      prompt: appendAttachmentsToPrompt(prompt, downloaded.files),
+      images: downloaded.files.flatMap(file => file.image ? [file.image] : [])
+    };
+  }
+  
+  // スレッドのセッションを終了し、添付ファイルを削除
+  async function endThreadSession(threadId: string) {
+    jobQueue.clear(job => job.threadId === threadId);
+    sessionManager.remove(threadId);
+    clearRunCardButtons(threadId);
+    await cleanupAttachments(workDir, threadId);
+  }
+  
+  // スレッドごとの完了カードのボタン（新しいカードを表示したら前のカードのボタンは無効にする）
+  const runCardButtons = new Map<string, string[]>();
+  
+  function clearRunCardButtons(threadId: string) {
+    for (const id of runCardButtons.get(threadId) ?? []) {
+      buttonHandlers.delete(id);
+    }
+    runCardButtons.delete(threadId);
+  }
+  
+  // 実行結果のカードを作成し、ボタンのハンドラーを登録
+  function createRunCard({ summary, checkpoint }: RunOutcome, prompt?: string): MessageContent {
+    const { threadId } = summary;
+    clearRunCardButtons(threadId);
+    const ids = createRunCardButtonIds(crypto.randomUUID());
+    let reverted = false;
+    const render = () => runSummaryCard(workDir, summary, ids, { prompt, showChanges: checkpoint !== null && !reverted });
+    
+    buttonHandlers.set(ids.continue, async (ctx) => {
+      const session = sessionManager.get(threadId);
+      if (!session) {
+        await ctx.reply({ content: 'このスレッドのセッションは終了しています。', ephemeral: true });
+        return;
       }
-      
-      const controller = new AbortController();
-      deps.setClaudeController(controller);
-      
-      // インタラクションを延期（最初に実行）
-      await ctx.deferReply();
-      
-      // 初期メッセージを送信
-      await ctx.editReply({
-        embeds: [{
-          color: 0xffff00,
-          title: 'Claude Code 実行中...',
-          description: '応答を待っています...',
-          fields: [{ name: 'プロンプト', value: `\`${prompt.substring(0, 1020)}\``, inline: false }],
-          timestamp: true
-        }]
+      const budget = checkBudget(session.sessionId);
+      if (!budget.allowed) {
+        await ctx.reply({ embeds: [budgetExceededEmbed(budget.message)], ephemeral: true });
+        return;
+      }
+      await ctx.reply({ content: `▶️ <#${threadId}> で続きを実行します。`, ephemeral: true });
+      const outcome = await runInSession(session, CONTINUE_PROMPT, { continueMode: !session.sessionId, userId: ctx.getUserId() });
+      await createThreadSender(threadId).sendMessage(createRunCard(outcome));
+    });
+    
+    buttonHandlers.set(ids.diff, async (ctx) => {
+      const diff = checkpoint && !reverted ? await checkpoint.diff() : '';
+      if (!diff) {
+        await ctx.reply({ content: '差分はありません（既に元に戻されたかコミットされています）。', ephemeral: true });
+        return;
+      }
+      const { description, files } = codeBlockOrAttachment(diff, 'diff', 'changes.diff');
+      await ctx.reply({ embeds: [{ color: 0x0099ff, title: '📝 この実行による変更', description, timestamp: true }], files, ephemeral: true });
+    });
+    
+    buttonHandlers.set(ids.revert, async (ctx) => {
+      if (!checkpoint || reverted) {
+        await ctx.reply({ content: 'この実行の変更は既に元に戻されています。', ephemeral: true });
+        return;
+      }
+      // 実行中に元に戻すとClaude Codeの作業と競合する（作業ディレクトリは全スレッドで共有）
+      if (sessionManager.getRunning().length > 0) {
+        await ctx.reply({ content: 'Claude Codeの実行中は元に戻せません。', ephemeral: true });
+        return;
+      }
+      reverted = true;
+      await ctx.update(render());
+      const result = await checkpoint.revert();
+      await ctx.followUp({ embeds: [revertResultEmbed(workDir, result)] });
+    });
+    
+    buttonHandlers.set(ids.session, async (ctx) => {
+      await ctx.reply({
+        content: `\`\`\`\n${summary.sessionId}\n\`\`\`\n\`/claude session_id:\` や \`/sessions resume\` で再開できます。`,
+        ephemeral: true
       });
+    });
+    
+    runCardButtons.set(threadId, Object.values(ids));
+    return render();
+  }
+  
+  function queueNoticeEmbed(job: QueuedJob, title: string, color: number, description?: string): EmbedData {
+    return {
+      color,
+      title,
+      description,
+      fields: [
+        { name: 'ジョブ', value: `#${job.id}`, inline: true },
+        ...(job.userId ? [{ name: '依頼者', value: `<@${job.userId}>`, inline: true }] : []),
+        { name: 'プロンプト', value: `\`${job.prompt.substring(0, 1020)}\``, inline: false }
+      ],
+      timestamp: true
+    };
+  }
+  
+  // キューにジョブを追加し、待つ場合はスレッドに待ち順とキャンセルボタンを表示
+  async function runInSession(
+    session: ClaudeThreadSession,
+    prompt: string,
+    options: { continueMode?: boolean; userId?: string; force?: boolean; images?: ClaudeImage[]; resumeSessionId?: string } = {}
+  ): Promise<RunOutcome> {
+    const sender = createThreadSender(session.threadId);
+    // 待ち順の表示メッセージ（送信・編集を直列化）
+    let notice: Promise<SentMessageHandle | null> | null = null;
+    let noticeChain: Promise<void> = Promise.resolve();
+    
+    const updateNotice = (job: QueuedJob, embed: EmbedData, withCancelButton: boolean) => {
+      // ジョブ番号はワークスペースごとのため、スレッドIDを含めて一意にする
+      const cancelId = `${QUEUE_CANCEL_PREFIX}:${job.threadId}-${job.id}`;
+      if (withCancelButton) {
+        buttonHandlers.set(cancelId, async (ctx) => {
+          if (!jobQueue.cancel(job.id)) {
+            await ctx.reply({ content: 'このジョブは既に実行中または終了しています。', ephemeral: true });
+            return;
+          }
+          await ctx.update({ embeds: [queueNoticeEmbed(job, '⏹️ キャンセルされました', 0x808080)], components: [] });
+        });
+      } else {
+        buttonHandlers.delete(cancelId);
+      }
       
-      const result = await sendToClaudeCode(
+      const content = {
+        embeds: [embed],
+        components: withCancelButton ? [{
+          type: 'actionRow' as const,
+          components: [{ type: 'button' as const, customId: cancelId, label: 'キャンセル', style: 'danger' as const }]
+        }] : []
+      };
+      noticeChain = noticeChain.then(async () => {
+        if (!notice) {
+          // 待たずに実行された場合は表示しない
+          if (!withCancelButton) return;
+          notice = sender.sendMessage(content);
+          await notice;
+        } else {
+          await (await notice)?.edit(content);
+        }
+      }).catch((error) => {
+        console.error('Failed to update queue notice:', error);
+      });
+    };
+    
+    const queued = jobQueue.enqueue(
+      { prompt, threadId: session.threadId, userId: options.userId },
+      () => executeRun(session, prompt, options),
+      {
+        front: options.force,
+        onPositionChange: (job, position) => {
+          updateNotice(job, queueNoticeEmbed(job, `⏳ キュー待ち（${position}番目）`, 0x808080, '前のジョブが終わると自動で実行されます。'), true);
+        },
+        onStart: (job) => {
+          updateNotice(job, queueNoticeEmbed(job, '▶️ 実行開始', 0xffff00), false);
+        },
+        onCancel: (job) => {
+          updateNotice(job, queueNoticeEmbed(job, '⏹️ キャンセルされました', 0x808080), false);
+        }
+      }
+    );
+    
+    // 強制実行の場合は実行中のジョブを中断（先頭に追加したジョブが次に実行される）
+    if (options.force && queued.position > 0) {
+      sessionManager.cancelAll();
+    }
+    
+    // 実行前にキャンセルされた場合
+    return await queued.result ?? {
+      summary: { status: 'cancelled', threadId: session.threadId, sessionId: session.sessionId, model: session.model, durationMs: 0, toolCalls: 0, filesTouched: [] },
+      checkpoint: null
+    };
+  }
+  
+  // セッションのスレッドでClaude Codeを実行（キューから呼ばれる）
+  // 失敗・キャンセルも結果として返す
+  async function executeRun(
+    session: ClaudeThreadSession,
+    prompt: string,
+    options: { continueMode?: boolean; userId?: string; images?: ClaudeImage[]; resumeSessionId?: string } = {}
+  ): Promise<RunOutcome> {
+    // 保存されたセッションの再開は、前のジョブが終わってから切り替える
+    if (options.resumeSessionId) {
+      await switchSession(session, options.resumeSessionId);
+    }
+    // 待っている間に同じスレッドの前のジョブがセッションを作成した場合はそれを再開
+    const continueMode = (options.continueMode ?? false) && !session.sessionId;
+    // スレッドで指定されたモデルを優先し、なければデフォルトのモデル
+    const requestedModel = session.model ?? deps.getModel() ?? undefined;
+    
+    // 待っている間に予算を超えた場合は実行しない
+    const budget = checkBudget(session.sessionId);
+    if (!budget.allowed) {
+      await createThreadSender(session.threadId).sendMessage({ embeds: [budgetExceededEmbed(budget.message)] });
+      notify({ event: 'budget', threadId: session.threadId, message: '💸 予算の上限に達したため、キューのジョブを実行しませんでした。' });
+      return {
+        summary: { status: 'error', threadId: session.threadId, sessionId: session.sessionId, model: requestedModel, durationMs: 0, toolCalls: 0, filesTouched: [], error: budget.message },
+        checkpoint: null
+      };
+    }
+    
+    // スナップショットの保存中も強制実行等でキャンセルできるように先に登録する
+    // 登録は実行が終わるまで残し、終了処理の間も実行中として扱う
+    const controller = new AbortController();
+    session.controller = controller;
+    try {
+      return await executeRunWithController(session, prompt, options, controller, continueMode, requestedModel);
+    } finally {
+      if (session.controller === controller) {
+        session.controller = null;
+      }
+    }
+  }
+  
+  async function executeRunWithController(
+    session: ClaudeThreadSession,
+    prompt: string,
+    options: { userId?: string; images?: ClaudeImage[] },
+    controller: AbortController,
+    continueMode: boolean,
+    requestedModel: string | undefined
+  ): Promise<RunOutcome> {
+    const checkpoint = await deps.createCheckpoint(prompt);
+    const startedAt = Date.now();
+    
+    const previousSessionId = session.sessionId;
+    // ストリームから取得したセッション情報（キャンセル時も記録できるように）
+    let streamedSessionId: string | undefined;
+    let model: string | undefined;
+    // 完了カードに表示するツール呼び出しの回数と変更されたファイル
+    let toolCalls = 0;
+    const editedFiles = new Set<string>();
+    // 実行中のコストの見積もり（メッセージIDごと、同じメッセージは内容のブロックごとに繰り返し届く）
+    const streamedCosts = new Map<string, number>();
+    const streamedCost = () => [...streamedCosts.values()].reduce((total, cost) => total + cost, 0);
+    // スレッドへの表示は届いた順に1つずつ行い、完了カードの前にすべて表示し終える
+    let delivery: Promise<void> = Promise.resolve();
+    let finished = false;
+    const deliver = (messages: ClaudeMessage[]) => {
+      delivery = delivery.then(() => session.sendClaudeMessages(messages)).catch(() => {});
+    };
+    
+    let result: ClaudeResponse | undefined;
+    let error: string | undefined;
+    try {
+      result = await sendToClaudeCode(
         workDir,
         prompt,
         controller,
-        sessionId,
+        continueMode ? undefined : session.sessionId,
         undefined, // onChunkコールバックは使用しない
         (jsonData) => {
-          // JSONストリームデータを処理してDiscordに送信
+          if (jsonData.type === 'system' && jsonData.subtype === 'init') {
+            streamedSessionId = jsonData.session_id ?? streamedSessionId;
+            model = jsonData.model ?? model;
+          }
+          if (jsonData.type === 'assistant' && Array.isArray(jsonData.message?.content)) {
+            for (const block of jsonData.message.content) {
+              if (block.type !== 'tool_use') continue;
+              toolCalls++;
+              const path = getEditedFilePath(block.name, block.input);
+              if (path) editedFiles.add(path);
+            }
+            // 予算を超えた時点で実行を中断する（超過の通知は実行後に行う）
+            if (jsonData.message.id && jsonData.message.usage) {
+              streamedCosts.set(jsonData.message.id, estimateCost(jsonData.message.model, jsonData.message.usage));
+              if (!controller.signal.aborted && !checkBudget(session.sessionId ?? streamedSessionId, streamedCost()).allowed) {
+                console.log(`Budget exceeded during the run in thread ${session.threadId}, aborting...`);
+                controller.abort();
+              }
+            }
+          }
+          
+          // JSONストリームデータを処理してスレッドに送信
+          if (jsonData.type === 'result') finished = true;
           const claudeMessages = convertToClaudeMessages(jsonData);
           if (claudeMessages.length > 0) {
-            sendClaudeMessages(claudeMessages).catch(() => {});
+            deliver(claudeMessages);
           }
         },
-        false // continueMode = false
+        continueMode,
+        {
+          permissionMode: deps.getPermissionMode(),
+          canUseTool: session.canUseTool,
+          model: requestedModel,
+          fallbackModels: deps.getFallbackModels(),
+          images: options.images
+        }
       );
+      // フォールバックした場合は実際に応答したモデルを記録
+      model = result.modelUsed && result.modelUsed !== 'Default' ? result.modelUsed : model;
       
-      deps.setClaudeSessionId(result.sessionId);
-      deps.setClaudeController(null);
+      const resultSessionId = result.sessionId ?? streamedSessionId;
+      // 中断した場合は確定したコストが得られないため見積もりを記録する
+      const cost = result.cost ?? streamedCost();
+      if (resultSessionId) {
+        session.sessionId = resultSessionId;
+        await sessionRegistry.recordRun({
+          sessionId: resultSessionId,
+          previousSessionId,
+          prompt,
+          cost,
+          model,
+          threadId: session.threadId
+        });
+      }
       
-      return result;
-    },
+      await usageLedger.record({
+        timestamp: new Date().toISOString(),
+        userId: options.userId,
+        sessionId: resultSessionId,
+        threadId: session.threadId,
+        model,
+        cost,
+        durationMs: result.duration ?? 0,
+        inputTokens: result.inputTokens ?? 0,
+        outputTokens: result.outputTokens ?? 0
+      });
+    } catch (caught) {
+      console.error(`Claude Code run failed in thread ${session.threadId}:`, caught);
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+    // 中断・失敗した場合は結果のメッセージが届かないため、ここで最後のターンを終える
+    if (!finished) deliver([{ type: 'result', content: '' }]);
+    await delivery;
     
+    const durationMs = Date.now() - startedAt;
+    // 実行後の状態を記録し、実際に変更されたファイルを取得（Bashでの変更も含む）
+    let changedFiles = [...editedFiles];
+    if (checkpoint) {
+      try {
+        await checkpoint.finish();
+        changedFiles = (await checkpoint.changedFiles()).map(change => change.path);
+      } catch (caught) {
+        console.error(`Failed to record changes of the run in thread ${session.threadId}:`, caught);
+      }
+    }
+    const status = controller.signal.aborted ? 'cancelled' : error !== undefined ? 'error' : 'success';
+    // キャンセルされた場合は通知しない
+    if (status === 'error') {
+      notify({ event: 'error', threadId: session.threadId, message: `❌ Claude Codeの実行に失敗しました: ${error!.split('\n')[0]}`, durationMs });
+    } else if (status === 'success') {
+      notify({ event: 'complete', threadId: session.threadId, message: '✅ Claude Codeの実行が完了しました。', durationMs });
+    }
+    if (error === undefined) {
+      await enforceBudgetAfterRun(session);
+    }
+    
+    return {
+      summary: {
+        status,
+        threadId: session.threadId,
+        sessionId: session.sessionId ?? streamedSessionId,
+        model: model ?? requestedModel,
+        durationMs,
+        cost: result?.cost ?? (streamedCosts.size > 0 ? streamedCost() : undefined),
+        toolCalls,
+        filesTouched: changedFiles,
+        error: status === 'error' ? error : undefined
+      },
+      checkpoint
+    };
+  }
+  
+  // 完了カードをインタラクションの応答として表示する
+  // トークンは15分で失効するため、長い実行で応答できない場合はセッションのスレッドに投稿する
+  async function deliverRunCard(outcome: RunOutcome, prompt: string | undefined, reply: (content: MessageContent) => Promise<void>): Promise<void> {
+    const card = createRunCard(outcome, prompt);
+    try {
+      await reply(card);
+    } catch (error) {
+      console.warn(`Failed to show the run card through the interaction, posting it to thread ${outcome.summary.threadId}:`, error);
+      await createThreadSender(outcome.summary.threadId).sendMessage(card);
+    }
+  }
+  
+  return {
     // deno-lint-ignore no-explicit-any
-    async onContinue(ctx: any, prompt?: string): Promise<ClaudeResponse> {
-      // 既存のセッションがあればキャンセル
-      if (deps.claudeController) {
-        deps.claudeController.abort();
+    async onClaude(ctx: any, prompt: string, options: RunRequestOptions = {}): Promise<RunSummary | null> {
+      const { sessionId, model, force, attachments } = options;
+      const threadId: string | null = ctx.getThreadId();
+      
+      // インタラクションを延期（最初に実行）
+      await ctx.deferReply();
+      
+      const budget = checkBudget(sessionId ?? (threadId ? sessionManager.get(threadId)?.sessionId : undefined));
+      if (!budget.allowed) {
+        await ctx.editReply({ embeds: [budgetExceededEmbed(budget.message)] });
+        return null;
       }
       
-      const controller = new AbortController();
-      deps.setClaudeController(controller);
+      // 初期メッセージを送信
+      await ctx.editReply({
+        embeds: [{
+          color: 0xffff00,
+          title: 'Claude Code 実行中...',
+          description: threadId ? '応答を待っています...' : '応答はスレッドに表示されます...',
+          fields: [
+            { name: 'プロンプト', value: `\`${prompt.substring(0, 1020)}\``, inline: false },
+            ...(model ? [{ name: 'モデル', value: model, inline: true }] : [])
+          ],
+          timestamp: true
+        }]
+      });
+      
+      let session: ClaudeThreadSession;
+      if (threadId) {
+        // スレッド内では、そのスレッドのセッションを再開
+        session = sessionManager.get(threadId) ?? createSession(threadId, sessionId);
+        if (sessionId) {
+          session.sessionId = cleanSessionId(sessionId);
+        }
+        if (model) {
+          session.model = model;
+        }
+      } else {
+        // チャンネルでは新しいスレッドを作成
+        const newThreadId = await ctx.startThread(createThreadName(prompt));
+        session = createSession(newThreadId, sessionId, model);
+      }
       
-      const actualPrompt = prompt || "続きをお願いします。";
+      const prepared = await prepareAttachments(session.threadId, prompt, attachments);
+      const outcome = await runInSession(session, prepared.prompt, { userId: ctx.getUserId(), force, images: prepared.images });
+      // 実行中の表示を完了カードに置き換える
+      await deliverRunCard(outcome, prompt, (content) => ctx.editReply(content));
+      return outcome.summary;
+    },
+    
+    // deno-lint-ignore no-explicit-any
+    async onContinue(ctx: any, prompt?: string, options: Omit<RunRequestOptions, 'sessionId'> = {}): Promise<RunSummary | null> {
+      const { model, force, attachments } = options;
+      const threadId: string | null = ctx.getThreadId();
+      const actualPrompt = prompt || CONTINUE_PROMPT;
       
       // インタラクションを延期
       await ctx.deferReply();
       
+      const budget = checkBudget(threadId ? sessionManager.get(threadId)?.sessionId : undefined);
+      if (!budget.allowed) {
+        await ctx.editReply({ embeds: [budgetExceededEmbed(budget.message)] });
+        return null;
+      }
+      
       // 初期メッセージを送信
       const embedData: { color: number; title: string; description: string; timestamp: boolean; fields?: Array<{ name: string; value: string; inline: boolean }> } = {
         color: 0xffff00,
         title: 'Claude Code 会話継続中...',
-        description: '最新の会話を読み込んで応答を待っています...',
+        description: threadId ? 'このスレッドの会話を継続しています...' : '最新の会話を読み込んで応答を待っています...',
         timestamp: true
       };
       
-      if (prompt) {
-        embedData.fields = [{ name: 'プロンプト', value: `\`${prompt.substring(0, 1020)}\``, inline: false }];
-      }
+      embedData.fields = [
+        ...(prompt ? [{ name: 'プロンプト', value: `\`${prompt.substring(0, 1020)}\``, inline: false }] : []),
+        ...(model ? [{ name: 'モデル', value: model, inline: true }] : [])
+      ];
       
       await ctx.editReply({ embeds: [embedData] });
       
-      const result = await sendToClaudeCode(
-        workDir,
-        actualPrompt,
-        controller,
-        undefined, // sessionIdは使用しない
-        undefined, // onChunkコールバックは使用しない
-        (jsonData) => {
-          // JSONストリームデータを処理してDiscordに送信
-          const claudeMessages = convertToClaudeMessages(jsonData);
-          if (claudeMessages.length > 0) {
-            sendClaudeMessages(claudeMessages).catch(() => {});
-          }
-        },
-        true // continueMode = true
-      );
+      let outcome: RunOutcome;
+      if (threadId) {
+        // スレッドのセッションがあればそれを再開、なければディレクトリの最新の会話を継続
+        const session = sessionManager.get(threadId) ?? createSession(threadId);
+        if (model) {
+          session.model = model;
+        }
+        const prepared = await prepareAttachments(session.threadId, actualPrompt, attachments);
+        outcome = await runInSession(session, prepared.prompt, { continueMode: !session.sessionId, userId: ctx.getUserId(), force, images: prepared.images });
+      } else {
+        const newThreadId = await ctx.startThread(createThreadName(prompt || '会話の継続'));
+        const session = createSession(newThreadId, undefined, model);
+        const prepared = await prepareAttachments(session.threadId, actualPrompt, attachments);
+        outcome = await runInSession(session, prepared.prompt, { continueMode: true, userId: ctx.getUserId(), force, images: prepared.images });
+      }
       
-      deps.setClaudeSessionId(result.sessionId);
-      deps.setClaudeController(null);
+      await deliverRunCard(outcome, prompt, (content) => ctx.editReply(content));
+      return outcome.summary;
+    },
+    
+    // スレッドへの通常のメッセージでセッションを再開
+    async onThreadMessage(message: IncomingMessage): Promise<RunSummary | null> {
+      if (!message.content.trim() && message.attachments.length === 0) {
+        return null;
+      }
       
-      return result;
+      // ボット再起動後は保存された記録からスレッドとセッションの紐づけを復元
+      let session = sessionManager.get(message.channelId);
+      if (!session) {
+        const record = sessionRegistry.findByThread(message.channelId);
+        if (!record) {
+          return null;
+        }
+        session = createSession(message.channelId, record.sessionId);
+      }
+      
+      const budget = checkBudget(session.sessionId);
+      if (!budget.allowed) {
+        await message.reply({ embeds: [budgetExceededEmbed(budget.message)] });
+        return null;
+      }
+      
+      const prepared = await prepareAttachments(session.threadId, message.content.trim() || '添付ファイルを確認してください。', message.attachments);
+      const outcome = await runInSession(session, prepared.prompt, { continueMode: !session.sessionId, userId: message.userId, images: prepared.images });
+      await message.reply(createRunCard(outcome));
+      return outcome.summary;
+    },
+    
+    // Claude Codeのセッションのスレッドか（再起動前のセッションの記録も含む）
+    isSessionThread(threadId: string): boolean {
+      return !!sessionManager.get(threadId) || !!sessionRegistry.findByThread(threadId);
+    },
+    
+    // スレッドがアーカイブ・削除されたらセッションを終了
+    async onThreadClosed(threadId: string): Promise<void> {
+      if (!sessionManager.get(threadId)) {
+        clearRunCardButtons(threadId);
+        await cleanupAttachments(workDir, threadId);
+        return;
+      }
+      console.log(`Thread ${threadId} was closed, ending its Claude Code session...`);
+      await endThreadSession(threadId);
     },
     
     // deno-lint-ignore no-explicit-any
-    onClaudeCancel(_ctx: any): boolean {
-      if (!deps.claudeController) {
-        return false;
+    onClaudeCancel(ctx: any): boolean {
+      const threadId: string | null = ctx.getThreadId();
+      
+      // スレッド内ではそのセッションのみ、チャンネルではすべてのセッションとキュー待ちのジョブをキャンセル
+      if (threadId) {
+        console.log(`Cancelling Claude Code session in thread ${threadId}...`);
+        const dequeued = jobQueue.clear(job => job.threadId === threadId).length;
+        return sessionManager.cancel(threadId) || dequeued > 0;
       }
       
-      console.log("Cancelling Claude Code session...");
-      deps.claudeController.abort();
-      deps.setClaudeController(null);
-      deps.setClaudeSessionId(undefined);
+      console.log("Cancelling all Claude Code sessions...");
+      const dequeued = jobQueue.clear().length;
+      return sessionManager.cancelAll() + dequeued > 0;
+    },
+    
+    onQueueList(): { running: QueuedJob | null; waiting: QueuedJob[] } {
+      return { running: jobQueue.getRunning(), waiting: jobQueue.list() };
+    },
+    
+    onQueueClear(): QueuedJob[] {
+      return jobQueue.clear();
+    },
+    
+    onQueueMove(jobId: number, position: number): number | undefined {
+      return jobQueue.move(jobId, position);
+    },
+    
+    onSessionsList(): SessionRecord[] {
+      return sessionRegistry.list();
+    },
+    
+    // 保存されたセッションをスレッドに紐づけ、プロンプトがあれば実行
+    // deno-lint-ignore no-explicit-any
+    async onSessionsResume(ctx: any, record: SessionRecord, prompt?: string): Promise<RunSummary | null> {
+      const threadId: string = ctx.getThreadId() ?? await ctx.startThread(createThreadName(record.name ?? record.firstPrompt));
+      
+      const session = sessionManager.get(threadId) ?? createSession(threadId);
       
-      return true;
+      if (!prompt) {
+        // 実行中・待機中のジョブはこれまでのセッションで続けるため、その間は切り替えない
+        if (isThreadBusy(threadId)) {
+          await ctx.editReply({
+            embeds: [{
+              color: 0xff0000,
+              title: 'セッション再開エラー',
+              description: 'このスレッドには実行中・待機中のジョブがあります。終了してから再開するか、プロンプトを指定してキューに追加してください。',
+              timestamp: true
+            }]
+          });
+          return null;
+        }
+        await switchSession(session, record.sessionId);
+        return null;
+      }
+      
+      const budget = checkBudget(record.sessionId);
+      if (!budget.allowed) {
+        await ctx.followUp({ embeds: [budgetExceededEmbed(budget.message)] });
+        return null;
+      }
+      // 他のジョブと同様にキューで順番を待ち、実行の直前にセッションを切り替える
+      const outcome = await runInSession(session, prompt, { userId: ctx.getUserId(), resumeSessionId: record.sessionId });
+      await deliverRunCard(outcome, prompt, (content) => ctx.followUp(content));
+      return outcome.summary;
+    },
+    
+    findSession(query: string): SessionLookup {
+      return sessionRegistry.find(query);
+    },
+    
+    async onSessionsRename(query: string, name: string) {
+      return await sessionRegistry.rename(query, name);
+    },
+    
+    async onSessionsDelete(query: string): Promise<SessionLookup> {
+      const result = await sessionRegistry.delete(query);
+      if (result.record?.threadId) {
+        await endThreadSession(result.record.threadId);
+      }
+      return result;
+    },
+    
+    // /sessions のセッション名・IDのオートコンプリート
+    onSessionsAutocomplete(partial: string): AutocompleteChoice[] {
+      return sessionRegistry.search(partial).map(record => {
+        const label = record.name ? `${record.name} (${record.sessionId.substring(0, 8)})` : record.sessionId.substring(0, 8);
+        const prompt = record.firstPrompt.replace(/\s+/g, ' ');
+        return {
+          name: `${label} - ${prompt}`,
+          value: record.name ?? record.sessionId
+        };
+      });
+    },
+    
+    getUsageSummary(threadId: string | null) {
+      const sessionId = threadId ? (sessionManager.get(threadId)?.sessionId ?? sessionRegistry.findByThread(threadId)?.sessionId) : undefined;
+      const weekStart = startOfWeek();
+      return {
+        daily: usageLedger.getDailyTotals(),
+        weekly: usageLedger.getWeeklyTotals(),
+        byUser: usageLedger.getTotalsByUser(startOfToday()),
+        bySession: usageLedger.getTotalsBySession(weekStart).map(([id, totals]) => ({
+          sessionId: id,
+          name: sessionRegistry.get(id)?.name,
+          totals
+        })),
+        currentSession: sessionId ? { sessionId, totals: usageLedger.getSessionTotals(sessionId) } : undefined,
+        budgets: deps.getBudgets()
+      };
+    },
+    
+    // ツールを使わずにClaude Codeに1回だけ問い合わせ、応答のテキストを返す（コミットメッセージの作成等）
+    async generateText(prompt: string, userId?: string): Promise<string> {
+      const budget = checkBudget();
+      if (!budget.allowed) {
+        throw new Error(budget.message);
+      }
+      
+      const result = await sendToClaudeCode(workDir, prompt, new AbortController(), undefined, undefined, undefined, false, {
+        permissionMode: 'default',
+        canUseTool: () => Promise.resolve({ behavior: 'deny', message: 'この問い合わせではツールを使用できません。' }),
+        model: deps.getModel() ?? undefined,
+        fallbackModels: deps.getFallbackModels()
+      });
+      await usageLedger.record({
+        timestamp: new Date().toISOString(),
+        userId,
+        model: result.modelUsed && result.modelUsed !== 'Default' ? result.modelUsed : undefined,
+        cost: result.cost ?? 0,
+        durationMs: result.duration ?? 0,
+        inputTokens: result.inputTokens ?? 0,
+        outputTokens: result.outputTokens ?? 0
+      });
+      return result.response;
+    },
+    
+    cancelAll(): number {
+      return sessionManager.cancelAll();
+    },
+    
+    getRunningCount(): number {
+      return sessionManager.getRunning().length;
+    },
+    
+    getQueuedCount(): number {
+      return jobQueue.size;
+    },
+    
+    // シャットダウン時にすべての添付ファイルを削除
+    async cleanupAttachments(): Promise<void> {
+      await cleanupAllAttachments(workDir);
     }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { createClaudeHandlers } from "./command.ts";
+import { ClaudeSessionManager } from "./session.ts";
+import { ClaudeJobQueue } from "./queue.ts";
+import { SessionRegistry } from "./registry.ts";
+import { UsageLedger } from "./usage.ts";
+import { DEFAULT_MESSAGE_FILTER } from "./discord-sender.ts";
+import type { MessageContent } from "../discord/types.ts";
+
+async function withHandlers(fn: (env: {
+  handlers: ReturnType<typeof createClaudeHandlers>;
+  sessionManager: ClaudeSessionManager;
+  jobQueue: ClaudeJobQueue;
+  sessionRegistry: SessionRegistry;
+}) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: 'command-test-' });
+  const sessionManager = new ClaudeSessionManager();
+  const jobQueue = new ClaudeJobQueue();
+  const sessionRegistry = new SessionRegistry(`${dir}/sessions.json`, 'main');
+  const handlers = createClaudeHandlers({
+    workDir: dir,
+    sessionManager,
+    jobQueue,
+    sessionRegistry,
+    usageLedger: new UsageLedger(`${dir}/usage.jsonl`),
+    getBudgets: () => ({ dailyUsd: null, sessionUsd: null }),
+    createThreadSender: () => ({ sendMessage: () => Promise.resolve(null) }),
+    buttonHandlers: new Map(),
+    getPermissionMode: () => 'bypassPermissions',
+    getModel: () => null,
+    getFallbackModels: () => [],
+    getMessageFilter: () => DEFAULT_MESSAGE_FILTER,
+    notify: () => Promise.resolve(),
+    createCheckpoint: () => Promise.resolve(null)
+  });
+  try {
+    await fn({ handlers, sessionManager, jobQueue, sessionRegistry });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+// スレッド内で実行された /sessions resume のインタラクション
+function threadContext(threadId: string) {
+  const replies: MessageContent[] = [];
+  return {
+    replies,
+    ctx: {
+      getThreadId: () => threadId,
+      getUserId: () => 'user',
+      editReply: (content: MessageContent) => { replies.push(content); return Promise.resolve(); },
+      followUp: (content: MessageContent) => { replies.push(content); return Promise.resolve(); }
+    }
+  };
+}
+
+// スレッドで実行中のジョブ（終了させるまで実行中のまま）
+function startRunningJob(env: { sessionManager: ClaudeSessionManager; jobQueue: ClaudeJobQueue }, threadId: string) {
+  let finish!: () => void;
+  const controller = new AbortController();
+  const queued = env.jobQueue.enqueue({ prompt: 'running', threadId }, () => new Promise<void>((resolve) => {
+    const session = env.sessionManager.get(threadId)!;
+    session.controller = controller;
+    finish = () => {
+      session.controller = null;
+      resolve();
+    };
+  }));
+  return { controller, finish: () => finish(), result: queued.result };
+}
+
+Deno.test("実行中のジョブがあるスレッドではプロンプトなしで再開できない", async () => {
+  await withHandlers(async (env) => {
+    await env.sessionRegistry.recordRun({ sessionId: 'current', prompt: 'a', threadId: 't1' });
+    await env.sessionRegistry.recordRun({ sessionId: 'saved', prompt: 'b' });
+    const { ctx, replies } = threadContext('t1');
+
+    // スレッドのセッションを作成してから実行中にする
+    await env.handlers.onSessionsResume(ctx, env.sessionRegistry.get('current')!);
+    const running = startRunningJob(env, 't1');
+
+    assert.equal(await env.handlers.onSessionsResume(ctx, env.sessionRegistry.get('saved')!), null);
+    assert.equal(running.controller.signal.aborted, false);
+    assert.equal(env.sessionManager.get('t1')?.sessionId, 'current');
+    assert.equal(replies.at(-1)?.embeds?.[0]?.title, 'セッション再開エラー');
+
+    running.finish();
+    await running.result;
+  });
+});
+
+Deno.test("プロンプト付きの再開は実行中のジョブを中断せずキューで待つ", async () => {
+  await withHandlers(async (env) => {
+    await env.sessionRegistry.recordRun({ sessionId: 'current', prompt: 'a', threadId: 't1' });
+    await env.sessionRegistry.recordRun({ sessionId: 'saved', prompt: 'b' });
+    const { ctx, replies } = threadContext('t1');
+
+    await env.handlers.onSessionsResume(ctx, env.sessionRegistry.get('current')!);
+    const running = startRunningJob(env, 't1');
+
+    const resumed = env.handlers.onSessionsResume(ctx, env.sessionRegistry.get('saved')!, '続きをお願いします');
+    assert.equal(running.controller.signal.aborted, false);
+    // 実行中のジョブの間はセッションを切り替えない
+    assert.equal(env.sessionManager.get('t1')?.sessionId, 'current');
+    assert.deepEqual(env.jobQueue.list().map(job => job.prompt), ['続きをお願いします']);
+
+    // 待機中に取り消した場合はキャンセルとして完了する
+    env.jobQueue.clear();
+    assert.equal((await resumed)?.status, 'cancelled');
+    assert.equal(env.sessionManager.get('t1')?.sessionId, 'current');
+    assert.equal(replies.length, 1);
+
+    running.finish();
+    await running.result;
+  });
+});
@@ -0,0 +1,194 @@
+// 行単位のunified diffを作成
+// Edit/Write/MultiEditの変更をDiscordに表示するために使用する
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+// LCSを計算する範囲の上限（超える場合は範囲全体を置き換えとして扱う）
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // 末尾の改行は空行として数えない
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// 共通の先頭・末尾を除いた範囲だけLCSで比較する
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const ops: DiffOp[] = a.slice(0, prefix).map(line => ({ type: ' ' as const, line }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    ops.push(...midA.map(line => ({ type: '-' as const, line })));
+    ops.push(...midB.map(line => ({ type: '+' as const, line })));
+  } else {
+    // lcs[i][j] = midA[i..]とmidB[j..]のLCSの長さ
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        // 削除を追加より先に出力する
+        ops.push({ type: '-', line: midA[i] });
+        i++;
+      } else {
+        ops.push({ type: '+', line: midB[j] });
+        j++;
+      }
+    }
+  }
+
+  ops.push(...a.slice(a.length - suffix).map(line => ({ type: ' ' as const, line })));
+  return ops;
+}
+
+function hunkRange(start: number, count: number): string {
+  // 空の範囲は直前の行番号で表す（unified diffの慣例）
+  const from = count === 0 ? start - 1 : start;
+  return count === 1 ? `${from}` : `${from},${count}`;
+}
+
+// 2つのテキストのunified diffを作成（同一の場合は空文字列）
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { oldPath?: string; newPath?: string; context?: number } = {}
+): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (ops.every(op => op.type === ' ')) return '';
+
+  const lines = [`--- ${options.oldPath ?? 'a'}`, `+++ ${options.newPath ?? 'b'}`];
+
+  // 変更箇所の前後context行を含む範囲をハンクにまとめる
+  const changed = ops.map((op, index) => op.type !== ' ' ? index : -1).filter(index => index >= 0);
+  let index = 0;
+  while (index < changed.length) {
+    const start = Math.max(0, changed[index] - context);
+    let end = Math.min(ops.length, changed[index] + context + 1);
+    while (index + 1 < changed.length && changed[index + 1] - context <= end) {
+      index++;
+      end = Math.min(ops.length, changed[index] + context + 1);
+    }
+    index++;
+
+    // ハンク開始位置までの行数から行番号を求める
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== '+') oldLine++;
+      if (op.type !== '-') newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+    lines.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`);
+    lines.push(...hunk.map(op => `${op.type}${op.line}`));
+  }
+
+  return lines.join('\n');
+}
+
+// 変更前のファイル内容を読む（存在しない場合はnull）
+function readFileOrNull(path: string): string | null {
+  try {
+    return Deno.readTextFileSync(path);
+  } catch {
+    return null;
+  }
+}
+
+interface EditInput {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+// ファイルの内容に編集を適用（見つからない場合はnull）
+function applyEdit(content: string, edit: EditInput): string | null {
+  if (!content.includes(edit.old_string)) return null;
+  return edit.replace_all
+    ? content.split(edit.old_string).join(edit.new_string)
+    : content.replace(edit.old_string, () => edit.new_string);
+}
+
+// ファイルに適用済みの編集を元に戻す（見つからない場合はnull）
+function revertEdit(content: string, edit: EditInput): string | null {
+  if (!content.includes(edit.new_string)) return null;
+  return edit.replace_all
+    ? content.split(edit.new_string).join(edit.old_string)
+    : content.replace(edit.new_string, () => edit.old_string);
+}
+
+// Edit/MultiEdit/Writeのツール入力から変更のdiffを作成（対象外のツールはnull）
+// ツールは別プロセスで実行されるため、読んだ時点でファイルが変更前か変更後かの両方に対応する
+// deno-lint-ignore no-explicit-any
+export function createToolDiff(toolName: string, input: Record<string, any>): string | null {
+  const filePath: unknown = input.file_path;
+  if (typeof filePath !== 'string') return null;
+
+  let edits: EditInput[];
+  if (toolName === 'Edit') {
+    edits = [input as EditInput];
+  } else if (toolName === 'MultiEdit' && Array.isArray(input.edits)) {
+    edits = input.edits;
+  } else if (toolName === 'Write' && typeof input.content === 'string') {
+    const current = readFileOrNull(filePath);
+    // 書き込み後に読んだ場合は変更前の内容が分からないため新規ファイルとして表示
+    const before = current === input.content ? null : current;
+    return createUnifiedDiff(before ?? '', input.content, {
+      oldPath: before === null ? '/dev/null' : `a${filePath}`,
+      newPath: `b${filePath}`
+    });
+  } else {
+    return null;
+  }
+
+  if (!edits.every(edit => typeof edit?.old_string === 'string' && typeof edit?.new_string === 'string')) {
+    return null;
+  }
+
+  const current = readFileOrNull(filePath);
+  let before: string | null = null;
+  let after: string | null = null;
+  if (current !== null) {
+    // 変更前として編集を順に適用してみる
+    after = edits.reduce<string | null>((content, edit) => content === null ? null : applyEdit(content, edit), current);
+    if (after !== null) {
+      before = current;
+    } else {
+      // 変更後として逆順に元に戻してみる
+      before = [...edits].reverse().reduce<string | null>((content, edit) => content === null ? null : revertEdit(content, edit), current);
+      after = before !== null ? current : null;
+    }
+  }
+
+  if (before === null || after === null) {
+    // ファイルから位置を特定できない場合は編集部分のみのdiff
+    return edits.map(edit => createUnifiedDiff(edit.old_string, edit.new_string, {
+      oldPath: `a${filePath}`,
+      newPath: `b${filePath}`
+    })).filter(Boolean).join('\n');
+  }
+
+  return createUnifiedDiff(before, after, { oldPath: `a${filePath}`, newPath: `b${filePath}` });
+}
@@ -1,121 +1,306 @@
 import { splitText } from "../discord/utils.ts";
-import type { ClaudeMessage } from "./types.ts";
-import type { MessageContent, EmbedData } from "../discord/types.ts";
+import type { ClaudeMessage, MessageFilter } from "./types.ts";
+import type { MessageContent, EmbedData, SentMessageHandle, FileAttachmentData } from "../discord/types.ts";
+import { createToolDiff } from "./diff.ts";
 
 // Discord sender interface for dependency injection
 export interface DiscordSender {
-  sendMessage(content: MessageContent): Promise<void>;
+  // Resolves to null when the message could not be sent (e.g. channel not ready)
+  sendMessage(content: MessageContent): Promise<SentMessageHandle | null>;
+}
+
+// Embed description limit
+const EMBED_DESCRIPTION_LIMIT = 4096;
+
+// Diffs longer than this are uploaded as a .diff file instead of shown inline
+const INLINE_DIFF_LIMIT = 1500;
+
+// Tool result bodies are cut to this length when shown inline
+const TOOL_RESULT_PREVIEW_LIMIT = 1000;
+
+// Shows everything, with tool results collapsed to a one-line summary (their bodies are opt-in via show-tool-results)
+export const DEFAULT_MESSAGE_FILTER: MessageFilter = {
+  verbosity: 'full',
+  showThinking: true,
+  showToolResults: false,
+  showOtherContent: true
+};
+
+// Minimum interval between edits of the live message (Discord rate limits edits per channel)
+const EDIT_INTERVAL_MS = 1500;
+
+const TODO_STATUS_EMOJIS: Record<string, string> = {
+  pending: '⏳',
+  in_progress: '🔄',
+  completed: '✅'
+};
+
+const TODO_PRIORITY_EMOJIS: Record<string, string> = {
+  high: '🔴',
+  medium: '🟡',
+  low: '🟢'
+};
+
+// ツール呼び出しを1行に要約
+// deno-lint-ignore no-explicit-any
+function summarizeToolUse(name: string, input: Record<string, any>): string {
+  const summary = input.command ?? input.file_path ?? input.notebook_path ?? input.pattern ?? input.url ?? input.description ?? input.path
+    ?? Object.values(input).find(v => typeof v === 'string');
+  if (typeof summary !== 'string' || !summary) {
+    return `🔧 **${name}**`;
+  }
+  const oneLine = summary.replace(/\s+/g, ' ').replace(/`/g, "'");
+  return `🔧 **${name}** \`${oneLine.length > 100 ? oneLine.substring(0, 97) + '...' : oneLine}\``;
+}
+
+// TodoWriteの内容を行に整形
+// deno-lint-ignore no-explicit-any
+function formatTodos(todos: any[]): string {
+  if (todos.length === 0) {
+    return '📝 **Todo List**: タスクリストが空です';
+  }
+  const lines = todos.map(todo => {
+    const statusEmoji = TODO_STATUS_EMOJIS[todo.status] || '❓';
+    const priorityEmoji = TODO_PRIORITY_EMOJIS[todo.priority] || '⚪';
+    return `${statusEmoji} ${priorityEmoji} ${todo.content}`;
+  });
+  return `📝 **Todo List**\n${lines.join('\n')}`;
+}
+
+// コードブロック内の ``` でブロックが閉じないようにする
+function escapeCodeBlock(text: string): string {
+  return text.replace(/```/g, '`\u200b``');
+}
+
+// テキストをコードブロックで表示し、長すぎる場合は添付ファイルにする
+export function codeBlockOrAttachment(
+  text: string,
+  language: string,
+  fileName: string,
+  limit = EMBED_DESCRIPTION_LIMIT - 100
+): { description: string; files?: FileAttachmentData[] } {
+  if (text.length <= limit) {
+    return { description: `\`\`\`${language}\n${escapeCodeBlock(text)}\n\`\`\`` };
+  }
+  const lineCount = text.split('\n').length;
+  return {
+    description: `📎 ${lineCount}行 / ${text.length}文字のため \`${fileName}\` として添付しました`,
+    files: [{ name: fileName, data: text }]
+  };
+}
+
+// diffの追加・削除行数
+function countDiffLines(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) added++;
+    if (line.startsWith('-') && !line.startsWith('---')) removed++;
+  }
+  return { added, removed };
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() || 'file';
+}
+
+// ツール結果を折りたたんだ1行に要約
+function summarizeToolResult(content: string): string {
+  const lineCount = content ? content.split('\n').length : 0;
+  return `　↳ 結果: ${lineCount}行 / ${content.length}文字`;
+}
+
+// ツール結果の本文を先頭だけコードブロックで表示
+function formatToolResultBody(content: string): string {
+  const preview = content.length > TOOL_RESULT_PREVIEW_LIMIT
+    ? `${content.substring(0, TOOL_RESULT_PREVIEW_LIMIT)}\n… (残り${content.length - TOOL_RESULT_PREVIEW_LIMIT}文字)`
+    : content;
+  return `\`\`\`\n${escapeCodeBlock(preview)}\n\`\`\``;
+}
+
+// 1つのアシスタントターンを、編集で更新される1つ（上限を超えたら複数）のメッセージとして描画する
+function createTurnRenderer(sender: DiscordSender) {
+  // Rendered pieces of the current turn in order
+  let segments: string[] = [];
+  // One entry per Discord message of the current turn
+  let pages: Array<{ handle: SentMessageHandle | null; rendered: string }> = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastFlush = 0;
+  // Serializes all Discord API calls so that edits are applied in order
+  let chain: Promise<void> = Promise.resolve();
+
+  // Greedily pack segments into pages no longer than the embed limit
+  function paginate(): string[] {
+    const result: string[] = [];
+    let current = '';
+    for (const segment of segments) {
+      for (const piece of splitText(segment, EMBED_DESCRIPTION_LIMIT)) {
+        const joined = current ? `${current}\n${piece}` : piece;
+        if (joined.length > EMBED_DESCRIPTION_LIMIT) {
+          result.push(current);
+          current = piece;
+        } else {
+          current = joined;
+        }
+      }
+    }
+    if (current) result.push(current);
+    return result;
+  }
+
+  function toContent(description: string, pageIndex: number): MessageContent {
+    return {
+      embeds: [{
+        color: 0x00ff00,
+        title: pageIndex === 0 ? 'Assistant' : 'Assistant (続き)',
+        description,
+        timestamp: true
+      }]
+    };
+  }
+
+  async function flush() {
+    lastFlush = Date.now();
+    const rendered = paginate();
+    for (let i = 0; i < rendered.length; i++) {
+      const page = pages[i];
+      if (!page) {
+        // A new message is only started when the previous one is full
+        const handle = await sender.sendMessage(toContent(rendered[i], i));
+        pages.push({ handle, rendered: rendered[i] });
+      } else if (page.rendered !== rendered[i]) {
+        page.rendered = rendered[i];
+        await page.handle?.edit(toContent(rendered[i], i));
+      }
+    }
+  }
+
+  function enqueue(task: () => Promise<void>): Promise<void> {
+    chain = chain.then(task).catch((error) => {
+      console.error('Failed to update Discord message:', error);
+    });
+    return chain;
+  }
+
+  function scheduleFlush() {
+    if (flushTimer !== null) return;
+    const wait = Math.max(0, lastFlush + EDIT_INTERVAL_MS - Date.now());
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      enqueue(flush);
+    }, wait);
+  }
+
+  return {
+    append(segment: string) {
+      segments.push(segment);
+      scheduleFlush();
+    },
+
+    // Flush pending content immediately and start a fresh turn for anything that follows
+    endTurn(): Promise<void> {
+      if (flushTimer !== null) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+      const hasPending = segments.length > 0;
+      return enqueue(async () => {
+        if (hasPending) {
+          await flush();
+        }
+        segments = [];
+        pages = [];
+      });
+    },
+
+    // Send a standalone message after everything queued so far
+    send(content: MessageContent): Promise<void> {
+      return enqueue(async () => {
+        await sender.sendMessage(content);
+      });
+    }
+  };
 }
 
 // Create sendClaudeMessages function with dependency injection
-export function createClaudeSender(sender: DiscordSender) {
+// The filter is read for every message so that verbosity changes apply to running sessions
+export function createClaudeSender(sender: DiscordSender, getFilter: () => MessageFilter = () => DEFAULT_MESSAGE_FILTER) {
+  const turn = createTurnRenderer(sender);
+  // The assistant message being rendered; a new message ID starts a new turn
+  let currentMessageId: string | undefined;
+
   return async function sendClaudeMessages(messages: ClaudeMessage[]) {
   for (const msg of messages) {
+    const filter = getFilter();
+    const full = filter.verbosity === 'full';
+    if (msg.messageId && msg.messageId !== currentMessageId) {
+      if (currentMessageId) await turn.endTurn();
+      currentMessageId = msg.messageId;
+    }
     switch (msg.type) {
       case 'text': {
-        const chunks = splitText(msg.content, 4000);
-        for (let i = 0; i < chunks.length; i++) {
-          await sender.sendMessage({
-            embeds: [{
-              color: 0x00ff00,
-              title: chunks.length > 1 ? `Assistant (${i + 1}/${chunks.length})` : 'Assistant',
-              description: chunks[i],
-              timestamp: true
-            }]
-          });
-        }
+        // answer only shows the final answer, which arrives with the result
+        if (filter.verbosity === 'answer') break;
+        turn.append(msg.content);
         break;
       }
       
       case 'tool_use': {
-        if (msg.metadata?.name === 'TodoWrite') {
-          const todos = msg.metadata?.input?.todos || [];
-          const statusEmojis: Record<string, string> = {
-            pending: '⏳',
-            in_progress: '🔄',
-            completed: '✅'
-          };
-          const priorityEmojis: Record<string, string> = {
-            high: '🔴',
-            medium: '🟡',
-            low: '🟢'
-          };
-          
-          let todoList = '';
-          if (todos.length === 0) {
-            todoList = 'タスクリストが空です';
+        if (filter.verbosity === 'answer') break;
+        const toolName = msg.metadata?.name || 'Unknown';
+        const input = msg.metadata?.input || {};
+        if (toolName === 'TodoWrite') {
+          turn.append(formatTodos(input.todos || []));
+          break;
+        }
+        
+        turn.append(summarizeToolUse(toolName, input));
+        
+        // ファイルの変更はunified diffで表示し、大きい場合は.diffファイルとして添付
+        const diff = full ? createToolDiff(toolName, input) : null;
+        if (diff) {
+          const { added, removed } = countDiffLines(diff);
+          if (diff.length <= INLINE_DIFF_LIMIT) {
+            turn.append(`\`\`\`diff\n${escapeCodeBlock(diff)}\n\`\`\``);
           } else {
-            for (const todo of todos) {
-              const statusEmoji = statusEmojis[todo.status] || '❓';
-              const priorityEmoji = priorityEmojis[todo.priority] || '⚪';
-              todoList += `${statusEmoji} ${priorityEmoji} **${todo.content}**\n`;
-            }
+            await turn.endTurn();
+            await turn.send({
+              embeds: [{
+                color: 0x0099ff,
+                title: `📄 ${baseName(input.file_path)} の変更`,
+                description: `+${added} / -${removed} 行（diffを添付）`,
+                timestamp: true
+              }],
+              files: [{ name: `${baseName(input.file_path)}.diff`, data: diff }]
+            });
           }
-          
-          await sender.sendMessage({
-            embeds: [{
-              color: 0x9932cc,
-              title: '📝 Todo List Updated',
-              description: todoList,
-              fields: [{ name: 'Tool ID', value: `\`${msg.metadata.id}\``, inline: true }],
-              footer: { text: '⏳ Pending | 🔄 In Progress | ✅ Completed | 🔴 High | 🟡 Medium | 🟢 Low' },
-              timestamp: true
-            }]
-          });
-        } else {
-          const inputStr = JSON.stringify(msg.metadata?.input || {}, null, 2);
-          // Account for the code block markers when calculating max length
-          const maxContentLength = 4096 - "```json\n\n```".length - 50; // 50 chars safety margin
-          const truncatedInput = inputStr.length > maxContentLength 
-            ? inputStr.substring(0, maxContentLength - 3) + '...' 
-            : inputStr;
-          
-          await sender.sendMessage({
-            embeds: [{
-              color: 0x0099ff,
-              title: `🔧 Tool Use: ${msg.metadata?.name || 'Unknown'}`,
-              description: `\`\`\`json\n${truncatedInput}\n\`\`\``,
-              fields: [{ name: 'Tool ID', value: `\`${msg.metadata?.id || 'Unknown'}\``, inline: true }],
-              timestamp: true
-            }]
-          });
         }
         break;
       }
       
       case 'tool_result': {
-        // Account for code block markers when splitting
-        const maxChunkLength = 4096 - "```\n\n```".length - 50; // 50 chars safety margin
-        const chunks = splitText(msg.content, maxChunkLength);
-        for (let i = 0; i < chunks.length; i++) {
-          await sender.sendMessage({
-            embeds: [{
-              color: 0x00ffff,
-              title: chunks.length > 1 ? `🔧 Tool Result (${i + 1}/${chunks.length})` : '🔧 Tool Result',
-              description: `\`\`\`\n${chunks[i]}\n\`\`\``,
-              timestamp: true
-            }]
-          });
+        if (!full) break;
+        turn.append(summarizeToolResult(typeof msg.content === 'string' ? msg.content : ''));
+        if (filter.showToolResults && typeof msg.content === 'string' && msg.content.trim()) {
+          turn.append(formatToolResultBody(msg.content));
         }
         break;
       }
       
       case 'thinking': {
-        const chunks = splitText(msg.content, 4000);
-        for (let i = 0; i < chunks.length; i++) {
-          await sender.sendMessage({
-            embeds: [{
-              color: 0x9b59b6,
-              title: chunks.length > 1 ? `💭 Thinking (${i + 1}/${chunks.length})` : '💭 Thinking',
-              description: chunks[i],
-              timestamp: true
-            }]
-          });
-        }
+        if (!full || !filter.showThinking) break;
+        const preview = msg.content.replace(/\s+/g, ' ');
+        turn.append(`💭 *${preview.length > 200 ? preview.substring(0, 197) + '...' : preview}*`);
         break;
       }
       
       case 'system': {
+        // System messages (init, shutdown, ...) mark a turn boundary at every verbosity,
+        // so a new run never continues the previous run's live message
+        currentMessageId = undefined;
+        await turn.endTurn();
+        // シャットダウンの通知は表示レベルに関係なく表示
+        if (!full && msg.metadata?.subtype !== 'shutdown') break;
         const embedData: EmbedData = {
           color: 0xaaaaaa,
           title: `⚙️ System: ${msg.metadata?.subtype || 'info'}`,
@@ -151,25 +336,35 @@ export function createClaudeSender(sender: DiscordSender) {
           ];
         }
         
-        await sender.sendMessage({ embeds: [embedData] });
+        await turn.send({ embeds: [embedData] });
+        break;
+      }
+      
+      case 'result': {
+        if (filter.verbosity === 'answer' && msg.content && !msg.metadata?.is_error) {
+          turn.append(msg.content);
+        }
+        // The run is over: finish its last turn so that nothing is appended to it later
+        currentMessageId = undefined;
+        await turn.endTurn();
         break;
       }
       
       case 'other': {
+        if (!full || !filter.showOtherContent) break;
         const jsonStr = JSON.stringify(msg.metadata || msg.content, null, 2);
-        // Account for code block markers when splitting
-        const maxChunkLength = 4096 - "```json\n\n```".length - 50; // 50 chars safety margin
-        const chunks = splitText(jsonStr, maxChunkLength);
-        for (let i = 0; i < chunks.length; i++) {
-          await sender.sendMessage({
-            embeds: [{
-              color: 0xffaa00,
-              title: chunks.length > 1 ? `Other Content (${i + 1}/${chunks.length})` : 'Other Content',
-              description: `\`\`\`json\n${chunks[i]}\n\`\`\``,
-              timestamp: true
-            }]
-          });
-        }
+        // 1つの埋め込みに収まらない場合は分割せず添付ファイルにする
+        const { description, files } = codeBlockOrAttachment(jsonStr, 'json', 'other-content.txt');
+        await turn.endTurn();
+        await turn.send({
+          embeds: [{
+            color: 0xffaa00,
+            title: 'Other Content',
+            description,
+            timestamp: true
+          }],
+          files
+        });
         break;
       }
     }
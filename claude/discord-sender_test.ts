@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { createClaudeSender, DEFAULT_MESSAGE_FILTER } from "./discord-sender.ts";
+import type { MessageContent } from "../discord/types.ts";
+
+// 送信・編集されたメッセージの最新の本文を記録する
+function recordingSender() {
+  const messages: string[] = [];
+  const describe = (content: MessageContent) => content.embeds?.[0]?.description ?? '';
+  return {
+    messages,
+    sender: {
+      sendMessage(content: MessageContent) {
+        const index = messages.push(describe(content)) - 1;
+        return Promise.resolve({
+          edit(edited: MessageContent) {
+            messages[index] = describe(edited);
+            return Promise.resolve();
+          }
+        });
+      }
+    }
+  };
+}
+
+Deno.test("アシスタントのメッセージごとに1つのメッセージとして表示する", async () => {
+  const { messages, sender } = recordingSender();
+  const send = createClaudeSender(sender);
+
+  await send([{ type: 'text', content: 'ファイルを確認します', messageId: 'm1' }]);
+  await send([{ type: 'tool_use', content: '', messageId: 'm1', metadata: { name: 'Read', input: { file_path: '/repo/a.ts' } } }]);
+  await send([{ type: 'tool_result', content: 'line1\nline2' }]);
+  await send([{ type: 'text', content: '完了しました', messageId: 'm2' }]);
+  await send([{ type: 'result', content: '完了しました' }]);
+
+  assert.deepEqual(messages, [
+    'ファイルを確認します\n🔧 **Read** `/repo/a.ts`\n　↳ 結果: 2行 / 11文字',
+    '完了しました'
+  ]);
+});
+
+Deno.test("answer では最終的な回答のみ表示する", async () => {
+  const { messages, sender } = recordingSender();
+  const send = createClaudeSender(sender, () => ({ ...DEFAULT_MESSAGE_FILTER, verbosity: 'answer' }));
+
+  await send([{ type: 'system', content: '', metadata: { subtype: 'init' } }]);
+  await send([{ type: 'text', content: '途中の説明', messageId: 'm1' }]);
+  await send([{ type: 'tool_use', content: '', messageId: 'm1', metadata: { name: 'Bash', input: { command: 'ls' } } }]);
+  await send([{ type: 'text', content: '最終的な回答', messageId: 'm2' }]);
+  await send([{ type: 'result', content: '最終的な回答', metadata: { subtype: 'success' } }]);
+
+  assert.deepEqual(messages, ['最終的な回答']);
+});
+
+Deno.test("表示レベルに関係なく実行ごとに新しいメッセージで表示する", async () => {
+  const { messages, sender } = recordingSender();
+  const send = createClaudeSender(sender, () => ({ ...DEFAULT_MESSAGE_FILTER, verbosity: 'tools' }));
+
+  // 結果のメッセージが届かずに終わった実行の後でも、次の実行は前のメッセージを編集しない
+  await send([{ type: 'system', content: '', metadata: { subtype: 'init' } }]);
+  await send([{ type: 'text', content: '1回目' }]);
+  await send([{ type: 'system', content: '', metadata: { subtype: 'init' } }]);
+  await send([{ type: 'text', content: '2回目' }]);
+  await send([{ type: 'result', content: '2回目' }]);
+
+  assert.deepEqual(messages, ['1回目', '2回目']);
+});
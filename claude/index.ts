@@ -1,5 +1,12 @@
 export * from "./types.ts";
-export { sendToClaudeCode, cleanSessionId } from "./client.ts";
+export { sendToClaudeCode, cleanSessionId, classifyClaudeError } from "./client.ts";
 export { convertToClaudeMessages } from "./message-converter.ts";
-export { claudeCommands, createClaudeHandlers, type ClaudeHandlerDeps } from "./command.ts";
-export { createClaudeSender, type DiscordSender } from "./discord-sender.ts";
\ No newline at end of file
+export { claudeCommands, createClaudeHandlers, QUEUE_CANCEL_PREFIX, type ClaudeHandlerDeps, type RunRequestOptions } from "./command.ts";
+export { createClaudeSender, codeBlockOrAttachment, DEFAULT_MESSAGE_FILTER, type DiscordSender } from "./discord-sender.ts";
+export { createToolApprover, type ToolApproverDeps } from "./approval.ts";
+export { ClaudeSessionManager, type ClaudeThreadSession } from "./session.ts";
+export { SessionRegistry, BOT_DATA_DIR, ensureBotDataDir, type SessionLookup, type SessionRunInfo } from "./registry.ts";
+export { UsageLedger, startOfToday, startOfWeek, type BudgetCheckResult } from "./usage.ts";
+export { RUN_CONTINUE_PREFIX, RUN_DIFF_PREFIX, RUN_REVERT_PREFIX, RUN_SESSION_PREFIX, revertResultEmbed } from "./summary.ts";
+export { ClaudeJobQueue, type QueuedJob, type EnqueueOptions } from "./queue.ts";
+export { downloadAttachments, appendAttachmentsToPrompt, cleanupAttachments, cleanupAllAttachments, ATTACHMENTS_DIR, type DownloadedAttachment, type AttachmentDownloadResult } from "./attachments.ts";
@@ -1,11 +1,25 @@
 import type { ClaudeMessage } from "./types.ts";
 
+// ツール結果の本文（内容がブロックの配列の場合はテキストのブロックをつなげる）
+// deno-lint-ignore no-explicit-any
+function toolResultText(result: any): string {
+  if (typeof result.content === 'string') return result.content;
+  if (Array.isArray(result.content)) {
+    return result.content
+      // deno-lint-ignore no-explicit-any
+      .map((c: any) => c.type === 'text' ? c.text : `[${c.type}]`)
+      .join('\n');
+  }
+  return JSON.stringify(result, null, 2);
+}
+
 // JSONメッセージをClaudeMessageに変換
 // deno-lint-ignore no-explicit-any
 export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
   const messages: ClaudeMessage[] = [];
   
   if (jsonData.type === 'assistant') {
+    const messageId: string | undefined = jsonData.message?.id;
     if (jsonData.message?.content) {
       const textContent = jsonData.message.content
         // deno-lint-ignore no-explicit-any
@@ -15,7 +29,7 @@ export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
         .join('');
       
       if (textContent) {
-        messages.push({ type: 'text', content: textContent });
+        messages.push({ type: 'text', content: textContent, messageId });
       }
       
       // tool_useを個別に処理
@@ -27,7 +41,8 @@ export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
         messages.push({
           type: 'tool_use',
           content: '',
-          metadata: tool
+          metadata: tool,
+          messageId
         });
       }
       
@@ -40,7 +55,8 @@ export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
         if (thinking.thinking) {
           messages.push({
             type: 'thinking',
-            content: thinking.thinking
+            content: thinking.thinking,
+            messageId
           });
         }
       }
@@ -54,7 +70,8 @@ export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
         messages.push({
           type: 'other',
           content: JSON.stringify(other, null, 2),
-          metadata: other
+          metadata: other,
+          messageId
         });
       }
     }
@@ -67,7 +84,7 @@ export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
       for (const result of toolResults) {
         messages.push({
           type: 'tool_result',
-          content: result.content || JSON.stringify(result, null, 2)
+          content: toolResultText(result)
         });
       }
       
@@ -89,6 +106,12 @@ export function convertToClaudeMessages(jsonData: any): ClaudeMessage[] {
       content: '',
       metadata: jsonData
     });
+  } else if (jsonData.type === 'result') {
+    messages.push({
+      type: 'result',
+      content: typeof jsonData.result === 'string' ? jsonData.result : '',
+      metadata: jsonData
+    });
   }
   
   return messages;
@@ -0,0 +1,146 @@
+// キューに入ったClaude Codeの実行
+export interface QueuedJob {
+  id: number;
+  prompt: string;
+  threadId: string;
+  userId?: string;
+  enqueuedAt: string;
+}
+
+export interface EnqueueOptions {
+  // キューの先頭に追加（実行中のジョブを中断する場合に使用）
+  front?: boolean;
+  // 待ち順（1始まり）が変わったときに呼ばれる
+  onPositionChange?: (job: QueuedJob, position: number) => void;
+  // 実行を開始するときに呼ばれる
+  onStart?: (job: QueuedJob) => void;
+  // 待機中にキャンセルされたときに呼ばれる
+  onCancel?: (job: QueuedJob) => void;
+}
+
+interface QueueEntry extends QueuedJob {
+  options: EnqueueOptions;
+  start: () => void;
+  cancel: () => void;
+  lastPosition: number;
+}
+
+// 作業ディレクトリでClaude Codeを1つずつ実行するFIFOキュー
+export class ClaudeJobQueue {
+  private waiting: QueueEntry[] = [];
+  private running: QueuedJob | null = null;
+  private nextId = 1;
+
+  // ジョブを追加（positionは待ち順、0ならすぐに実行）
+  // resultはキャンセルされた場合にnullになる
+  enqueue<T>(
+    job: Omit<QueuedJob, 'id' | 'enqueuedAt'>,
+    run: () => Promise<T>,
+    options: EnqueueOptions = {}
+  ): { job: QueuedJob; position: number; result: Promise<T | null> } {
+    const queuedJob: QueuedJob = {
+      ...job,
+      id: this.nextId++,
+      enqueuedAt: new Date().toISOString()
+    };
+
+    const result = new Promise<T | null>((resolve, reject) => {
+      const entry: QueueEntry = {
+        ...queuedJob,
+        options,
+        lastPosition: 0,
+        start: () => {
+          this.running = queuedJob;
+          options.onStart?.(queuedJob);
+          run().then(resolve, reject).finally(() => {
+            this.running = null;
+            this.pump();
+          });
+        },
+        cancel: () => {
+          options.onCancel?.(queuedJob);
+          resolve(null);
+        }
+      };
+
+      if (options.front) {
+        this.waiting.unshift(entry);
+      } else {
+        this.waiting.push(entry);
+      }
+    });
+
+    // 空いていればすぐに実行し、待つ場合のみ待ち順を通知
+    this.pump();
+    this.notifyPositions();
+    return { job: queuedJob, position: this.positionOf(queuedJob.id), result };
+  }
+
+  private pump(): void {
+    if (this.running) return;
+    const next = this.waiting.shift();
+    if (!next) return;
+    next.start();
+    this.notifyPositions();
+  }
+
+  private positionOf(id: number): number {
+    return this.waiting.findIndex(entry => entry.id === id) + 1;
+  }
+
+  // 待ち順が変わったジョブにのみ通知
+  private notifyPositions(): void {
+    this.waiting.forEach((entry, index) => {
+      const position = index + 1;
+      if (entry.lastPosition !== position) {
+        entry.lastPosition = position;
+        entry.options.onPositionChange?.(entry, position);
+      }
+    });
+  }
+
+  getRunning(): QueuedJob | null {
+    return this.running;
+  }
+
+  // 待機中のジョブ（実行順）
+  list(): QueuedJob[] {
+    return this.waiting.map(({ id, prompt, threadId, userId, enqueuedAt }) => ({ id, prompt, threadId, userId, enqueuedAt }));
+  }
+
+  get size(): number {
+    return this.waiting.length;
+  }
+
+  // 待機中のジョブをキャンセル（実行中のジョブは対象外）
+  cancel(id: number): QueuedJob | undefined {
+    const entry = this.waiting.find(e => e.id === id);
+    if (!entry) return undefined;
+    this.waiting = this.waiting.filter(e => e !== entry);
+    entry.cancel();
+    this.notifyPositions();
+    return entry;
+  }
+
+  // 条件に合う待機中のジョブをすべてキャンセル
+  clear(filter?: (job: QueuedJob) => boolean): QueuedJob[] {
+    const removed = this.waiting.filter(e => !filter || filter(e));
+    this.waiting = this.waiting.filter(e => !removed.includes(e));
+    for (const entry of removed) {
+      entry.cancel();
+    }
+    this.notifyPositions();
+    return removed;
+  }
+
+  // 待機中のジョブの順番を変更（positionは1始まり、範囲外は端に丸める）
+  move(id: number, position: number): number | undefined {
+    const index = this.waiting.findIndex(e => e.id === id);
+    if (index === -1) return undefined;
+    const [entry] = this.waiting.splice(index, 1);
+    const newIndex = Math.min(Math.max(position - 1, 0), this.waiting.length);
+    this.waiting.splice(newIndex, 0, entry);
+    this.notifyPositions();
+    return newIndex + 1;
+  }
+}
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { ClaudeJobQueue } from "./queue.ts";
+
+// 外から完了させられるジョブ
+function deferred() {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>((r) => resolve = r);
+  return { promise, resolve };
+}
+
+Deno.test("ジョブを1つずつ追加した順に実行する", async () => {
+  const queue = new ClaudeJobQueue();
+  const order: string[] = [];
+  const first = deferred();
+
+  const a = queue.enqueue({ prompt: 'a', threadId: 't1' }, () => {
+    order.push('a');
+    return first.promise;
+  });
+  const b = queue.enqueue({ prompt: 'b', threadId: 't2' }, () => {
+    order.push('b');
+    return Promise.resolve('b');
+  });
+
+  assert.equal(a.position, 0);
+  assert.equal(b.position, 1);
+  assert.equal(queue.getRunning()?.id, a.job.id);
+  assert.deepEqual(queue.list().map(job => job.prompt), ['b']);
+
+  first.resolve('a');
+  assert.equal(await a.result, 'a');
+  assert.equal(await b.result, 'b');
+  assert.deepEqual(order, ['a', 'b']);
+  // 実行中の状態はジョブの完了後に外れる
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(queue.getRunning(), null);
+  assert.equal(queue.size, 0);
+});
+
+Deno.test("front のジョブは待機中のジョブより先に実行する", async () => {
+  const queue = new ClaudeJobQueue();
+  const running = deferred();
+  const order: string[] = [];
+  const run = (name: string) => () => {
+    order.push(name);
+    return Promise.resolve(name);
+  };
+
+  const first = queue.enqueue({ prompt: 'first', threadId: 't' }, () => running.promise);
+  const normal = queue.enqueue({ prompt: 'normal', threadId: 't' }, run('normal'));
+  const forced = queue.enqueue({ prompt: 'forced', threadId: 't' }, run('forced'), { front: true });
+  assert.equal(forced.position, 1);
+
+  running.resolve('first');
+  await Promise.all([first.result, normal.result, forced.result]);
+  assert.deepEqual(order, ['forced', 'normal']);
+});
+
+Deno.test("待ち順が変わったジョブに通知する", async () => {
+  const queue = new ClaudeJobQueue();
+  const running = deferred();
+  const positions: Array<[string, number]> = [];
+  const onPositionChange = (job: { prompt: string }, position: number) => positions.push([job.prompt, position]);
+
+  const first = queue.enqueue({ prompt: 'first', threadId: 't' }, () => running.promise);
+  const b = queue.enqueue({ prompt: 'b', threadId: 't' }, () => Promise.resolve('b'), { onPositionChange });
+  const c = queue.enqueue({ prompt: 'c', threadId: 't' }, () => Promise.resolve('c'), { onPositionChange });
+  assert.deepEqual(positions, [['b', 1], ['c', 2]]);
+
+  assert.equal(queue.move(c.job.id, 1), 1);
+  assert.deepEqual(positions.slice(2), [['c', 1], ['b', 2]]);
+  assert.equal(queue.move(999, 1), undefined);
+
+  running.resolve('first');
+  await Promise.all([first.result, b.result, c.result]);
+});
+
+Deno.test("待機中のジョブをキャンセルすると結果はnullになる", async () => {
+  const queue = new ClaudeJobQueue();
+  const running = deferred();
+  const cancelled: string[] = [];
+  const onCancel = (job: { prompt: string }) => cancelled.push(job.prompt);
+  let ran = false;
+
+  const first = queue.enqueue({ prompt: 'first', threadId: 't1' }, () => running.promise);
+  const b = queue.enqueue({ prompt: 'b', threadId: 't1' }, () => {
+    ran = true;
+    return Promise.resolve('b');
+  }, { onCancel });
+  const c = queue.enqueue({ prompt: 'c', threadId: 't2' }, () => Promise.resolve('c'), { onCancel });
+  const d = queue.enqueue({ prompt: 'd', threadId: 't2' }, () => Promise.resolve('d'), { onCancel });
+
+  // 実行中のジョブはキャンセルできない
+  assert.equal(queue.cancel(first.job.id), undefined);
+  assert.equal(queue.cancel(b.job.id)?.prompt, 'b');
+  assert.deepEqual(queue.clear(job => job.threadId === 't2').map(job => job.prompt), ['c', 'd']);
+  assert.deepEqual(cancelled, ['b', 'c', 'd']);
+  assert.equal(queue.size, 0);
+
+  assert.equal(await b.result, null);
+  assert.equal(await c.result, null);
+  assert.equal(await d.result, null);
+  running.resolve('first');
+  assert.equal(await first.result, 'first');
+  assert.equal(ran, false);
+});
+
+Deno.test("失敗したジョブの後も次のジョブを実行する", async () => {
+  const queue = new ClaudeJobQueue();
+  const failing = queue.enqueue({ prompt: 'fail', threadId: 't' }, () => Promise.reject(new Error('boom')));
+  const next = queue.enqueue({ prompt: 'next', threadId: 't' }, () => Promise.resolve('next'));
+
+  await assert.rejects(failing.result, /boom/);
+  assert.equal(await next.result, 'next');
+});
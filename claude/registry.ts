@@ -0,0 +1,201 @@
+import { dirname } from "node:path";
+import type { SessionRecord } from "./types.ts";
+
+// ボットのデータを保存するディレクトリ（リポジトリ直下）
+export const BOT_DATA_DIR = ".claude-discord";
+
+// ボットのデータディレクトリを作成（ボットのデータがリポジトリにコミットされないようにする）
+export async function ensureBotDataDir(dir: string): Promise<void> {
+  await Deno.mkdir(dir, { recursive: true });
+  try {
+    await Deno.writeTextFile(`${dir}/.gitignore`, "*\n", { createNew: true });
+  } catch {
+    // 既に存在する場合は何もしない
+  }
+}
+
+// セッションの検索結果（見つからない・特定できない場合はその理由）
+export interface SessionLookup {
+  success: boolean;
+  record?: SessionRecord;
+  message?: string;
+}
+
+export interface SessionRunInfo {
+  sessionId: string;
+  // 再開元のセッションID（再開時にIDが変わった場合に既存の記録を引き継ぐ）
+  previousSessionId?: string;
+  prompt: string;
+  cost?: number;
+  model?: string;
+  threadId?: string;
+}
+
+// Claude Codeセッションの記録をJSONファイルに永続化
+export class SessionRegistry {
+  private records: SessionRecord[] = [];
+  private filePath: string;
+  private branchName: string;
+  // 書き込みを直列化するためのチェーン
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, branchName: string) {
+    this.filePath = filePath;
+    this.branchName = branchName;
+  }
+
+  static forWorkDir(workDir: string, branchName: string): SessionRegistry {
+    return new SessionRegistry(`${workDir}/${BOT_DATA_DIR}/sessions.json`, branchName);
+  }
+
+  async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await Deno.readTextFile(this.filePath));
+      this.records = Array.isArray(data.sessions) ? data.sessions : [];
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.error(`セッション記録の読み込みに失敗しました (${this.filePath}):`, error);
+      }
+      this.records = [];
+    }
+  }
+
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify({ sessions: this.records }, null, 2);
+    this.writeChain = this.writeChain.then(async () => {
+      await ensureBotDataDir(dirname(this.filePath));
+      // 書き込み途中で壊れないよう一時ファイル経由で置き換える
+      const tmpPath = `${this.filePath}.tmp`;
+      await Deno.writeTextFile(tmpPath, snapshot);
+      await Deno.rename(tmpPath, this.filePath);
+    }).catch((error) => {
+      console.error(`セッション記録の保存に失敗しました (${this.filePath}):`, error);
+    });
+    return this.writeChain;
+  }
+
+  // 更新日時の新しい順
+  list(): SessionRecord[] {
+    return [...this.records].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(sessionId: string): SessionRecord | undefined {
+    return this.records.find(r => r.sessionId === sessionId);
+  }
+
+  // セッションID・名前・IDの前方一致の順で検索（前方一致は1件に絞れる場合のみ）
+  find(query: string): SessionLookup {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return { success: false, message: 'セッション名またはIDを指定してください。' };
+    }
+    const lower = trimmed.toLowerCase();
+    const exact = this.records.find(r => r.sessionId === trimmed)
+      ?? this.records.find(r => r.name?.toLowerCase() === lower);
+    if (exact) {
+      return { success: true, record: exact };
+    }
+
+    const matches = this.records.filter(r => r.sessionId.startsWith(trimmed));
+    if (matches.length === 1) {
+      return { success: true, record: matches[0] };
+    }
+    return {
+      success: false,
+      message: matches.length === 0
+        ? `セッション「${trimmed}」が見つかりません。`
+        : `「${trimmed}」で始まるセッションが${matches.length}件あります。IDをもう少し長く指定してください。`
+    };
+  }
+
+  findByThread(threadId: string): SessionRecord | undefined {
+    return this.records.find(r => r.threadId === threadId);
+  }
+
+  // オートコンプリート用の候補
+  search(partial: string, limit = 25): SessionRecord[] {
+    const lower = partial.trim().toLowerCase();
+    return this.list()
+      .filter(r => !lower
+        || r.sessionId.startsWith(lower)
+        || r.name?.toLowerCase().includes(lower)
+        || r.firstPrompt.toLowerCase().includes(lower))
+      .slice(0, limit);
+  }
+
+  // 実行結果を記録（新規セッションなら追加、既存なら更新）
+  async recordRun(info: SessionRunInfo): Promise<SessionRecord> {
+    const now = new Date().toISOString();
+    const existing = this.records.find(r => r.sessionId === info.sessionId)
+      ?? (info.previousSessionId ? this.records.find(r => r.sessionId === info.previousSessionId) : undefined);
+
+    let record: SessionRecord;
+    if (existing) {
+      existing.sessionId = info.sessionId;
+      existing.updatedAt = now;
+      existing.totalCost += info.cost ?? 0;
+      if (info.model) existing.model = info.model;
+      record = existing;
+    } else {
+      record = {
+        sessionId: info.sessionId,
+        firstPrompt: info.prompt,
+        createdAt: now,
+        updatedAt: now,
+        totalCost: info.cost ?? 0,
+        model: info.model,
+        branch: this.branchName
+      };
+      this.records.push(record);
+    }
+    if (info.threadId) {
+      this.assignThread(record, info.threadId);
+    }
+
+    await this.save();
+    return record;
+  }
+
+  // 1つのスレッドには1つのセッションのみを紐づける
+  private assignThread(record: SessionRecord, threadId: string): void {
+    for (const other of this.records) {
+      if (other !== record && other.threadId === threadId) {
+        other.threadId = undefined;
+      }
+    }
+    record.threadId = threadId;
+  }
+
+  async bindThread(sessionId: string, threadId: string): Promise<void> {
+    const record = this.records.find(r => r.sessionId === sessionId);
+    if (!record) return;
+    this.assignThread(record, threadId);
+    await this.save();
+  }
+
+  // 名前を変更（他のセッションと重複する名前は不可）
+  async rename(query: string, name: string): Promise<SessionLookup> {
+    const { record, message } = this.find(query);
+    if (!record) {
+      return { success: false, message };
+    }
+
+    const trimmedName = name.trim();
+    const duplicate = this.records.find(r => r !== record && r.name?.toLowerCase() === trimmedName.toLowerCase());
+    if (duplicate) {
+      return { success: false, message: `名前「${trimmedName}」は既に別のセッションで使われています。` };
+    }
+
+    record.name = trimmedName || undefined;
+    await this.save();
+    return { success: true, record };
+  }
+
+  async delete(query: string): Promise<SessionLookup> {
+    const lookup = this.find(query);
+    if (!lookup.record) return lookup;
+    this.records = this.records.filter(r => r !== lookup.record);
+    await this.save();
+    return lookup;
+  }
+}
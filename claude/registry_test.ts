@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { SessionRegistry } from "./registry.ts";
+
+async function withRegistry(fn: (registry: SessionRegistry) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: 'registry-test-' });
+  try {
+    await fn(new SessionRegistry(`${dir}/sessions.json`, 'main'));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("セッションIDの前方一致は1件に絞れる場合のみ", async () => {
+  await withRegistry(async (registry) => {
+    await registry.recordRun({ sessionId: 'abc111', prompt: 'a' });
+    await registry.recordRun({ sessionId: 'abc222', prompt: 'b' });
+    await registry.rename('abc222', 'レビュー');
+
+    assert.equal(registry.find('abc1').record?.sessionId, 'abc111');
+    assert.equal(registry.find('レビュー').record?.sessionId, 'abc222');
+
+    const ambiguous = registry.find('abc');
+    assert.equal(ambiguous.success, false);
+    assert.match(ambiguous.message!, /2件/);
+    assert.equal(registry.find('   ').success, false);
+    assert.equal(registry.find('zzz').success, false);
+
+    // 特定できない場合は削除しない
+    assert.equal((await registry.delete('abc')).success, false);
+    assert.equal(registry.list().length, 2);
+  });
+});
+
+Deno.test("1つのスレッドには1つのセッションのみを紐づける", async () => {
+  await withRegistry(async (registry) => {
+    await registry.recordRun({ sessionId: 'old', prompt: 'a', threadId: 't1' });
+    await registry.recordRun({ sessionId: 'new', prompt: 'b', threadId: 't1' });
+    assert.equal(registry.findByThread('t1')?.sessionId, 'new');
+    assert.equal(registry.get('old')?.threadId, undefined);
+
+    await registry.bindThread('old', 't1');
+    assert.equal(registry.findByThread('t1')?.sessionId, 'old');
+    assert.equal(registry.get('new')?.threadId, undefined);
+  });
+});
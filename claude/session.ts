@@ -0,0 +1,61 @@
+import type { ClaudeMessage, CanUseTool } from "./types.ts";
+
+// Discordスレッドに紐づくClaude Codeセッション
+export interface ClaudeThreadSession {
+  threadId: string;
+  sessionId?: string;
+  // このスレッドで指定されたモデル（未指定ならデフォルトのモデル）
+  model?: string;
+  controller: AbortController | null;
+  sendClaudeMessages: (messages: ClaudeMessage[]) => Promise<void>;
+  canUseTool: CanUseTool;
+}
+
+// スレッドIDごとにClaude Codeセッションを管理
+export class ClaudeSessionManager {
+  private sessions = new Map<string, ClaudeThreadSession>();
+
+  get(threadId: string): ClaudeThreadSession | undefined {
+    return this.sessions.get(threadId);
+  }
+
+  add(session: ClaudeThreadSession): void {
+    this.sessions.set(session.threadId, session);
+  }
+
+  remove(threadId: string): void {
+    this.cancel(threadId);
+    this.sessions.delete(threadId);
+  }
+
+  getAll(): ClaudeThreadSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  getRunning(): ClaudeThreadSession[] {
+    return this.getAll().filter(session => session.controller !== null);
+  }
+
+  // 指定スレッドの実行をキャンセル（実行中でない・既にキャンセル済みならfalse）
+  // controller は実行が終了した時点で実行側が外すため、終了処理の間は実行中のまま
+  cancel(threadId: string): boolean {
+    const session = this.sessions.get(threadId);
+    if (!session?.controller || session.controller.signal.aborted) {
+      return false;
+    }
+
+    session.controller.abort();
+    return true;
+  }
+
+  // すべての実行中セッションをキャンセルし、キャンセルした数を返す
+  cancelAll(): number {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (this.cancel(session.threadId)) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
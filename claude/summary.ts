@@ -0,0 +1,135 @@
+import type { RunStatus, RunSummary, RunRevertResult } from "./types.ts";
+import type { ComponentData, EmbedData, MessageContent } from "../discord/types.ts";
+
+// 完了カードのボタン（権限チェックもこのプレフィックスで行われる）
+export const RUN_CONTINUE_PREFIX = 'run-continue';
+export const RUN_DIFF_PREFIX = 'run-diff';
+export const RUN_REVERT_PREFIX = 'run-revert';
+export const RUN_SESSION_PREFIX = 'run-session';
+
+// 「続ける」ボタンで送信するプロンプト（/continueのデフォルトと同じ）
+export const CONTINUE_PROMPT = '続きをお願いします。';
+
+// 変更されたファイルとして記録するツールと、そのパスの入力
+const FILE_EDIT_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path'
+};
+
+const STATUS_DISPLAY: Record<RunStatus, { color: number; title: string }> = {
+  success: { color: 0x00ff00, title: '✅ Claude Code 完了' },
+  cancelled: { color: 0x808080, title: '⏹️ Claude Code キャンセル' },
+  error: { color: 0xff0000, title: '❌ Claude Code エラー' }
+};
+
+// カードに一覧表示するファイル数の上限
+const MAX_LISTED_FILES = 15;
+
+// ツール呼び出しで変更されるファイルのパス（対象外のツールはnull）
+// deno-lint-ignore no-explicit-any
+export function getEditedFilePath(toolName: string, input: Record<string, any> | undefined): string | null {
+  const key = FILE_EDIT_TOOLS[toolName];
+  const path = key ? input?.[key] : undefined;
+  return typeof path === 'string' && path ? path : null;
+}
+
+function formatElapsed(durationMs: number): string {
+  const seconds = durationMs / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}秒`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}分${Math.round(seconds % 60)}秒`;
+}
+
+// 作業ディレクトリ内のファイルは相対パスで表示
+export function displayPath(workDir: string, path: string): string {
+  return path.startsWith(`${workDir}/`) ? path.substring(workDir.length + 1) : path;
+}
+
+function formatFiles(workDir: string, files: string[]): string {
+  if (files.length === 0) return 'なし';
+  const listed = files.slice(0, MAX_LISTED_FILES).map(file => `\`${displayPath(workDir, file)}\``);
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`他 ${files.length - MAX_LISTED_FILES} 件`);
+  }
+  return listed.join('\n').substring(0, 1024);
+}
+
+export function runSummaryEmbed(workDir: string, summary: RunSummary, prompt?: string): EmbedData {
+  const display = STATUS_DISPLAY[summary.status];
+  return {
+    color: display.color,
+    title: display.title,
+    description: summary.error ? summary.error.substring(0, 4000) : undefined,
+    fields: [
+      ...(prompt ? [{ name: 'プロンプト', value: `\`${prompt.substring(0, 1020)}\``, inline: false }] : []),
+      { name: '実行時間', value: formatElapsed(summary.durationMs), inline: true },
+      { name: 'コスト', value: summary.cost !== undefined ? `$${summary.cost.toFixed(4)}` : '不明', inline: true },
+      { name: 'モデル', value: summary.model ?? '不明', inline: true },
+      { name: 'ツール呼び出し', value: `${summary.toolCalls}回`, inline: true },
+      { name: `変更したファイル（${summary.filesTouched.length}件）`, value: formatFiles(workDir, summary.filesTouched), inline: false },
+      { name: 'セッションID', value: summary.sessionId ? `\`${summary.sessionId}\`` : 'なし', inline: false }
+    ],
+    timestamp: true
+  };
+}
+
+// 完了カードのボタンのカスタムID（実行ごとに一意）
+export interface RunCardButtonIds {
+  continue: string;
+  diff: string;
+  revert: string;
+  session: string;
+}
+
+export function createRunCardButtonIds(runId: string): RunCardButtonIds {
+  return {
+    continue: `${RUN_CONTINUE_PREFIX}:${runId}`,
+    diff: `${RUN_DIFF_PREFIX}:${runId}`,
+    revert: `${RUN_REVERT_PREFIX}:${runId}`,
+    session: `${RUN_SESSION_PREFIX}:${runId}`
+  };
+}
+
+// 使えないボタン（変更がない・元に戻し済み・セッションがない）は表示しない
+export function runSummaryCard(
+  workDir: string,
+  summary: RunSummary,
+  ids: RunCardButtonIds,
+  options: { prompt?: string; showChanges: boolean }
+): MessageContent {
+  const buttons: ComponentData[] = [];
+  if (summary.sessionId) {
+    buttons.push({ type: 'button', customId: ids.continue, label: '続ける', style: 'primary' });
+  }
+  if (options.showChanges && summary.filesTouched.length > 0) {
+    buttons.push({ type: 'button', customId: ids.diff, label: 'diffを表示', style: 'secondary' });
+    buttons.push({ type: 'button', customId: ids.revert, label: '変更を元に戻す', style: 'danger' });
+  }
+  if (summary.sessionId) {
+    buttons.push({ type: 'button', customId: ids.session, label: 'セッションIDをコピー', style: 'secondary' });
+  }
+  return {
+    embeds: [runSummaryEmbed(workDir, summary, options.prompt)],
+    components: buttons.length > 0 ? [{ type: 'actionRow', components: buttons }] : []
+  };
+}
+
+export function revertResultEmbed(workDir: string, result: RunRevertResult): EmbedData {
+  const fields = [];
+  if (result.reverted.length > 0) {
+    fields.push({ name: `元に戻したファイル（${result.reverted.length}件）`, value: formatFiles(workDir, result.reverted), inline: false });
+  }
+  if (result.skipped.length > 0) {
+    const lines = result.skipped.map(({ path, reason }) => `\`${displayPath(workDir, path)}\`: ${reason}`);
+    fields.push({ name: `元に戻せなかったファイル（${result.skipped.length}件）`, value: lines.join('\n').substring(0, 1024), inline: false });
+  }
+  return {
+    color: result.skipped.length > 0 || result.warning ? 0xff9900 : 0x00ff00,
+    title: result.reverted.length > 0 ? '↩️ 変更を元に戻しました' : '↩️ 元に戻せる変更はありませんでした',
+    description: result.warning,
+    fields,
+    timestamp: true
+  };
+}
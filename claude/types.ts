@@ -4,11 +4,16 @@ export interface ClaudeResponse {
   cost?: number;
   duration?: number;
   modelUsed?: string;
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 export interface ClaudeMessage {
-  type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'system' | 'other';
+  // result: 実行の最後のメッセージ（contentは最終的な回答）
+  type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'system' | 'result' | 'other';
   content: string;
+  // アシスタントのメッセージID（1つのメッセージが内容のブロックごとに分かれて届く）
+  messageId?: string;
   // deno-lint-ignore no-explicit-any
   metadata?: any;
 }
@@ -18,4 +23,142 @@ export interface TodoItem {
   content: string;
   status: 'pending' | 'in_progress' | 'completed';
   priority: 'high' | 'medium' | 'low';
-}
\ No newline at end of file
+}
+
+// Claude Codeのツール実行許可モード
+// - bypassPermissions: すべてのツールを確認なしで実行
+// - acceptEdits: ファイル編集は自動承認、それ以外はDiscordで確認
+// - default: すべてのツール実行をDiscordで確認
+export type PermissionMode = 'bypassPermissions' | 'acceptEdits' | 'default';
+
+// canUseToolコールバックの戻り値（Claude Code SDKの形式）
+export type ToolPermissionResult =
+  // deno-lint-ignore no-explicit-any
+  | { behavior: 'allow'; updatedInput: Record<string, any> }
+  | { behavior: 'deny'; message: string };
+
+export type CanUseTool = (
+  toolName: string,
+  // deno-lint-ignore no-explicit-any
+  input: Record<string, any>,
+  options: { signal: AbortSignal }
+) => Promise<ToolPermissionResult>;
+
+// sendToClaudeCodeの追加オプション
+export interface ClaudeRunOptions {
+  permissionMode?: PermissionMode;
+  canUseTool?: CanUseTool;
+  // 使用するモデル（省略時はClaude Codeのデフォルト）
+  model?: string;
+  // レート制限時に順に試すモデル
+  fallbackModels?: string[];
+  // プロンプトと一緒に渡す画像
+  images?: ClaudeImage[];
+}
+
+// Claudeに画像コンテンツとして渡す画像（dataはBase64）
+export interface ClaudeImage {
+  mediaType: string;
+  data: string;
+}
+
+// Claude Code実行エラーの種類
+export type ClaudeErrorKind = 'rate_limit' | 'auth' | 'crash';
+
+// Claude Codeのメッセージの表示レベル
+// answer: 最終的な回答のみ、tools: 回答と使用したツール名、full: diff・ツール結果・思考などすべて
+export type Verbosity = 'answer' | 'tools' | 'full';
+
+// スレッドに表示するメッセージの絞り込み
+export interface MessageFilter {
+  verbosity: Verbosity;
+  // fullのときに表示する内容
+  showThinking: boolean;
+  showToolResults: boolean;
+  showOtherContent: boolean;
+}
+
+// メンションで通知するClaude Codeのイベント
+export type ClaudeNotificationEvent = 'complete' | 'error' | 'approval' | 'budget';
+
+export interface ClaudeNotification {
+  event: ClaudeNotificationEvent;
+  threadId: string;
+  message: string;
+  // 実行にかかった時間（完了・失敗のみ）
+  durationMs?: number;
+}
+
+// 永続化されるClaude Codeセッションの記録
+export interface SessionRecord {
+  sessionId: string;
+  // ユーザーが付けた名前（/sessions rename）
+  name?: string;
+  firstPrompt: string;
+  createdAt: string;
+  updatedAt: string;
+  totalCost: number;
+  model?: string;
+  branch: string;
+  // セッションに紐づくDiscordスレッド
+  threadId?: string;
+}
+
+// 1回のClaude Code実行の利用量
+export interface UsageEntry {
+  timestamp: string;
+  userId?: string;
+  sessionId?: string;
+  threadId?: string;
+  model?: string;
+  cost: number;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals {
+  runs: number;
+  cost: number;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// 予算の上限（USD、nullは無制限）
+export interface UsageBudgets {
+  dailyUsd: number | null;
+  sessionUsd: number | null;
+}
+
+export interface RunRevertResult {
+  reverted: string[];
+  skipped: Array<{ path: string; reason: string }>;
+  warning?: string;
+}
+
+// 実行前の作業ツリーのスナップショット（実行による変更の確認・取り消しに使う）
+export interface RunCheckpoint {
+  // 実行後の状態を記録
+  finish(): Promise<void>;
+  // 実行前から変更されたファイル（絶対パス）
+  changedFiles(): Promise<Array<{ path: string }>>;
+  diff(files?: string[]): Promise<string>;
+  revert(files?: string[]): Promise<RunRevertResult>;
+}
+
+export type RunStatus = 'success' | 'cancelled' | 'error';
+
+// 1回のClaude Code実行の結果（完了時のカードに表示）
+export interface RunSummary {
+  status: RunStatus;
+  threadId: string;
+  sessionId?: string;
+  model?: string;
+  durationMs: number;
+  cost?: number;
+  toolCalls: number;
+  // 実行で変更されたファイル（絶対パス、gitで追跡できない場合はEdit・Write等の対象）
+  filesTouched: string[];
+  error?: string;
+}
@@ -0,0 +1,181 @@
+import { dirname } from "node:path";
+import { BOT_DATA_DIR, ensureBotDataDir } from "./registry.ts";
+import type { UsageEntry, UsageTotals, UsageBudgets } from "./types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyTotals(): UsageTotals {
+  return { runs: 0, cost: 0, durationMs: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): UsageTotals {
+  totals.runs++;
+  totals.cost += entry.cost;
+  totals.durationMs += entry.durationMs;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  return totals;
+}
+
+// ローカル時間の今日0時
+export function startOfToday(now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+export function startOfWeek(now = new Date()): Date {
+  return new Date(now.getTime() - 7 * DAY_MS);
+}
+
+// モデルごとの100万トークンあたりの料金（USD、上から順に一致したものを使う）
+const MODEL_PRICES: Array<{ pattern: RegExp; input: number; output: number }> = [
+  { pattern: /opus-4-[5-9]|opus-[5-9]/, input: 5, output: 25 },
+  { pattern: /opus/, input: 15, output: 75 },
+  { pattern: /haiku-4|haiku-[5-9]/, input: 1, output: 5 },
+  { pattern: /haiku/, input: 0.8, output: 4 },
+  { pattern: /sonnet/, input: 3, output: 15 }
+];
+
+// 不明なモデルはSonnetの料金で見積もる
+const DEFAULT_MODEL_PRICE = { input: 3, output: 15 };
+
+// キャッシュの書き込み・読み込みの入力料金に対する倍率
+const CACHE_WRITE_RATE = 1.25;
+const CACHE_READ_RATE = 0.1;
+
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+// ストリーム中のメッセージのトークン数からコストを見積もる（確定したコストは実行完了時にのみ得られる）
+export function estimateCost(model: string | undefined, usage: TokenUsage): number {
+  const price = MODEL_PRICES.find(p => model && p.pattern.test(model)) ?? DEFAULT_MODEL_PRICE;
+  const input = (usage.input_tokens ?? 0)
+    + (usage.cache_creation_input_tokens ?? 0) * CACHE_WRITE_RATE
+    + (usage.cache_read_input_tokens ?? 0) * CACHE_READ_RATE;
+  return (input * price.input + (usage.output_tokens ?? 0) * price.output) / 1_000_000;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  message?: string;
+}
+
+// Claude Codeの利用量をJSON Lines形式で記録
+export class UsageLedger {
+  private entries: UsageEntry[] = [];
+  private filePath: string;
+  // 書き込みを直列化するためのチェーン
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  static forWorkDir(workDir: string): UsageLedger {
+    return new UsageLedger(`${workDir}/${BOT_DATA_DIR}/usage.jsonl`);
+  }
+
+  async load(): Promise<void> {
+    try {
+      const text = await Deno.readTextFile(this.filePath);
+      this.entries = [];
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.entries.push(JSON.parse(line));
+        } catch {
+          // 壊れた行は無視
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.error(`利用量の読み込みに失敗しました (${this.filePath}):`, error);
+      }
+      this.entries = [];
+    }
+  }
+
+  record(entry: UsageEntry): Promise<void> {
+    this.entries.push(entry);
+    const line = JSON.stringify(entry) + '\n';
+    this.writeChain = this.writeChain.then(async () => {
+      await ensureBotDataDir(dirname(this.filePath));
+      await Deno.writeTextFile(this.filePath, line, { append: true });
+    }).catch((error) => {
+      console.error(`利用量の保存に失敗しました (${this.filePath}):`, error);
+    });
+    return this.writeChain;
+  }
+
+  private since(from: Date): UsageEntry[] {
+    const fromIso = from.toISOString();
+    return this.entries.filter(e => e.timestamp >= fromIso);
+  }
+
+  getTotals(from: Date, filter?: (entry: UsageEntry) => boolean): UsageTotals {
+    return this.since(from)
+      .filter(e => !filter || filter(e))
+      .reduce(addToTotals, emptyTotals());
+  }
+
+  getDailyTotals(now = new Date()): UsageTotals {
+    return this.getTotals(startOfToday(now));
+  }
+
+  getWeeklyTotals(now = new Date()): UsageTotals {
+    return this.getTotals(startOfWeek(now));
+  }
+
+  getSessionTotals(sessionId: string): UsageTotals {
+    return this.entries
+      .filter(e => e.sessionId === sessionId)
+      .reduce(addToTotals, emptyTotals());
+  }
+
+  // キーごとの合計（コストの高い順）
+  private groupTotals(from: Date, key: (entry: UsageEntry) => string | undefined): Array<[string, UsageTotals]> {
+    const groups = new Map<string, UsageTotals>();
+    for (const entry of this.since(from)) {
+      const k = key(entry);
+      if (!k) continue;
+      groups.set(k, addToTotals(groups.get(k) ?? emptyTotals(), entry));
+    }
+    return Array.from(groups.entries()).sort((a, b) => b[1].cost - a[1].cost);
+  }
+
+  getTotalsByUser(from: Date): Array<[string, UsageTotals]> {
+    return this.groupTotals(from, e => e.userId);
+  }
+
+  getTotalsBySession(from: Date): Array<[string, UsageTotals]> {
+    return this.groupTotals(from, e => e.sessionId);
+  }
+
+  // 予算チェック（sessionCostはセッションの累計コスト、pendingCostは実行中でまだ記録していないコスト）
+  checkBudget(budgets: UsageBudgets, sessionCost?: number, pendingCost = 0): BudgetCheckResult {
+    if (budgets.dailyUsd !== null) {
+      const daily = this.getDailyTotals().cost + pendingCost;
+      if (daily >= budgets.dailyUsd) {
+        return {
+          allowed: false,
+          message: `💸 本日の利用額 $${daily.toFixed(4)} が日次予算 $${budgets.dailyUsd.toFixed(2)} に達しています。`
+        };
+      }
+    }
+
+    if (pendingCost > 0) {
+      sessionCost = (sessionCost ?? 0) + pendingCost;
+    }
+    if (budgets.sessionUsd !== null && sessionCost !== undefined && sessionCost >= budgets.sessionUsd) {
+      return {
+        allowed: false,
+        message: `💸 このセッションの利用額 $${sessionCost.toFixed(4)} がセッション予算 $${budgets.sessionUsd.toFixed(2)} に達しています。新しいセッションを開始してください。`
+      };
+    }
+
+    return { allowed: true };
+  }
+}
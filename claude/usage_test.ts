@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { UsageLedger, estimateCost, startOfToday } from "./usage.ts";
+import type { UsageEntry } from "./types.ts";
+
+function entry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    cost: 1,
+    durationMs: 1000,
+    inputTokens: 100,
+    outputTokens: 10,
+    ...overrides
+  };
+}
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: 'usage-test-' });
+  try {
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("利用量をファイルに記録し、読み込み直せる", async () => {
+  await withTempDir(async (dir) => {
+    const ledger = UsageLedger.forWorkDir(dir);
+    await ledger.record(entry({ userId: 'u1', sessionId: 's1', cost: 0.5 }));
+    await ledger.record(entry({ userId: 'u2', sessionId: 's1', cost: 1.5 }));
+
+    // データディレクトリはリポジトリにコミットされないよう .gitignore も作成される
+    assert.equal(await Deno.readTextFile(`${dir}/.claude-discord/.gitignore`), '*\n');
+
+    const loaded = UsageLedger.forWorkDir(dir);
+    await loaded.load();
+    assert.equal(loaded.getDailyTotals().runs, 2);
+    assert.equal(loaded.getSessionTotals('s1').cost, 2);
+    assert.deepEqual(loaded.getTotalsByUser(startOfToday()).map(([userId]) => userId), ['u2', 'u1']);
+  });
+});
+
+Deno.test("壊れた行は読み飛ばす", async () => {
+  await withTempDir(async (dir) => {
+    const path = `${dir}/usage.jsonl`;
+    await Deno.writeTextFile(path, `${JSON.stringify(entry())}\n{broken\n\n${JSON.stringify(entry())}\n`);
+    const ledger = new UsageLedger(path);
+    await ledger.load();
+    assert.equal(ledger.getDailyTotals().runs, 2);
+  });
+});
+
+Deno.test("日次の合計には今日の記録のみ含まれる", async () => {
+  await withTempDir(async (dir) => {
+    const ledger = new UsageLedger(`${dir}/usage.jsonl`);
+    const yesterday = new Date(startOfToday().getTime() - 60 * 60 * 1000);
+    await ledger.record(entry({ timestamp: yesterday.toISOString(), cost: 5 }));
+    await ledger.record(entry({ cost: 2 }));
+    assert.equal(ledger.getDailyTotals().cost, 2);
+    assert.equal(ledger.getWeeklyTotals().cost, 7);
+  });
+});
+
+Deno.test("日次予算・セッション予算を超えたら実行できない", async () => {
+  await withTempDir(async (dir) => {
+    const ledger = new UsageLedger(`${dir}/usage.jsonl`);
+    await ledger.record(entry({ cost: 3 }));
+
+    assert.equal(ledger.checkBudget({ dailyUsd: null, sessionUsd: null }).allowed, true);
+    assert.equal(ledger.checkBudget({ dailyUsd: 5, sessionUsd: null }).allowed, true);
+    assert.equal(ledger.checkBudget({ dailyUsd: 3, sessionUsd: null }).allowed, false);
+    assert.equal(ledger.checkBudget({ dailyUsd: null, sessionUsd: 1 }, 0.5).allowed, true);
+    assert.equal(ledger.checkBudget({ dailyUsd: null, sessionUsd: 1 }, 1).allowed, false);
+    // セッションの累計が不明な場合はセッション予算を確認しない
+    assert.equal(ledger.checkBudget({ dailyUsd: null, sessionUsd: 1 }).allowed, true);
+  });
+});
+
+Deno.test("実行中の見積もりのコストも予算に含める", async () => {
+  await withTempDir(async (dir) => {
+    const ledger = new UsageLedger(`${dir}/usage.jsonl`);
+    await ledger.record(entry({ cost: 3 }));
+
+    assert.equal(ledger.checkBudget({ dailyUsd: 5, sessionUsd: null }, undefined, 1).allowed, true);
+    assert.equal(ledger.checkBudget({ dailyUsd: 5, sessionUsd: null }, undefined, 2).allowed, false);
+    // 新しいセッションでも実行中のコストでセッション予算を確認する
+    assert.equal(ledger.checkBudget({ dailyUsd: null, sessionUsd: 1 }, undefined, 1).allowed, false);
+    assert.equal(ledger.checkBudget({ dailyUsd: null, sessionUsd: 1 }, 0.5, 0.4).allowed, true);
+  });
+});
+
+Deno.test("トークン数からモデルの料金でコストを見積もる", () => {
+  const usage = { input_tokens: 1_000_000, output_tokens: 1_000_000 };
+  assert.equal(estimateCost('claude-sonnet-4-5-20250929', usage), 18);
+  assert.equal(estimateCost('claude-opus-4-1-20250805', usage), 90);
+  assert.equal(estimateCost('claude-opus-4-5-20251101', usage), 30);
+  assert.equal(estimateCost('claude-haiku-4-5-20251001', usage), 6);
+  assert.equal(estimateCost(undefined, usage), 18);
+  // キャッシュの書き込みは入力の1.25倍、読み込みは0.1倍
+  assert.equal(estimateCost('claude-sonnet-4-5', { cache_creation_input_tokens: 1_000_000, cache_read_input_tokens: 1_000_000 }), 4.05);
+});
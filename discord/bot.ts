@@ -10,18 +10,35 @@ import {
   Routes,
   CommandInteraction,
   ButtonInteraction,
+  AutocompleteInteraction,
+  ModalSubmitInteraction,
+  ComponentType,
+  TextInputStyle,
   TextChannel,
-  EmbedBuilder
+  EmbedBuilder,
+  AttachmentBuilder,
+  Message,
+  Attachment
 } from "npm:discord.js@14.14.1";
+import { Buffer } from "node:buffer";
 
 import { sanitizeChannelName } from "./utils.ts";
+import { checkPermission, getRequiredTier, getRequiredButtonTier } from "./permissions.ts";
+import { getChannelRoutes } from "./routing.ts";
 import type { 
   BotConfig, 
   CommandHandlers, 
   ButtonHandlers,
   MessageContent, 
   InteractionContext,
-  BotDependencies
+  AutocompleteContext,
+  BotDependencies,
+  SentMessageHandle,
+  IncomingAttachment,
+  ChannelRoute,
+  ChatPrompt,
+  ModalData,
+  ModalSubmission
 } from "./types.ts";
 
 
@@ -30,7 +47,7 @@ import type {
 // ================================
 
 // deno-lint-ignore no-explicit-any
-function convertMessageContent(content: MessageContent): any {
+export function convertMessageContent(content: MessageContent): any {
   // deno-lint-ignore no-explicit-any
   const payload: any = {};
   
@@ -71,9 +88,30 @@ function convertMessageContent(content: MessageContent): any {
     });
   }
   
+  if (content.files) {
+    payload.files = content.files.map(file => new AttachmentBuilder(
+      Buffer.from(typeof file.data === 'string' ? new TextEncoder().encode(file.data) : file.data),
+      { name: file.name }
+    ));
+  }
+  
   return payload;
 }
 
+// Role IDs of the member who triggered the interaction (works for cached and API members)
+function getMemberRoleIds(interaction: CommandInteraction | ButtonInteraction | AutocompleteInteraction | Message): string[] {
+  // deno-lint-ignore no-explicit-any
+  const member = interaction.member as any;
+  if (!member?.roles) return [];
+  if (Array.isArray(member.roles)) return member.roles;
+  if (member.roles.cache) return Array.from(member.roles.cache.keys());
+  return [];
+}
+
+function formatPermissionDenied(requiredTier: string, userTier: string | null): string {
+  return `🚫 この操作を実行する権限がありません。（必要な権限: \`${requiredTier}\` / あなたの権限: \`${userTier ?? 'なし'}\`）`;
+}
+
 // ================================
 // Main Bot Creation Function
 // ================================
@@ -84,20 +122,18 @@ export async function createDiscordBot(
   buttonHandlers: ButtonHandlers,
   dependencies: BotDependencies
 ) {
-  const { discordToken, applicationId, workDir, repoName, branchName, categoryName } = config;
-  const actualCategoryName = categoryName || repoName;
+  const { discordToken, applicationId } = config;
+  const routes = getChannelRoutes(config);
   
-  let myChannel: TextChannel | null = null;
-  // deno-lint-ignore no-explicit-any no-unused-vars
-  let myCategory: any = null;
-  
-  const botSettings = dependencies.botSettings || {
-    mentionEnabled: !!config.defaultMentionUserId,
-    mentionUserId: config.defaultMentionUserId || null,
-  };
+  // Route ID -> channel, filled in once the bot is ready
+  const routeChannels = new Map<string, TextChannel>();
   
   const client = new Client({
-    intents: [GatewayIntentBits.Guilds],
+    // MessageContent is privileged, so it is only requested when chat prompts are enabled.
+    // Without it only messages that mention the bot carry content, so thread follow-ups must mention the bot.
+    intents: config.chatPrompts
+      ? [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent]
+      : [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages],
   });
   
   // Use commands from dependencies
@@ -105,8 +141,10 @@ export async function createDiscordBot(
   
   // Channel management
   // deno-lint-ignore no-explicit-any
-  async function ensureChannelExists(guild: any): Promise<TextChannel> {
-    const channelName = sanitizeChannelName(branchName);
+  async function ensureChannelExists(guild: any, route: ChannelRoute): Promise<TextChannel> {
+    const { workDir, repoName, branchName } = route;
+    const actualCategoryName = route.categoryName || repoName;
+    const channelName = route.channelName ? sanitizeChannelName(route.channelName) : sanitizeChannelName(branchName);
     
     console.log(`カテゴリー「${actualCategoryName}」を確認中...`);
     
@@ -129,8 +167,6 @@ export async function createDiscordBot(
       }
     }
     
-    myCategory = category;
-    
     let channel = guild.channels.cache.find(
       // deno-lint-ignore no-explicit-any
       (c: any) => c.type === ChannelType.GuildText && c.name === channelName && c.parentId === category.id
@@ -155,8 +191,43 @@ export async function createDiscordBot(
     return channel as TextChannel;
   }
   
+  // Route of one of the bot's channels or a thread under it (null for other channels)
+  // deno-lint-ignore no-explicit-any
+  function resolveRouteId(channel: any, channelId: string | null): string | null {
+    const parentId = channel?.isThread?.() ? channel.parentId : null;
+    for (const [routeId, routeChannel] of routeChannels) {
+      if (channelId === routeChannel.id || parentId === routeChannel.id) {
+        return routeId;
+      }
+    }
+    return null;
+  }
+  
+  // Whether a channel is one of the bot's channels or a thread under it
+  // deno-lint-ignore no-explicit-any
+  function isOwnChannel(channel: any, channelId: string | null): boolean {
+    return resolveRouteId(channel, channelId) !== null;
+  }
+  
+  function toIncomingAttachment(attachment: Attachment): IncomingAttachment {
+    return {
+      name: attachment.name,
+      url: attachment.url,
+      contentType: attachment.contentType,
+      size: attachment.size
+    };
+  }
+  
+  function toSentMessageHandle(message: Message): SentMessageHandle {
+    return {
+      async edit(content: MessageContent): Promise<void> {
+        await message.edit(convertMessageContent(content));
+      }
+    };
+  }
+  
   // Create interaction context wrapper
-  function createInteractionContext(interaction: CommandInteraction | ButtonInteraction): InteractionContext {
+  function createInteractionContext(interaction: CommandInteraction | ButtonInteraction | ModalSubmitInteraction): InteractionContext {
     return {
       async deferReply(): Promise<void> {
         await interaction.deferReply();
@@ -179,8 +250,8 @@ export async function createDiscordBot(
       },
       
       async update(content: MessageContent): Promise<void> {
-        if ('update' in interaction) {
-          await (interaction as ButtonInteraction).update(convertMessageContent(content));
+        if (interaction.isButton() || (interaction.isModalSubmit() && interaction.isFromMessage())) {
+          await interaction.update(convertMessageContent(content));
         }
       },
       
@@ -198,19 +269,120 @@ export async function createDiscordBot(
           return (interaction as any).options.getInteger(name, required ?? false);
         }
         return null;
+      },
+      
+      getBoolean(name: string, required?: boolean): boolean | null {
+        if (interaction.isCommand && interaction.isCommand()) {
+          // deno-lint-ignore no-explicit-any
+          return (interaction as any).options.getBoolean(name, required ?? false);
+        }
+        return null;
+      },
+      
+      getAttachment(name: string, required?: boolean): IncomingAttachment | null {
+        if (interaction.isChatInputCommand && interaction.isChatInputCommand()) {
+          const attachment = interaction.options.getAttachment(name, required ?? false);
+          return attachment ? toIncomingAttachment(attachment) : null;
+        }
+        return null;
+      },
+      
+      getSubcommand(): string | null {
+        if (interaction.isChatInputCommand && interaction.isChatInputCommand()) {
+          return interaction.options.getSubcommand(false);
+        }
+        return null;
+      },
+      
+      getUserId(): string {
+        return interaction.user.id;
+      },
+      
+      getThreadId(): string | null {
+        return interaction.channel?.isThread() ? interaction.channelId : null;
+      },
+      
+      getRouteId(): string {
+        return resolveRouteId(interaction.channel, interaction.channelId) ?? routes[0].id;
+      },
+      
+      async startThread(name: string): Promise<string> {
+        const message = interaction.isButton() ? interaction.message : await interaction.fetchReply();
+        const thread = await message.startThread({ name: name.substring(0, 100) });
+        return thread.id;
+      },
+      
+      async showModal(modal: ModalData): Promise<ModalSubmission | null> {
+        if (interaction.isModalSubmit()) {
+          return null;
+        }
+        return await showModalAndWait(interaction, modal);
       }
     };
   }
   
+  // Modals must be submitted within this time
+  const MODAL_TIMEOUT_MS = 10 * 60 * 1000;
+  
+  async function showModalAndWait(interaction: CommandInteraction | ButtonInteraction, modal: ModalData): Promise<ModalSubmission | null> {
+    const customId = `modal:${interaction.id}`;
+    await interaction.showModal({
+      customId,
+      title: modal.title.substring(0, 45),
+      components: modal.inputs.map(input => ({
+        type: ComponentType.ActionRow,
+        components: [{
+          type: ComponentType.TextInput,
+          customId: input.customId,
+          label: input.label.substring(0, 45),
+          style: input.style === 'paragraph' ? TextInputStyle.Paragraph : TextInputStyle.Short,
+          required: input.required ?? true,
+          ...(input.maxLength && { maxLength: input.maxLength }),
+          ...(input.value && { value: input.value.substring(0, input.maxLength ?? 4000) })
+        }]
+      }))
+    });
+    
+    try {
+      const submitted = await interaction.awaitModalSubmit({
+        time: MODAL_TIMEOUT_MS,
+        filter: (submission) => submission.customId === customId && submission.user.id === interaction.user.id
+      });
+      const values: Record<string, string> = {};
+      for (const input of modal.inputs) {
+        values[input.customId] = submitted.fields.getTextInputValue(input.customId);
+      }
+      return { values, ctx: createInteractionContext(submitted) };
+    } catch {
+      // Closed without submitting
+      return null;
+    }
+  }
+  
   // Command handler - completely generic
   async function handleCommand(interaction: CommandInteraction) {
-    if (!myChannel || interaction.channelId !== myChannel.id) {
+    if (!isOwnChannel(interaction.channel, interaction.channelId)) {
       return;
     }
     
     const ctx = createInteractionContext(interaction);
     const handler = handlers.get(interaction.commandName);
     
+    const permission = checkPermission(
+      config.permissions,
+      getRequiredTier(config.permissions, interaction.commandName),
+      interaction.user.id,
+      getMemberRoleIds(interaction)
+    );
+    if (!permission.allowed) {
+      console.warn(`Permission denied: ${interaction.user.tag} (${interaction.user.id}) tried /${interaction.commandName}`);
+      await ctx.reply({
+        content: formatPermissionDenied(permission.requiredTier, permission.userTier),
+        ephemeral: true
+      });
+      return;
+    }
+    
     if (!handler) {
       await ctx.reply({
         content: `Unknown command: ${interaction.commandName}`,
@@ -243,11 +415,27 @@ export async function createDiscordBot(
   
   // Button handler - completely generic
   async function handleButton(interaction: ButtonInteraction) {
-    if (!myChannel || interaction.channelId !== myChannel.id) {
+    if (!isOwnChannel(interaction.channel, interaction.channelId)) {
       return;
     }
     
     const ctx = createInteractionContext(interaction);
+    
+    const permission = checkPermission(
+      config.permissions,
+      getRequiredButtonTier(config.permissions, interaction.customId),
+      interaction.user.id,
+      getMemberRoleIds(interaction)
+    );
+    if (!permission.allowed) {
+      console.warn(`Permission denied: ${interaction.user.tag} (${interaction.user.id}) clicked ${interaction.customId}`);
+      await ctx.reply({
+        content: formatPermissionDenied(permission.requiredTier, permission.userTier),
+        ephemeral: true
+      });
+      return;
+    }
+    
     const handler = buttonHandlers.get(interaction.customId);
     
     if (handler) {
@@ -285,6 +473,232 @@ export async function createDiscordBot(
       }
     } else {
       console.warn(`No handler found for button: ${interaction.customId}`);
+      // Buttons go stale after a restart or when a newer message replaces them
+      await ctx.reply({ content: 'このボタンは無効になりました。', ephemeral: true }).catch(() => {});
+    }
+  }
+  
+  // Autocomplete handler - suggestions are only shown to users allowed to run the command
+  async function handleAutocomplete(interaction: AutocompleteInteraction) {
+    if (!isOwnChannel(interaction.channel, interaction.channelId)) {
+      return;
+    }
+    
+    const handler = handlers.get(interaction.commandName);
+    const permission = checkPermission(
+      config.permissions,
+      getRequiredTier(config.permissions, interaction.commandName),
+      interaction.user.id,
+      getMemberRoleIds(interaction)
+    );
+    
+    if (!handler?.autocomplete || !permission.allowed) {
+      await interaction.respond([]);
+      return;
+    }
+    
+    const ctx: AutocompleteContext = {
+      getSubcommand: () => interaction.options.getSubcommand(false),
+      getRouteId: () => resolveRouteId(interaction.channel, interaction.channelId) ?? routes[0].id,
+      getFocused: () => {
+        const focused = interaction.options.getFocused(true);
+        return { name: focused.name, value: String(focused.value) };
+      },
+      respond: async (choices) => {
+        // Discord accepts at most 25 choices of up to 100 characters
+        await interaction.respond(choices.slice(0, 25).map(c => ({
+          name: c.name.substring(0, 100),
+          value: c.value.substring(0, 100)
+        })));
+      }
+    };
+    
+    try {
+      await handler.autocomplete(ctx);
+    } catch (error) {
+      console.error(`Error handling autocomplete for ${interaction.commandName}:`, error);
+    }
+  }
+  
+  // Prompt of a message addressed to the bot by a configured prefix or mention, or null
+  function matchChatPrompt(message: Message): Omit<ChatPrompt, 'attachments'> | null {
+    const chat = config.chatPrompts;
+    if (!chat) return null;
+    const content = message.content.trim();
+    
+    // Longer prefixes first so that e.g. "!continue" wins over "!"
+    const prefixes = [
+      { prefix: chat.continuePrefix, mode: 'continue' as const },
+      { prefix: chat.prefix, mode: 'claude' as const }
+    ].filter(p => p.prefix).sort((a, b) => b.prefix!.length - a.prefix!.length);
+    for (const { prefix, mode } of prefixes) {
+      if (content === prefix || content.startsWith(`${prefix} `) || content.startsWith(`${prefix}\n`)) {
+        return { mode, prompt: content.substring(prefix!.length).trim() };
+      }
+    }
+    
+    const botId = client.user?.id;
+    if (chat.mention && botId && message.mentions.users.has(botId)) {
+      return { mode: 'claude', prompt: content.replace(new RegExp(`<@!?${botId}>`, 'g'), '').trim() };
+    }
+    return null;
+  }
+  
+  // Context that lets chat prompts reuse the slash command handlers by replying to the message
+  function createMessageContext(message: Message, routeId: string): InteractionContext {
+    let replyMessage: Message | null = null;
+    return {
+      async deferReply() {
+        if ('sendTyping' in message.channel) {
+          await message.channel.sendTyping();
+        }
+      },
+      async editReply(content: MessageContent) {
+        if (replyMessage) {
+          await replyMessage.edit(convertMessageContent(content));
+        } else {
+          replyMessage = await message.reply(convertMessageContent(content));
+        }
+      },
+      async followUp(content: MessageContent) {
+        await message.reply(convertMessageContent(content));
+      },
+      async reply(content: MessageContent) {
+        replyMessage = await message.reply(convertMessageContent(content));
+      },
+      async update() {
+        // Messages have no component to update
+      },
+      getString: () => null,
+      getInteger: () => null,
+      getBoolean: () => null,
+      getAttachment: () => null,
+      getSubcommand: () => null,
+      getUserId: () => message.author.id,
+      getThreadId: () => message.channel.isThread() ? message.channelId : null,
+      getRouteId: () => routeId,
+      async startThread(name: string): Promise<string> {
+        const thread = await message.startThread({ name: name.substring(0, 100) });
+        return thread.id;
+      },
+      // Plain messages can't open modals
+      showModal: () => Promise.resolve(null)
+    };
+  }
+  
+  // Message handler - chat prompts and session thread follow-ups are delegated to the injected callbacks
+  async function handleMessage(message: Message) {
+    if (message.author.bot) {
+      return;
+    }
+    const routeId = resolveRouteId(message.channel, message.channelId);
+    if (!routeId) {
+      return;
+    }
+    
+    const chatPrompt = dependencies.onChatPrompt ? matchChatPrompt(message) : null;
+    if (chatPrompt) {
+      await handleChatPrompt(message, routeId, chatPrompt);
+      return;
+    }
+    
+    // Without a trigger only follow-ups in session threads are prompts
+    if (!message.channel.isThread() || !dependencies.onThreadMessage) {
+      return;
+    }
+    // Threads that are not Claude sessions are left alone, so users there never see permission denials
+    if (dependencies.isSessionThread && !dependencies.isSessionThread(message.channelId, routeId)) {
+      return;
+    }
+    // Without the MessageContent intent other messages arrive empty, so follow-ups are mention-only
+    const botId = client.user?.id;
+    const mentioned = !!botId && message.mentions.users.has(botId);
+    if (!config.chatPrompts && !mentioned) {
+      return;
+    }
+    
+    // Follow-up messages continue a Claude session, so they need the same access as /claude
+    const permission = checkPermission(
+      config.permissions,
+      getRequiredTier(config.permissions, 'claude'),
+      message.author.id,
+      getMemberRoleIds(message)
+    );
+    if (!permission.allowed) {
+      console.warn(`Permission denied: ${message.author.tag} (${message.author.id}) posted in thread ${message.channelId}`);
+      await message.reply({ content: formatPermissionDenied(permission.requiredTier, permission.userTier) });
+      return;
+    }
+    
+    // The mention only addresses the bot and is not part of the prompt
+    const content = mentioned ? message.content.replace(new RegExp(`<@!?${botId}>`, 'g'), '').trim() : message.content;
+    if (mentioned && !content && message.attachments.size === 0) {
+      await message.reply({ content: '💬 メンションに続けてプロンプトを入力してください。' });
+      return;
+    }
+    
+    try {
+      await dependencies.onThreadMessage({
+        content,
+        channelId: message.channelId,
+        routeId,
+        userId: message.author.id,
+        attachments: message.attachments.map(toIncomingAttachment),
+        async reply(content: MessageContent): Promise<void> {
+          await message.reply(convertMessageContent(content));
+        }
+      });
+    } catch (error) {
+      console.error(`Error handling thread message ${message.id}:`, error);
+      try {
+        await message.reply({
+          content: `Error handling message: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+      } catch {
+        // Ignore errors when sending error message
+      }
+    }
+  }
+  
+  async function handleChatPrompt(message: Message, routeId: string, chatPrompt: Omit<ChatPrompt, 'attachments'>) {
+    // Chat prompts need the same access as the slash command they stand for
+    const permission = checkPermission(
+      config.permissions,
+      getRequiredTier(config.permissions, chatPrompt.mode),
+      message.author.id,
+      getMemberRoleIds(message)
+    );
+    if (!permission.allowed) {
+      console.warn(`Permission denied: ${message.author.tag} (${message.author.id}) sent a ${chatPrompt.mode} prompt`);
+      await message.reply({ content: formatPermissionDenied(permission.requiredTier, permission.userTier) });
+      return;
+    }
+    
+    const attachments = message.attachments.map(toIncomingAttachment);
+    if (chatPrompt.mode === 'claude' && !chatPrompt.prompt && attachments.length === 0) {
+      await message.reply({ content: '💬 プロンプトを続けて入力してください。' });
+      return;
+    }
+    
+    try {
+      await dependencies.onChatPrompt!(createMessageContext(message, routeId), { ...chatPrompt, attachments });
+    } catch (error) {
+      console.error(`Error handling chat prompt ${message.id}:`, error);
+      try {
+        await message.reply({
+          content: `Error handling message: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+      } catch {
+        // Ignore errors when sending error message
+      }
+    }
+  }
+  
+  async function notifyThreadClosed(threadId: string, routeId: string) {
+    try {
+      await dependencies.onThreadClosed?.(threadId, routeId);
+    } catch (error) {
+      console.error(`Error handling closed thread ${threadId}:`, error);
     }
   }
   
@@ -304,70 +718,145 @@ export async function createDiscordBot(
   }
   
   // Event handlers
-  client.once(Events.ClientReady, async () => {
-    console.log(`ボットがログインしました: ${client.user?.tag}`);
-    console.log(`カテゴリー: ${actualCategoryName}`);
-    console.log(`ブランチ: ${branchName}`);
-    console.log(`作業ディレクトリ: ${workDir}`);
+  // Server to create channels in: the configured one, or the only server the bot has joined
+  // deno-lint-ignore no-explicit-any
+  async function resolveGuild(): Promise<any | null> {
+    if (config.guildId) {
+      try {
+        return await client.guilds.fetch(config.guildId);
+      } catch {
+        console.error(`エラー: サーバー ${config.guildId} が見つかりません。ボットが参加しているか確認してください`);
+        return null;
+      }
+    }
     
     const guilds = client.guilds.cache;
     if (guilds.size === 0) {
       console.error('エラー: ボットが参加しているサーバーがありません');
-      return;
+      return null;
     }
-    
-    const guild = guilds.first();
-    if (!guild) {
-      console.error('エラー: ギルドが見つかりません');
-      return;
+    if (guilds.size > 1) {
+      const list = guilds.map(g => `${g.name} (${g.id})`).join(', ');
+      console.error(`エラー: ボットが複数のサーバーに参加しています。GUILD_ID で使用するサーバーを指定してください: ${list}`);
+      return null;
+    }
+    return guilds.first() ?? null;
+  }
+  
+  // Use the route's explicit channel, or find/create one by name in the server
+  // deno-lint-ignore no-explicit-any
+  async function resolveRouteChannel(route: ChannelRoute, getGuild: () => Promise<any | null>): Promise<TextChannel | null> {
+    if (route.channelId) {
+      const channel = await client.channels.fetch(route.channelId).catch(() => null);
+      if (!channel || channel.type !== ChannelType.GuildText) {
+        throw new Error(`チャンネル ${route.channelId} が見つからないか、テキストチャンネルではありません`);
+      }
+      if (config.guildId && channel.guildId !== config.guildId) {
+        throw new Error(`チャンネル ${route.channelId} は GUILD_ID で指定したサーバーのチャンネルではありません`);
+      }
+      return channel;
     }
     
-    try {
-      myChannel = await ensureChannelExists(guild);
-      console.log(`チャンネル「${myChannel.name}」を使用します`);
+    const guild = await getGuild();
+    return guild ? await ensureChannelExists(guild, route) : null;
+  }
+  
+  client.once(Events.ClientReady, async () => {
+    console.log(`ボットがログインしました: ${client.user?.tag}`);
+    
+    // Only look up the server when a route needs a channel created by name
+    // deno-lint-ignore no-explicit-any
+    let guildPromise: Promise<any | null> | null = null;
+    const getGuild = () => guildPromise ??= resolveGuild();
+    
+    for (const route of routes) {
+      const actualCategoryName = route.categoryName || route.repoName;
+      console.log(`カテゴリー: ${actualCategoryName} / ブランチ: ${route.branchName} / 作業ディレクトリ: ${route.workDir}`);
       
-      await myChannel.send(convertMessageContent({
-        embeds: [{
-          color: 0x00ff00,
-          title: '🚀 起動完了',
-          description: `ブランチ ${branchName} のClaude Codeボットが起動しました`,
-          fields: [
-            { name: 'カテゴリー', value: actualCategoryName, inline: true },
-            { name: 'リポジトリ', value: repoName, inline: true },
-            { name: 'ブランチ', value: branchName, inline: true },
-            { name: '作業ディレクトリ', value: `\`${workDir}\``, inline: false }
-          ],
-          timestamp: true
-        }]
-      }));
-    } catch (error) {
-      console.error('チャンネル作成/取得エラー:', error);
+      try {
+        const channel = await resolveRouteChannel(route, getGuild);
+        if (!channel) continue;
+        
+        const duplicate = Array.from(routeChannels.entries()).find(([, c]) => c.id === channel.id);
+        if (duplicate) {
+          console.error(`エラー: チャンネル「${channel.name}」は既に ${duplicate[0]} で使用されています`);
+          continue;
+        }
+        routeChannels.set(route.id, channel);
+        console.log(`チャンネル「${channel.name}」を使用します`);
+        
+        await channel.send(convertMessageContent({
+          embeds: [{
+            color: 0x00ff00,
+            title: '🚀 起動完了',
+            description: `ブランチ ${route.branchName} のClaude Codeボットが起動しました`,
+            fields: [
+              { name: 'カテゴリー', value: actualCategoryName, inline: true },
+              { name: 'リポジトリ', value: route.repoName, inline: true },
+              { name: 'ブランチ', value: route.branchName, inline: true },
+              { name: '作業ディレクトリ', value: `\`${route.workDir}\``, inline: false }
+            ],
+            timestamp: true
+          }]
+        }));
+      } catch (error) {
+        console.error('チャンネル作成/取得エラー:', error);
+      }
     }
   });
   
   client.on(Events.InteractionCreate, async (interaction) => {
-    if (interaction.isCommand()) {
+    if (interaction.isAutocomplete()) {
+      await handleAutocomplete(interaction);
+    } else if (interaction.isCommand()) {
       await handleCommand(interaction as CommandInteraction);
     } else if (interaction.isButton()) {
       await handleButton(interaction as ButtonInteraction);
     }
   });
   
+  client.on(Events.MessageCreate, async (message) => {
+    await handleMessage(message);
+  });
+  
+  // Archived or deleted threads end their Claude session
+  client.on(Events.ThreadUpdate, async (oldThread, newThread) => {
+    const routeId = resolveRouteId(newThread, newThread.id);
+    if (!oldThread.archived && newThread.archived && routeId) {
+      await notifyThreadClosed(newThread.id, routeId);
+    }
+  });
+  
+  client.on(Events.ThreadDelete, async (thread) => {
+    const routeId = resolveRouteId(thread, thread.id);
+    if (routeId) {
+      await notifyThreadClosed(thread.id, routeId);
+    }
+  });
+  
   // Login
   await client.login(discordToken);
   
   // Return bot control functions
   return {
     client,
-    getChannel() {
-      return myChannel;
+    // Channel of a route (the first route when omitted), null until the bot is ready
+    getChannel(routeId?: string) {
+      return routeChannels.get(routeId ?? routes[0].id) ?? null;
     },
-    updateBotSettings(settings: { mentionEnabled: boolean; mentionUserId: string | null }) {
-      botSettings.mentionEnabled = settings.mentionEnabled;
-      botSettings.mentionUserId = settings.mentionUserId;
+    getChannelId(routeId?: string): string | null {
+      return routeChannels.get(routeId ?? routes[0].id)?.id ?? null;
     },
-    getBotSettings() {
-      return { ...botSettings };
+    // Send a message to the first route's channel, or to one of the bot's channels/threads when channelId is given
+    async sendMessage(content: MessageContent, channelId?: string): Promise<SentMessageHandle | null> {
+      const defaultChannel = routeChannels.get(routes[0].id);
+      if (!channelId && !defaultChannel) return null;
+      const channel = channelId ? await client.channels.fetch(channelId) : defaultChannel;
+      if (!channel || !isOwnChannel(channel, channel.id) || !('send' in channel)) {
+        return null;
+      }
+      const message = await channel.send(convertMessageContent(content));
+      return toSentMessageHandle(message);
     }
   };
 }
\ No newline at end of file
@@ -1,3 +1,11 @@
 export * from "./types.ts";
 export { sanitizeChannelName, splitText } from "./utils.ts";
-export { createDiscordBot } from "./bot.ts";
\ No newline at end of file
+export { createDiscordBot, convertMessageContent } from "./bot.ts";
+export { getChannelRoutes, DEFAULT_ROUTE_ID } from "./routing.ts";
+export {
+  DEFAULT_COMMAND_TIERS,
+  checkPermission,
+  getRequiredTier,
+  getRequiredButtonTier,
+  loadPermissionPolicy
+} from "./permissions.ts";
\ No newline at end of file
@@ -0,0 +1,185 @@
+import type { PermissionPolicy, PermissionTier, PermissionCheckResult } from "./types.ts";
+
+// Tier order: a user with a higher tier can run everything a lower tier can
+const TIER_LEVELS: Record<PermissionTier, number> = {
+  read: 0,
+  write: 1,
+  admin: 2,
+};
+
+// Default tier required for each command (overridable via PermissionPolicy.commandTiers)
+export const DEFAULT_COMMAND_TIERS: Record<string, PermissionTier> = {
+  'status': 'read',
+  'pwd': 'read',
+  'shell-list': 'read',
+  'worktree-list': 'read',
+  'changes': 'read',
+  'diff': 'read',
+  'log': 'read',
+  'blame': 'read',
+  'usage': 'read',
+  'claude': 'write',
+  'continue': 'write',
+  'claude-cancel': 'write',
+  'sessions': 'write',
+  'queue': 'write',
+  'undo': 'write',
+  'commit': 'write',
+  'model': 'admin',
+  'git': 'admin',
+  'pr': 'admin',
+  'worktree': 'admin',
+  'worktree-remove': 'admin',
+  'shell': 'admin',
+  'shell-input': 'admin',
+  'shell-kill': 'admin',
+  'settings': 'admin',
+  'shutdown': 'admin',
+  // Buttons (matched by custom ID prefix)
+  'tool-approve': 'write',
+  'tool-deny': 'write',
+  'tool-always': 'write',
+  'queue-cancel': 'write',
+  'run-continue': 'write',
+  'run-diff': 'read',
+  'run-revert': 'write',
+  'run-session': 'read',
+  'commit-approve': 'write',
+  'commit-edit': 'write',
+  'commit-cancel': 'write',
+  'pr-create': 'admin',
+  'pr-edit': 'admin',
+  'pr-cancel': 'admin',
+  'shell-stop': 'admin',
+  'shell-interrupt': 'admin',
+  'shell-log': 'read',
+  'shell-key': 'admin',
+  'shell-confirm': 'admin',
+  'shell-cancel': 'admin',
+  'git-confirm': 'admin',
+  'git-cancel': 'admin',
+};
+
+// Commands not listed anywhere require the highest tier
+const FALLBACK_COMMAND_TIER: PermissionTier = 'admin';
+
+// Buttons without an explicit tier only require write access
+const FALLBACK_BUTTON_TIER: PermissionTier = 'write';
+
+export function isPermissionTier(value: unknown): value is PermissionTier {
+  return typeof value === 'string' && value in TIER_LEVELS;
+}
+
+export function getRequiredTier(policy: PermissionPolicy | undefined, commandName: string): PermissionTier {
+  return policy?.commandTiers?.[commandName] ?? DEFAULT_COMMAND_TIERS[commandName] ?? FALLBACK_COMMAND_TIER;
+}
+
+// Button custom IDs are looked up by their prefix (e.g. "tool-approve:123" -> "tool-approve")
+export function getRequiredButtonTier(policy: PermissionPolicy | undefined, customId: string): PermissionTier {
+  const name = customId.split(':')[0];
+  return policy?.commandTiers?.[name] ?? DEFAULT_COMMAND_TIERS[name] ?? FALLBACK_BUTTON_TIER;
+}
+
+// Resolve the highest tier granted to a user directly or through any of their roles
+export function resolveUserTier(policy: PermissionPolicy, userId: string, roleIds: string[]): PermissionTier | null {
+  const tiers: PermissionTier[] = [];
+  
+  const userTier = policy.users[userId];
+  if (userTier) tiers.push(userTier);
+  
+  for (const roleId of roleIds) {
+    const roleTier = policy.roles[roleId];
+    if (roleTier) tiers.push(roleTier);
+  }
+  
+  if (tiers.length === 0) {
+    return null;
+  }
+  
+  return tiers.reduce((highest, tier) => TIER_LEVELS[tier] > TIER_LEVELS[highest] ? tier : highest);
+}
+
+export function checkPermission(
+  policy: PermissionPolicy | undefined,
+  requiredTier: PermissionTier,
+  userId: string,
+  roleIds: string[]
+): PermissionCheckResult {
+  // No policy configured: keep the previous behaviour and allow everyone in the channel
+  if (!policy) {
+    return { allowed: true, requiredTier, userTier: null };
+  }
+  
+  const userTier = resolveUserTier(policy, userId, roleIds);
+  const allowed = userTier !== null && TIER_LEVELS[userTier] >= TIER_LEVELS[requiredTier];
+  
+  return { allowed, requiredTier, userTier };
+}
+
+function parseIdList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Load the permission policy from a JSON file (PERMISSIONS_FILE) and/or environment variables.
+// Returns undefined when nothing is configured so that access stays unrestricted.
+export async function loadPermissionPolicy(
+  env: { get(key: string): string | undefined } = Deno.env
+): Promise<PermissionPolicy | undefined> {
+  const policy: PermissionPolicy = { users: {}, roles: {}, commandTiers: {} };
+  let configured = false;
+  
+  const filePath = env.get("PERMISSIONS_FILE");
+  if (filePath) {
+    let parsed;
+    try {
+      parsed = JSON.parse(await Deno.readTextFile(filePath));
+    } catch (error) {
+      throw new Error(`権限設定ファイルを読み込めません (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!isPlainObject(parsed)) {
+      throw new Error(`権限設定ファイルの形式が正しくありません (${filePath}): JSONオブジェクトを指定してください`);
+    }
+    
+    for (const key of ['users', 'roles', 'commandTiers'] as const) {
+      const entries = parsed[key] ?? {};
+      if (!isPlainObject(entries)) {
+        throw new Error(`権限設定ファイルの ${key} にはIDとティアのオブジェクトを指定してください`);
+      }
+      for (const [id, tier] of Object.entries(entries)) {
+        if (!isPermissionTier(tier)) {
+          throw new Error(`権限設定ファイルの ${key}.${id} に無効なティアが指定されています: ${tier}`);
+        }
+        policy[key]![id] = tier;
+      }
+    }
+    configured = true;
+  }
+  
+  // Environment variables are applied after the file so they can grant additional access
+  const envLists: Array<[string, 'users' | 'roles', PermissionTier]> = [
+    ["READONLY_USER_IDS", 'users', 'read'],
+    ["READONLY_ROLE_IDS", 'roles', 'read'],
+    ["ALLOWED_USER_IDS", 'users', 'write'],
+    ["ALLOWED_ROLE_IDS", 'roles', 'write'],
+    ["ADMIN_USER_IDS", 'users', 'admin'],
+    ["ADMIN_ROLE_IDS", 'roles', 'admin'],
+  ];
+  
+  for (const [envName, target, tier] of envLists) {
+    const ids = parseIdList(env.get(envName));
+    for (const id of ids) {
+      const current = policy[target][id];
+      if (!current || TIER_LEVELS[tier] > TIER_LEVELS[current]) {
+        policy[target][id] = tier;
+      }
+      configured = true;
+    }
+  }
+  
+  return configured ? policy : undefined;
+}
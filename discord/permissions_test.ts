@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { checkPermission, getRequiredButtonTier, getRequiredTier, isPermissionTier, loadPermissionPolicy, resolveUserTier } from "./permissions.ts";
+import type { PermissionPolicy } from "./types.ts";
+
+const POLICY: PermissionPolicy = {
+  users: { reader: 'read', writer: 'write' },
+  roles: { admins: 'admin', readers: 'read' },
+  commandTiers: { status: 'write', 'run-diff': 'admin' }
+};
+
+function envOf(values: Record<string, string>) {
+  return { get: (key: string) => values[key] };
+}
+
+Deno.test("既知のティアのみ受け付ける", () => {
+  assert.equal(isPermissionTier('read'), true);
+  assert.equal(isPermissionTier('admin'), true);
+  assert.equal(isPermissionTier('owner'), false);
+  assert.equal(isPermissionTier(1), false);
+});
+
+Deno.test("コマンドのティアは設定、既定値、admin の順に決める", () => {
+  assert.equal(getRequiredTier(POLICY, 'status'), 'write');
+  assert.equal(getRequiredTier(POLICY, 'claude'), 'write');
+  assert.equal(getRequiredTier(undefined, 'status'), 'read');
+  assert.equal(getRequiredTier(undefined, 'unknown-command'), 'admin');
+});
+
+Deno.test("ボタンのティアはカスタムIDの接頭辞で決め、不明な場合は write", () => {
+  assert.equal(getRequiredButtonTier(undefined, 'shell-stop:abc'), 'admin');
+  assert.equal(getRequiredButtonTier(undefined, 'run-diff:abc'), 'read');
+  assert.equal(getRequiredButtonTier(POLICY, 'run-diff:abc'), 'admin');
+  assert.equal(getRequiredButtonTier(undefined, 'unknown-button:abc'), 'write');
+});
+
+Deno.test("ユーザーとロールのうち最も高いティアを使う", () => {
+  assert.equal(resolveUserTier(POLICY, 'writer', []), 'write');
+  assert.equal(resolveUserTier(POLICY, 'reader', ['admins']), 'admin');
+  assert.equal(resolveUserTier(POLICY, 'someone', ['readers']), 'read');
+  assert.equal(resolveUserTier(POLICY, 'someone', []), null);
+});
+
+Deno.test("ユーザーのティアと必要なティアを比較する", () => {
+  assert.deepEqual(checkPermission(POLICY, 'write', 'writer', []), { allowed: true, requiredTier: 'write', userTier: 'write' });
+  assert.deepEqual(checkPermission(POLICY, 'admin', 'writer', []), { allowed: false, requiredTier: 'admin', userTier: 'write' });
+  assert.deepEqual(checkPermission(POLICY, 'read', 'someone', []), { allowed: false, requiredTier: 'read', userTier: null });
+  // 権限設定がない場合は全員が実行できる
+  assert.equal(checkPermission(undefined, 'admin', 'someone', []).allowed, true);
+});
+
+Deno.test("何も設定されていない場合は権限設定なし", async () => {
+  assert.equal(await loadPermissionPolicy(envOf({})), undefined);
+});
+
+Deno.test("環境変数のIDのリストを読み込み、最も高いティアを残す", async () => {
+  const policy = await loadPermissionPolicy(envOf({
+    READONLY_USER_IDS: 'a, b',
+    ALLOWED_USER_IDS: 'b',
+    ADMIN_ROLE_IDS: 'r1,,r2',
+  }));
+  assert.deepEqual(policy?.users, { a: 'read', b: 'write' });
+  assert.deepEqual(policy?.roles, { r1: 'admin', r2: 'admin' });
+});
+
+Deno.test("設定ファイルと環境変数の設定をまとめる", async () => {
+  const path = await Deno.makeTempFile({ suffix: '.json' });
+  try {
+    await Deno.writeTextFile(path, JSON.stringify({ users: { a: 'admin' }, roles: { r: 'read' }, commandTiers: { shell: 'write' } }));
+    const policy = await loadPermissionPolicy(envOf({ PERMISSIONS_FILE: path, READONLY_USER_IDS: 'a', ALLOWED_ROLE_IDS: 'r' }));
+    assert.deepEqual(policy, { users: { a: 'admin' }, roles: { r: 'write' }, commandTiers: { shell: 'write' } });
+
+    await Deno.writeTextFile(path, JSON.stringify({ users: { a: 'owner' } }));
+    await assert.rejects(loadPermissionPolicy(envOf({ PERMISSIONS_FILE: path })), /users\.a/);
+
+    // JSONオブジェクト以外の場合も設定ファイルのエラーにする
+    await Deno.writeTextFile(path, 'null');
+    await assert.rejects(loadPermissionPolicy(envOf({ PERMISSIONS_FILE: path })), /形式が正しくありません/);
+    await Deno.writeTextFile(path, JSON.stringify({ users: ['a'] }));
+    await assert.rejects(loadPermissionPolicy(envOf({ PERMISSIONS_FILE: path })), /users にはIDとティア/);
+  } finally {
+    await Deno.remove(path);
+  }
+});
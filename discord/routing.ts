@@ -0,0 +1,19 @@
+import type { BotConfig, ChannelRoute } from "./types.ts";
+
+// Route used when the bot serves a single channel
+export const DEFAULT_ROUTE_ID = 'default';
+
+// Channels served by the bot: the configured routes, or a single route built from the config
+export function getChannelRoutes(config: BotConfig): ChannelRoute[] {
+  if (config.routes && config.routes.length > 0) {
+    return config.routes;
+  }
+  return [{
+    id: DEFAULT_ROUTE_ID,
+    workDir: config.workDir,
+    repoName: config.repoName,
+    branchName: config.branchName,
+    categoryName: config.categoryName,
+    channelId: config.channelId
+  }];
+}
@@ -16,10 +16,38 @@ export interface ComponentData {
   style: 'primary' | 'secondary' | 'success' | 'danger' | 'link';
 }
 
+// File uploaded together with a message
+export interface FileAttachmentData {
+  name: string;
+  data: string | Uint8Array;
+}
+
 export interface MessageContent {
   content?: string;
   embeds?: EmbedData[];
   components?: Array<{ type: 'actionRow'; components: ComponentData[] }>;
+  files?: FileAttachmentData[];
+}
+
+// Text input shown in a modal dialog
+export interface ModalInputData {
+  customId: string;
+  label: string;
+  style: 'short' | 'paragraph';
+  value?: string;
+  required?: boolean;
+  maxLength?: number;
+}
+
+export interface ModalData {
+  title: string;
+  inputs: ModalInputData[];
+}
+
+// Values entered in a modal, keyed by input custom ID, and the context to respond to the submission
+export interface ModalSubmission {
+  values: Record<string, string>;
+  ctx: InteractionContext;
 }
 
 export interface InteractionContext {
@@ -30,6 +58,74 @@ export interface InteractionContext {
   update(content: MessageContent): Promise<void>;
   getString(name: string, required?: boolean): string | null;
   getInteger(name: string, required?: boolean): number | null;
+  getBoolean(name: string, required?: boolean): boolean | null;
+  getAttachment(name: string, required?: boolean): IncomingAttachment | null;
+  getSubcommand(): string | null;
+  // ID of the user who triggered the interaction
+  getUserId(): string;
+  // ID of the thread the interaction was used in, or null in the main channel
+  getThreadId(): string | null;
+  // Route of the channel the interaction was used in
+  getRouteId(): string;
+  // Start a thread on the interaction's reply message and return the thread ID
+  startThread(name: string): Promise<string>;
+  // Show a modal and wait for its submission (null on timeout, or when the interaction can't show modals)
+  showModal(modal: ModalData): Promise<ModalSubmission | null>;
+}
+
+// Handle to a message sent by the bot, used for in-place updates
+export interface SentMessageHandle {
+  edit(content: MessageContent): Promise<void>;
+}
+
+// A plain (non-command) message posted by a user in one of the bot's threads
+// File attached to a message or passed as a command option
+export interface IncomingAttachment {
+  name: string;
+  url: string;
+  contentType: string | null;
+  size: number;
+}
+
+export interface IncomingMessage {
+  content: string;
+  channelId: string;
+  // Route of the channel the message was posted in
+  routeId: string;
+  userId: string;
+  attachments: IncomingAttachment[];
+  reply(content: MessageContent): Promise<void>;
+}
+
+// A channel served by the bot and the directory it works in
+export interface ChannelRoute {
+  id: string;
+  workDir: string;
+  repoName: string;
+  branchName: string;
+  // Category to create the channel in (defaults to the repository name)
+  categoryName?: string;
+  // Use this existing channel instead of finding or creating one by name
+  channelId?: string;
+  // Channel name to find or create (defaults to the sanitized branch name)
+  channelName?: string;
+}
+
+// Triggers for plain chat messages that should be sent to Claude
+export interface ChatPromptConfig {
+  // Messages starting with this prefix start a new session (e.g. "!claude")
+  prefix: string | null;
+  // Messages starting with this prefix continue the latest session (e.g. "!continue")
+  continuePrefix: string | null;
+  // Messages mentioning the bot start a new session
+  mention: boolean;
+}
+
+// A plain chat message addressed to the bot
+export interface ChatPrompt {
+  mode: 'claude' | 'continue';
+  prompt: string;
+  attachments: IncomingAttachment[];
 }
 
 export interface BotConfig {
@@ -39,7 +135,82 @@ export interface BotConfig {
   repoName: string;
   branchName: string;
   categoryName?: string;
+  // Server to use; required when the bot has joined more than one server
+  guildId?: string;
+  // Existing channel to use instead of the one named after the branch
+  channelId?: string;
+  // Serve several channels, each mapped to its own directory (overrides workDir/channelId)
+  routes?: ChannelRoute[];
+  // Treat plain messages addressed to the bot as prompts (disabled when omitted)
+  chatPrompts?: ChatPromptConfig;
   defaultMentionUserId?: string;
+  // Role to mention instead of a user (takes precedence over defaultMentionUserId)
+  defaultMentionRoleId?: string;
+  // Events that mention the user/role, and the minimum run time in seconds for completion events
+  notifyEvents?: Array<'complete' | 'error' | 'approval' | 'budget' | 'shell'>;
+  notifyMinDurationSec?: number;
+  // Initial Claude Code permission mode (defaults to bypassPermissions)
+  defaultPermissionMode?: 'bypassPermissions' | 'acceptEdits' | 'default';
+  // Initial Claude Code budget caps in USD (unlimited when omitted)
+  dailyBudgetUsd?: number;
+  sessionBudgetUsd?: number;
+  // Default Claude Code model and the models to fall back to on rate limits
+  defaultModel?: string;
+  fallbackModels?: string[];
+  // How much of the Claude Code message stream is posted to threads (defaults to full)
+  verbosity?: 'answer' | 'tools' | 'full';
+  // Provider /pr uses to push branches and open pull requests (defaults to github)
+  pullRequestProvider?: string;
+  // Subcommands /git may run (null allows everything except the denied ones) and subcommands it never runs
+  gitAllowedCommands?: string[] | null;
+  gitDeniedCommands?: string[];
+  // /shell policy: every command must match an allowed pattern (when any), denied patterns always refuse,
+  // dangerous patterns need a confirmation button, and read-only mode only runs commands that do not write files
+  shellAllowedPatterns?: RegExp[];
+  shellDeniedPatterns?: RegExp[];
+  shellDangerousPatterns?: Array<{ pattern: RegExp; reason: string }>;
+  shellReadOnly?: boolean;
+  // /shell resource limits (0 means unlimited); cpu and memory are rlimits applied with ulimit
+  shellLimits?: {
+    timeoutSec?: number;
+    cpuSec?: number;
+    memoryMb?: number;
+    maxProcesses?: number;
+    maxOutputChars?: number;
+  };
+  // Access control for commands and buttons (unrestricted when omitted)
+  permissions?: PermissionPolicy;
+}
+
+// Permission tiers, from least to most privileged
+export type PermissionTier = 'read' | 'write' | 'admin';
+
+export interface PermissionPolicy {
+  // User ID -> granted tier
+  users: Record<string, PermissionTier>;
+  // Role ID -> granted tier
+  roles: Record<string, PermissionTier>;
+  // Command name (or button ID prefix) -> required tier, overrides the defaults
+  commandTiers?: Record<string, PermissionTier>;
+}
+
+export interface PermissionCheckResult {
+  allowed: boolean;
+  requiredTier: PermissionTier;
+  userTier: PermissionTier | null;
+}
+
+export interface AutocompleteChoice {
+  name: string;
+  value: string;
+}
+
+export interface AutocompleteContext {
+  getSubcommand(): string | null;
+  getRouteId(): string;
+  // The option currently being typed
+  getFocused(): { name: string; value: string };
+  respond(choices: AutocompleteChoice[]): Promise<void>;
 }
 
 // Abstract command handler interface
@@ -48,6 +219,8 @@ export interface CommandHandler {
   execute(ctx: InteractionContext): Promise<void> | void;
   // Optional: Handle button interactions for this command
   handleButton?(ctx: InteractionContext, customId: string): Promise<void> | void;
+  // Optional: Provide suggestions for options registered with autocomplete
+  autocomplete?(ctx: AutocompleteContext): Promise<void> | void;
 }
 
 // Map of command name to handler
@@ -72,9 +245,13 @@ export interface SlashCommand {
 
 export interface BotDependencies {
   commands: SlashCommand[];
+  // Called for user messages posted in threads under the bot's channel
+  onThreadMessage?: (message: IncomingMessage) => Promise<void> | void;
+  // Whether a thread belongs to a Claude session; other threads are ignored before any permission check
+  isSessionThread?: (threadId: string, routeId: string) => boolean;
+  // Called for chat prompts; ctx replies to the message like a deferred slash command
+  onChatPrompt?: (ctx: InteractionContext, prompt: ChatPrompt) => Promise<void> | void;
+  // Called when one of the bot's threads is archived or deleted
+  onThreadClosed?: (threadId: string, routeId: string) => Promise<void> | void;
   cleanSessionId?: (sessionId: string) => string;
-  botSettings?: {
-    mentionEnabled: boolean;
-    mentionUserId: string | null;
-  };
 }
\ No newline at end of file
@@ -1,4 +1,11 @@
 import { SlashCommandBuilder } from "npm:discord.js@14.14.1";
+import type { ChangesResult, UndoResult, PullRequestDraft, PullRequestProvider, StagedChanges, BranchChanges, GitStatus, GitCommandResult, DiffResult, CommitInfo } from "./types.ts";
+import { checkGitCommand, type GitCommandPolicy } from "./policy.ts";
+import type { ButtonHandlers, ComponentData, EmbedData, InteractionContext } from "../discord/types.ts";
+
+// /log で表示するコミット数
+const DEFAULT_LOG_COUNT = 10;
+const MAX_LOG_COUNT = 100;
 
 export const gitCommands = [
   new SlashCommandBuilder()
@@ -18,7 +25,7 @@ export const gitCommands = [
         .setRequired(true))
     .addStringOption(option =>
       option.setName('ref')
-        .setDescription('参照（デフォルト: ブランチ名）')
+        .setDescription('新しいブランチの作成元（デフォルト: 現在のHEAD）')
         .setRequired(false)),
   
   new SlashCommandBuilder()
@@ -32,27 +39,251 @@ export const gitCommands = [
       option.setName('branch')
         .setDescription('削除するworktreeのブランチ名')
         .setRequired(true)),
+  
+  new SlashCommandBuilder()
+    .setName('changes')
+    .setDescription('直前のClaude Codeの実行で変更されたファイルを表示')
+    .addBooleanOption(option =>
+      option.setName('diff')
+        .setDescription('変更のdiffも表示（オプション）')
+        .setRequired(false)),
+  
+  new SlashCommandBuilder()
+    .setName('undo')
+    .setDescription('直前のClaude Codeの実行による変更を元に戻す'),
+  
+  new SlashCommandBuilder()
+    .setName('commit')
+    .setDescription('直前の実行の変更をステージし、Claude Codeが作成したメッセージを確認してコミット')
+    .addBooleanOption(option =>
+      option.setName('all')
+        .setDescription('直前の実行の変更だけでなく、すべての変更をコミット（オプション）')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('message')
+        .setDescription('コミットメッセージ（オプション、省略時はClaude Codeが作成）')
+        .setRequired(false)),
+  
+  new SlashCommandBuilder()
+    .setName('pr')
+    .setDescription('ブランチをプッシュし、Claude Codeが作成したタイトルと本文を確認してPRを作成')
+    .addStringOption(option =>
+      option.setName('base')
+        .setDescription('マージ先のブランチ（オプション、省略時はリモートのデフォルトブランチ）')
+        .setRequired(false)),
+  
+  new SlashCommandBuilder()
+    .setName('diff')
+    .setDescription('未コミットの変更のdiffを表示')
+    .addStringOption(option =>
+      option.setName('path')
+        .setDescription('ファイルまたはディレクトリ（オプション）')
+        .setRequired(false))
+    .addBooleanOption(option =>
+      option.setName('staged')
+        .setDescription('ステージした変更のみ表示（オプション）')
+        .setRequired(false)),
+  
+  new SlashCommandBuilder()
+    .setName('log')
+    .setDescription('最近のコミットを表示')
+    .addIntegerOption(option =>
+      option.setName('count')
+        .setDescription(`表示するコミット数（オプション、デフォルト: ${DEFAULT_LOG_COUNT}）`)
+        .setMinValue(1)
+        .setMaxValue(MAX_LOG_COUNT)
+        .setRequired(false)),
+  
+  new SlashCommandBuilder()
+    .setName('blame')
+    .setDescription('ファイルの各行を最後に変更したコミットを表示')
+    .addStringOption(option =>
+      option.setName('path')
+        .setDescription('ファイルのパス')
+        .setRequired(true))
+    .addIntegerOption(option =>
+      option.setName('start')
+        .setDescription('開始行（オプション）')
+        .setMinValue(1)
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('end')
+        .setDescription('終了行（オプション）')
+        .setMinValue(1)
+        .setRequired(false)),
 ];
 
+// コミット・PRの確認カードのボタン（権限チェックもこのプレフィックスで行われる）
+export const COMMIT_APPROVE_PREFIX = 'commit-approve';
+export const COMMIT_EDIT_PREFIX = 'commit-edit';
+export const COMMIT_CANCEL_PREFIX = 'commit-cancel';
+export const PR_CREATE_PREFIX = 'pr-create';
+export const PR_EDIT_PREFIX = 'pr-edit';
+export const PR_CANCEL_PREFIX = 'pr-cancel';
+// /git の元に戻せない操作の確認ボタン
+export const GIT_CONFIRM_PREFIX = 'git-confirm';
+export const GIT_CANCEL_PREFIX = 'git-cancel';
+
+// 確認ボタンが押されるまで待つ時間（/git と /commit の確認）
+const GIT_CONFIRM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Claudeに渡すdiffの上限（超える分は省略）
+const MAX_PROMPT_DIFF_CHARS = 60_000;
+
+function truncateDiff(diff: string): string {
+  return diff.length > MAX_PROMPT_DIFF_CHARS
+    ? `${diff.substring(0, MAX_PROMPT_DIFF_CHARS)}\n...（以降 ${diff.length - MAX_PROMPT_DIFF_CHARS} 文字省略）`
+    : diff;
+}
+
+function commitMessagePrompt(staged: StagedChanges, recentSubjects: string[]): string {
+  return [
+    '以下のステージされた変更のgitコミットメッセージを作成してください。',
+    '- 1行目は変更内容を簡潔に要約した件名にし、必要な場合のみ空行の後に本文を書く',
+    '- 最近のコミットの件名の言語と書き方に合わせる',
+    '- コミットメッセージのみを出力し、前置き・説明・コードブロックは付けない',
+    '',
+    '最近のコミットの件名:',
+    recentSubjects.length > 0 ? recentSubjects.map(subject => `- ${subject}`).join('\n') : '（なし）',
+    '',
+    '変更の概要:',
+    staged.stat,
+    '',
+    'diff:',
+    truncateDiff(staged.diff)
+  ].join('\n');
+}
+
+function pullRequestPrompt(branch: string, base: string, changes: BranchChanges): string {
+  return [
+    `ブランチ「${branch}」を「${base}」にマージするPull Requestのタイトルと本文を作成してください。`,
+    '- 1行目にタイトルのみを書き、空行の後にMarkdownで本文を書く',
+    '- 本文には変更の目的と主な変更点を書く',
+    '- コミットの言語に合わせる',
+    '- タイトルと本文のみを出力し、前置きや説明は付けない',
+    '',
+    'コミット:',
+    changes.commits.map(subject => `- ${subject}`).join('\n'),
+    '',
+    '変更の概要:',
+    changes.stat,
+    '',
+    'diff:',
+    truncateDiff(changes.diff)
+  ].join('\n');
+}
+
+// Claudeの応答からコードブロックの囲みを除く
+function cleanGeneratedText(text: string): string {
+  return text.trim().replace(/^```[\w-]*\n([\s\S]*?)\n```$/, '$1').trim();
+}
+
+// 1行目をタイトル、残りを本文として分ける
+function parsePullRequestText(text: string): { title: string; body: string } {
+  const [firstLine, ...rest] = cleanGeneratedText(text).split('\n');
+  return {
+    title: firstLine.replace(/^#+\s*/, '').replace(/^(タイトル|Title)\s*[:：]\s*/i, '').trim().substring(0, 256),
+    body: rest.join('\n').trim()
+  };
+}
+
+function errorEmbed(title: string, error: unknown): EmbedData {
+  return {
+    color: 0xff0000,
+    title,
+    description: `\`\`\`\n${(error instanceof Error ? error.message : String(error)).substring(0, 4000)}\n\`\`\``,
+    timestamp: true
+  };
+}
+
 export interface GitHandlerDeps {
   workDir: string;
   actualCategoryName: string;
   discordToken: string;
   applicationId: string;
-  botSettings: {
-    mentionEnabled: boolean;
-    mentionUserId: string | null;
-  };
+  // Worktreeのボットに引き継ぐメンション対象のユーザー
+  getMentionUserId: () => string | null;
+  // 実行中は作業ツリーを元に戻さない・コミットしない
+  isClaudeRunning: () => boolean;
+  buttonHandlers: ButtonHandlers;
+  // コミットメッセージ・PRの下書きをClaude Codeで作成
+  generateText: (prompt: string, userId: string) => Promise<string>;
+  pullRequestProvider: PullRequestProvider;
+  // /git で実行できるサブコマンド
+  gitCommandPolicy: GitCommandPolicy;
 }
 
 export function createGitHandlers(deps: GitHandlerDeps) {
-  const { workDir, actualCategoryName, discordToken, applicationId, botSettings } = deps;
+  const { workDir, actualCategoryName, discordToken, applicationId, getMentionUserId, isClaudeRunning, buttonHandlers, generateText, pullRequestProvider, gitCommandPolicy } = deps;
+  
+  function buttonRow(buttons: ComponentData[]) {
+    return [{ type: 'actionRow' as const, components: buttons }];
+  }
   
   return {
-    // deno-lint-ignore no-explicit-any
-    async onGit(_ctx: any, command: string): Promise<string> {
-      const { executeGitCommand } = await import("./handler.ts");
-      return await executeGitCommand(workDir, `git ${command}`);
+    // 許可されたサブコマンドのみシェルを経由せずに実行し、元に戻せない操作は確認ボタンが押されてから実行
+    // 拒否・キャンセルした場合は応答を表示してnullを返す
+    async onGit(ctx: InteractionContext, command: string): Promise<GitCommandResult | null> {
+      const { listRefNames, executeGitCommand } = await import("./handler.ts");
+      const check = checkGitCommand(command, gitCommandPolicy, await listRefNames(workDir));
+      if (!check.allowed) {
+        await ctx.editReply({
+          embeds: [{
+            color: 0xff0000,
+            title: '🚫 実行できないGitコマンド',
+            description: `\`git ${command}\`\n${check.reason}`.substring(0, 4000),
+            timestamp: true
+          }]
+        });
+        return null;
+      }
+      
+      if (check.destructive) {
+        const id = crypto.randomUUID();
+        const ids = { confirm: `${GIT_CONFIRM_PREFIX}:${id}`, cancel: `${GIT_CANCEL_PREFIX}:${id}` };
+        const card = (title: string, color: number, withButtons: boolean) => ({
+          embeds: [{
+            color,
+            title,
+            description: `\`git ${command}\``.substring(0, 4000),
+            fields: [{ name: '注意', value: check.destructive!, inline: false }],
+            timestamp: true
+          }],
+          components: withButtons ? buttonRow([
+            { type: 'button', customId: ids.confirm, label: '実行', style: 'danger' },
+            { type: 'button', customId: ids.cancel, label: 'キャンセル', style: 'secondary' }
+          ]) : []
+        });
+        
+        const confirmed = await new Promise<boolean | null>((resolve) => {
+          const settle = (result: boolean | null) => {
+            clearTimeout(timer);
+            buttonHandlers.delete(ids.confirm);
+            buttonHandlers.delete(ids.cancel);
+            resolve(result);
+          };
+          const timer = setTimeout(() => settle(null), GIT_CONFIRM_TIMEOUT_MS);
+          buttonHandlers.set(ids.confirm, async (buttonCtx) => {
+            settle(true);
+            await buttonCtx.update(card('⏳ 実行中...', 0xffff00, false));
+          });
+          buttonHandlers.set(ids.cancel, async (buttonCtx) => {
+            settle(false);
+            await buttonCtx.update(card('⏹️ キャンセルしました', 0x808080, false));
+          });
+          ctx.editReply(card('⚠️ 実行の確認', 0xff9900, true)).catch((error) => {
+            console.error('Failed to send git confirmation:', error);
+            settle(false);
+          });
+        });
+        
+        if (confirmed === null) {
+          await ctx.editReply(card('⌛ 確認の期限が切れました', 0x808080, false));
+        }
+        if (!confirmed) return null;
+      }
+      
+      return await executeGitCommand(workDir, check.args);
     },
     
     // deno-lint-ignore no-explicit-any
@@ -76,18 +307,23 @@ export function createGitHandlers(deps: GitHandlerDeps) {
     // deno-lint-ignore no-explicit-any
     async onWorktreeBot(_ctx: any, fullPath: string, _branch: string) {
       const args = ["--category", actualCategoryName];
-      if (botSettings.mentionUserId) {
-        args.push("--user-id", botSettings.mentionUserId);
+      const mentionUserId = getMentionUserId();
+      if (mentionUserId) {
+        args.push("--user-id", mentionUserId);
       }
       
+      // Worktreeのボットはブランチ名のチャンネルを使うため、チャンネルの指定は引き継がない
+      const { CHANNEL_ID: _channelId, CHANNEL_ROUTES_FILE: _routesFile, ...env } = Deno.env.toObject();
+      
       const botProcess = new Deno.Command(Deno.execPath(), {
         args: ["run", "--allow-all", Deno.mainModule, ...args],
         cwd: fullPath,
         env: {
-          ...Deno.env.toObject(),
+          ...env,
           DISCORD_TOKEN: discordToken,
           APPLICATION_ID: applicationId,
         },
+        clearEnv: true,
         stdout: "inherit",
         stderr: "inherit",
       });
@@ -99,10 +335,299 @@ export function createGitHandlers(deps: GitHandlerDeps) {
       console.log(`Worktreeボットプロセスを起動しました: ${fullPath}`);
     },
     
-    async getStatus() {
+    // 直前の実行（保存されている最新のスナップショット）の変更
+    async onChanges(): Promise<ChangesResult | null> {
+      const { getLatestCheckpoint } = await import("./handler.ts");
+      const checkpoint = await getLatestCheckpoint(workDir);
+      if (!checkpoint) return null;
+      return { checkpoint, files: await checkpoint.changedFiles() };
+    },
+    
+    async onUndo(): Promise<UndoResult> {
+      if (isClaudeRunning()) {
+        return { success: false, message: 'Claude Codeの実行中は元に戻せません。終了するか `/claude-cancel` でキャンセルしてください。' };
+      }
+      const { getLatestCheckpoint } = await import("./handler.ts");
+      const checkpoint = await getLatestCheckpoint(workDir);
+      if (!checkpoint) {
+        return { success: false, message: '元に戻せる実行がありません。' };
+      }
+      // 変更のなかった実行は記録だけを削除し、次の /undo でその前の実行を元に戻せるようにする
+      if ((await checkpoint.changedFiles()).length === 0) {
+        await checkpoint.revert();
+        return { success: false, checkpoint, message: `直前の実行（\`${checkpoint.label.substring(0, 200)}\`）はファイルを変更していません。その前の実行を元に戻す場合は、もう一度 \`/undo\` を実行してください。` };
+      }
+      return { success: true, checkpoint, result: await checkpoint.revert() };
+    },
+    
+    // ステージした変更のコミットメッセージを作成し、確認してからコミット
+    // 確認した時点のツリーを記録し、承認されたらそのツリーをコミットする
+    async onCommit(ctx: InteractionContext, options: { all?: boolean; message?: string } = {}): Promise<void> {
+      const { saveIndex, restoreIndex, stageChanges, getStagedFiles, getStagedChanges, commitReviewedTree, resolveHead, getRecentCommitSubjects, getLatestCheckpoint, getCommitHooks } = await import("./handler.ts");
+      await ctx.deferReply();
+      
+      if (isClaudeRunning()) {
+        await ctx.editReply({ embeds: [errorEmbed('コミットできません', 'Claude Codeの実行中はコミットできません。終了してから実行してください。')] });
+        return;
+      }
+      
+      let files: string[] | undefined;
+      if (!options.all) {
+        const checkpoint = await getLatestCheckpoint(workDir);
+        files = checkpoint ? (await checkpoint.changedFiles()).map(change => change.path) : [];
+        if (files.length === 0) {
+          await ctx.editReply({ embeds: [errorEmbed('コミットできません', '直前の実行による変更がありません。すべての変更をコミットする場合は all を指定してください。')] });
+          return;
+        }
+      }
+      
+      // キャンセル・期限切れ・失敗した場合にステージする前の状態に戻す
+      const savedIndex = await saveIndex(workDir);
+      // 直前の実行の変更以外に既にステージされていたファイルもコミットに含まれるため、確認カードに表示する
+      const previouslyStaged = files ? (await getStagedFiles(workDir)).filter(file => !files!.includes(file)) : [];
+      let staged: StagedChanges | null;
+      let reviewedTree: string;
+      let head: string | null;
+      try {
+        await stageChanges(workDir, files);
+        staged = await getStagedChanges(workDir);
+        reviewedTree = await saveIndex(workDir);
+        head = await resolveHead(workDir);
+      } catch (error) {
+        await restoreIndex(workDir, savedIndex);
+        await ctx.editReply({ embeds: [errorEmbed('変更のステージに失敗しました', error)] });
+        return;
+      }
+      if (!staged) {
+        await restoreIndex(workDir, savedIndex);
+        await ctx.editReply({ embeds: [errorEmbed('コミットできません', 'コミットする変更がありません。')] });
+        return;
+      }
+      
+      const statField = { name: '変更', value: `\`\`\`\n${staged.stat.substring(0, 1000)}\n\`\`\``, inline: false };
+      const previouslyStagedFields = previouslyStaged.length > 0
+        ? [{ name: '⚠️ 以前からステージされていたファイル（コミットに含まれます）', value: previouslyStaged.map(file => `\`${file}\``).join('\n').substring(0, 1000), inline: false }]
+        : [];
+      // 確認した内容をそのままコミットするため git commit を使わず、フックは実行されない
+      const hooks = await getCommitHooks(workDir).catch(() => []);
+      const hookFields = hooks.length > 0
+        ? [{ name: '⚠️ 実行されないフック', value: `${hooks.map(hook => `\`${hook}\``).join(', ')} はこのコミットでは実行されません。必要な場合は \`/git\` 等でコミットしてください。`, inline: false }]
+        : [];
+      let message = options.message?.trim();
+      if (!message) {
+        await ctx.editReply({
+          embeds: [{ color: 0xffff00, title: '✍️ コミットメッセージを作成中...', fields: [statField], timestamp: true }]
+        });
+        try {
+          message = cleanGeneratedText(await generateText(commitMessagePrompt(staged, await getRecentCommitSubjects(workDir)), ctx.getUserId()));
+        } catch (error) {
+          await restoreIndex(workDir, savedIndex);
+          await ctx.editReply({ embeds: [errorEmbed('コミットメッセージの作成に失敗しました', error)] });
+          return;
+        }
+      }
+      
+      const id = crypto.randomUUID();
+      const ids = { approve: `${COMMIT_APPROVE_PREFIX}:${id}`, edit: `${COMMIT_EDIT_PREFIX}:${id}`, cancel: `${COMMIT_CANCEL_PREFIX}:${id}` };
+      let settled = false;
+      // ボタンを無効にし、以降のボタン操作や期限切れの処理が重ならないようにする
+      const settle = (): boolean => {
+        if (settled) return false;
+        settled = true;
+        clearTimeout(timer);
+        Object.values(ids).forEach(buttonId => buttonHandlers.delete(buttonId));
+        return true;
+      };
+      const card = (title: string, color: number, withButtons: boolean, extraFields: EmbedData['fields'] = []) => ({
+        embeds: [{
+          color,
+          title,
+          description: `\`\`\`\n${message!.substring(0, 3900)}\n\`\`\``,
+          fields: [statField, ...previouslyStagedFields, ...hookFields, ...(extraFields ?? [])],
+          timestamp: true
+        }],
+        components: withButtons ? buttonRow([
+          { type: 'button', customId: ids.approve, label: 'コミット', style: 'success' },
+          { type: 'button', customId: ids.edit, label: 'メッセージを編集', style: 'secondary' },
+          { type: 'button', customId: ids.cancel, label: 'キャンセル', style: 'danger' }
+        ]) : []
+      });
+      
+      const timer = setTimeout(async () => {
+        if (!settle()) return;
+        try {
+          await restoreIndex(workDir, savedIndex);
+          await ctx.editReply(card('⌛ 確認の期限が切れました（ステージを元に戻しました）', 0x808080, false));
+        } catch (error) {
+          console.error('Failed to expire commit confirmation:', error);
+        }
+      }, GIT_CONFIRM_TIMEOUT_MS);
+      
+      buttonHandlers.set(ids.approve, async (buttonCtx) => {
+        // 確認中に始まった実行の変更が混ざらないように、押された時点でも確認する
+        if (isClaudeRunning()) {
+          await buttonCtx.reply({ content: 'Claude Codeの実行中はコミットできません。終了してから押してください。', ephemeral: true });
+          return;
+        }
+        if (!settle()) return;
+        await buttonCtx.update(card('⏳ コミット中...', 0xffff00, false));
+        try {
+          const result = await commitReviewedTree(workDir, reviewedTree, head, message!);
+          await buttonCtx.editReply(card('✅ コミットしました', 0x00ff00, false, [{ name: 'コミット', value: `\`${result.hash}\``, inline: true }]));
+        } catch (error) {
+          await restoreIndex(workDir, savedIndex).catch((restoreError) => {
+            console.error('Failed to restore the index after a failed commit:', restoreError);
+          });
+          await buttonCtx.editReply({ embeds: [errorEmbed('コミットに失敗しました（ステージを元に戻しました）', error)], components: [] });
+        }
+      });
+      
+      buttonHandlers.set(ids.edit, async (buttonCtx) => {
+        const submission = await buttonCtx.showModal({
+          title: 'コミットメッセージを編集',
+          inputs: [{ customId: 'message', label: 'コミットメッセージ', style: 'paragraph', value: message, maxLength: 4000 }]
+        });
+        const edited = submission?.values.message.trim();
+        if (!submission || !edited || settled) return;
+        message = edited;
+        await submission.ctx.update(card('📝 コミットの確認', 0x0099ff, true));
+      });
+      
+      buttonHandlers.set(ids.cancel, async (buttonCtx) => {
+        if (!settle()) return;
+        await restoreIndex(workDir, savedIndex);
+        await buttonCtx.update(card('⏹️ コミットをキャンセルしました', 0x808080, false));
+      });
+      
+      await ctx.editReply(card('📝 コミットの確認', 0x0099ff, true));
+    },
+    
+    // ブランチをプッシュし、PRのタイトルと本文を確認してから作成
+    async onPullRequest(ctx: InteractionContext, options: { base?: string } = {}): Promise<void> {
+      const { getCurrentBranch, getDefaultBaseBranch, getBranchChanges } = await import("./handler.ts");
+      await ctx.deferReply();
+      
+      const head = await getCurrentBranch(workDir);
+      const base = options.base?.trim() || await getDefaultBaseBranch(workDir);
+      if (head === base) {
+        await ctx.editReply({ embeds: [errorEmbed('PRを作成できません', `現在のブランチ「${head}」がマージ先と同じです。`)] });
+        return;
+      }
+      const changes = await getBranchChanges(workDir, base);
+      if (changes.commits.length === 0) {
+        await ctx.editReply({ embeds: [errorEmbed('PRを作成できません', `「${base}」から分岐した後のコミットがありません。`)] });
+        return;
+      }
+      
+      const branchField = { name: 'ブランチ', value: `\`${head}\` → \`${base}\``, inline: true };
+      const providerField = { name: 'プロバイダー', value: pullRequestProvider.name, inline: true };
+      await ctx.editReply({ embeds: [{ color: 0xffff00, title: '📤 プッシュ中...', fields: [branchField, providerField], timestamp: true }] });
+      let pushOutput: string;
+      try {
+        pushOutput = await pullRequestProvider.push(workDir, head);
+      } catch (error) {
+        await ctx.editReply({ embeds: [errorEmbed('プッシュに失敗しました', error)] });
+        return;
+      }
+      
+      const pushField = { name: 'プッシュ', value: `\`\`\`\n${(pushOutput || '完了').substring(0, 1000)}\n\`\`\``, inline: false };
+      await ctx.editReply({ embeds: [{ color: 0xffff00, title: '✍️ PRのタイトルと本文を作成中...', fields: [branchField, providerField, pushField], timestamp: true }] });
+      let draft: PullRequestDraft;
+      try {
+        draft = { ...parsePullRequestText(await generateText(pullRequestPrompt(head, base, changes), ctx.getUserId())), base, head };
+      } catch (error) {
+        await ctx.editReply({ embeds: [errorEmbed('PRの下書きの作成に失敗しました', error)] });
+        return;
+      }
+      
+      const id = crypto.randomUUID();
+      const ids = { create: `${PR_CREATE_PREFIX}:${id}`, edit: `${PR_EDIT_PREFIX}:${id}`, cancel: `${PR_CANCEL_PREFIX}:${id}` };
+      let settled = false;
+      // ボタンを無効にし、以降のボタン操作や期限切れの処理が重ならないようにする
+      const settle = (): boolean => {
+        if (settled) return false;
+        settled = true;
+        clearTimeout(timer);
+        Object.values(ids).forEach(buttonId => buttonHandlers.delete(buttonId));
+        return true;
+      };
+      const card = (title: string, color: number, withButtons: boolean, extraFields: EmbedData['fields'] = []) => ({
+        embeds: [{
+          color,
+          title,
+          description: `**${draft.title}**\n\n${draft.body}`.substring(0, 4000),
+          fields: [branchField, providerField, ...(extraFields ?? [])],
+          timestamp: true
+        }],
+        components: withButtons ? buttonRow([
+          { type: 'button', customId: ids.create, label: 'PRを作成', style: 'success' },
+          { type: 'button', customId: ids.edit, label: 'タイトル・本文を編集', style: 'secondary' },
+          { type: 'button', customId: ids.cancel, label: 'キャンセル', style: 'danger' }
+        ]) : []
+      });
+      
+      const timer = setTimeout(async () => {
+        if (!settle()) return;
+        try {
+          await ctx.editReply(card('⌛ 確認の期限が切れました（ブランチはプッシュ済みです）', 0x808080, false));
+        } catch (error) {
+          console.error('Failed to expire pull request confirmation:', error);
+        }
+      }, GIT_CONFIRM_TIMEOUT_MS);
+      
+      buttonHandlers.set(ids.create, async (buttonCtx) => {
+        if (!settle()) return;
+        await buttonCtx.update(card('⏳ PRを作成中...', 0xffff00, false));
+        try {
+          const result = await pullRequestProvider.createPullRequest(workDir, draft);
+          await buttonCtx.editReply(card(`✅ ${result.message}`, 0x00ff00, false, result.url ? [{ name: 'URL', value: result.url, inline: false }] : []));
+        } catch (error) {
+          await buttonCtx.editReply({ embeds: [errorEmbed('PRの作成に失敗しました', error)], components: [] });
+        }
+      });
+      
+      buttonHandlers.set(ids.edit, async (buttonCtx) => {
+        const submission = await buttonCtx.showModal({
+          title: 'PRを編集',
+          inputs: [
+            { customId: 'title', label: 'タイトル', style: 'short', value: draft.title, maxLength: 256 },
+            { customId: 'body', label: '本文', style: 'paragraph', value: draft.body, required: false, maxLength: 4000 }
+          ]
+        });
+        if (!submission || !submission.values.title.trim() || settled) return;
+        draft = { ...draft, title: submission.values.title.trim(), body: submission.values.body.trim() };
+        await submission.ctx.update(card('📝 PRの確認', 0x0099ff, true));
+      });
+      
+      buttonHandlers.set(ids.cancel, async (buttonCtx) => {
+        if (!settle()) return;
+        await buttonCtx.update(card('⏹️ PRの作成をキャンセルしました（ブランチはプッシュ済みです）', 0x808080, false));
+      });
+      
+      await ctx.editReply(card('📝 PRの確認', 0x0099ff, true));
+    },
+    
+    async getStatus(): Promise<GitStatus> {
       const { getGitStatus } = await import("./handler.ts");
-      const gitStatusInfo = await getGitStatus(workDir);
-      return gitStatusInfo;
+      return await getGitStatus(workDir);
+    },
+    
+    async onDiff(options: { path?: string; staged?: boolean } = {}): Promise<DiffResult> {
+      const { getDiff } = await import("./handler.ts");
+      return await getDiff(workDir, options);
+    },
+    
+    async onLog(count = DEFAULT_LOG_COUNT): Promise<CommitInfo[]> {
+      const { getLog } = await import("./handler.ts");
+      return await getLog(workDir, Math.min(Math.max(count, 1), MAX_LOG_COUNT));
+    },
+    
+    async onBlame(path: string, range: { start?: number; end?: number } = {}): Promise<string> {
+      if (range.start && range.end && range.start > range.end) {
+        throw new Error('開始行は終了行以下にしてください');
+      }
+      const { getBlame } = await import("./handler.ts");
+      return await getBlame(workDir, path, range);
     }
   };
 }
\ No newline at end of file
@@ -1,28 +1,43 @@
-import { promisify } from "node:util";
-import { exec as execCallback } from "node:child_process";
-import { basename } from "node:path";
-import process from "node:process";
-import type { GitInfo, WorktreeResult, WorktreeListResult, GitStatus } from "./types.ts";
+import { basename, resolve } from "node:path";
+import type { GitInfo, GitCommandResult, WorktreeResult, WorktreeListResult, GitStatus, GitStatusEntry, GitRemote, CommitInfo, DiffStatEntry, DiffResult, FileChange, RevertResult, WorkTreeCheckpoint, StagedChanges, CommitResult, BranchChanges } from "./types.ts";
 
-const exec = promisify(execCallback);
+// 引数を配列で渡してgitを実行（ファイルパスをシェルで解釈させない）
+async function runGit(
+  workDir: string,
+  args: string[],
+  env: Record<string, string> = {}
+): Promise<{ success: boolean; stdout: string; stderr: string }> {
+  const { code, stdout, stderr } = await new Deno.Command("git", {
+    args,
+    cwd: workDir,
+    env: { GIT_TERMINAL_PROMPT: '0', ...env },
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+  const decoder = new TextDecoder();
+  return { success: code === 0, stdout: decoder.decode(stdout), stderr: decoder.decode(stderr) };
+}
+
+// 失敗した場合はgitのエラーメッセージで例外を投げる
+async function gitOutput(workDir: string, args: string[], env?: Record<string, string>): Promise<string> {
+  const result = await runGit(workDir, args, env);
+  if (!result.success) {
+    throw new Error(result.stderr.trim() || `git ${args[0]} に失敗しました`);
+  }
+  return result.stdout.trim();
+}
 
 export async function getGitInfo(workDir: string = Deno.cwd()): Promise<GitInfo> {
   try {
-    const { stdout: branch } = await exec("git branch --show-current", { cwd: workDir });
-    const branchName = branch.trim() || "main";
+    const branchName = await gitOutput(workDir, ["branch", "--show-current"]) || "main";
     
     let repoName = basename(workDir);
     
-    try {
-      const { stdout: remoteUrl } = await exec("git config --get remote.origin.url", { cwd: workDir });
-      if (remoteUrl) {
-        const match = remoteUrl.match(/\/([^\/]+?)(\.git)?$/);
-        if (match) {
-          repoName = match[1];
-        }
-      }
-    } catch {
-      // リモートURLが取得できない場合はディレクトリ名を使用
+    // リモートURLが取得できない場合はディレクトリ名を使用
+    const remote = await runGit(workDir, ["config", "--get", "remote.origin.url"]);
+    const match = remote.stdout.trim().match(/\/([^\/]+?)(\.git)?$/);
+    if (remote.success && match) {
+      repoName = match[1];
     }
     
     return { repo: repoName, branch: branchName };
@@ -32,41 +47,66 @@ export async function getGitInfo(workDir: string = Deno.cwd()): Promise<GitInfo>
   }
 }
 
-export async function executeGitCommand(workDir: string, command: string): Promise<string> {
+// 引数の配列でgitを実行し、出力を表示用にまとめる（シェルを経由しない）
+export async function executeGitCommand(workDir: string, args: string[]): Promise<GitCommandResult> {
+  let result: Awaited<ReturnType<typeof runGit>>;
   try {
-    const { stdout, stderr } = await exec(command, { 
-      cwd: workDir,
-      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
-    });
-    
-    if (stderr && !stdout) {
-      return `エラー:\n${stderr}`;
-    }
-    
-    return stdout || stderr || "コマンドが正常に実行されました。";
-  // deno-lint-ignore no-explicit-any
-  } catch (error: any) {
-    return `実行エラー: ${error.message}\n${error.stderr || ''}`;
+    // エディタやページャーの起動で止まらないようにする（メッセージの入力が必要なコマンドは失敗する）
+    result = await runGit(workDir, args, { GIT_EDITOR: 'true', GIT_PAGER: 'cat' });
+  } catch (error) {
+    return { success: false, output: `実行エラー: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  
+  if (!result.success) {
+    return { success: false, output: `実行エラー: ${(result.stderr || result.stdout).trim()}` };
   }
+  return { success: true, output: result.stdout || result.stderr || "コマンドが正常に実行されました。" };
 }
 
-export async function createWorktree(workDir: string, branch: string, ref?: string): Promise<WorktreeResult> {
-  const actualRef = ref || branch;
-  let baseWorkDir = workDir;
-  
+// worktreeの場合はメインの作業ツリーのディレクトリ
+async function getBaseWorkDir(workDir: string): Promise<string> {
   try {
     const gitFile = await Deno.readTextFile(`${workDir}/.git`);
     if (gitFile.includes('gitdir:')) {
-      baseWorkDir = workDir.replace(/\/\.git\/worktrees\/[^\/]+$/, '');
+      return workDir.replace(/\/\.git\/worktrees\/[^\/]+$/, '');
     }
   } catch {
     // .gitディレクトリの場合は通常のリポジトリ
   }
+  return workDir;
+}
+
+// ブランチ・リモートのブランチ・タグの名前（/git の checkout の引数がブランチかどうかの判定に使う）
+export async function listRefNames(workDir: string): Promise<Set<string>> {
+  const result = await runGit(workDir, ["for-each-ref", "--format=%(refname:short)", "refs/heads", "refs/remotes", "refs/tags"]);
+  return new Set(result.success ? result.stdout.split('\n').filter(Boolean) : []);
+}
+
+// ブランチ名として使えるか（オプションと解釈される名前も不可）
+export async function isValidBranchName(workDir: string, branch: string): Promise<boolean> {
+  if (!branch || branch.startsWith('-')) return false;
+  return (await runGit(workDir, ["check-ref-format", "--branch", branch])).success;
+}
+
+// コミットを指す参照か（オプションと解釈される名前は不可）
+async function isCommitRef(workDir: string, ref: string): Promise<boolean> {
+  if (!ref || ref.startsWith('-')) return false;
+  return (await runGit(workDir, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).success;
+}
+
+export async function createWorktree(workDir: string, branch: string, ref?: string): Promise<WorktreeResult> {
+  // 新しいブランチは指定がなければ現在のHEADから作成
+  const actualRef = ref || 'HEAD';
+  const baseWorkDir = await getBaseWorkDir(workDir);
+  
+  if (!await isValidBranchName(baseWorkDir, branch)) {
+    return { result: `エラー: '${branch}' はブランチ名として使えません。`, fullPath: '', baseDir: baseWorkDir };
+  }
   
   // Check if worktree already exists for this branch
-  const existingWorktrees = await executeGitCommand(baseWorkDir, "git worktree list");
-  if (!existingWorktrees.startsWith('実行エラー:') && !existingWorktrees.startsWith('エラー:')) {
-    const worktreeLines = existingWorktrees.split('\n').filter(line => line.trim());
+  const existingWorktrees = await executeGitCommand(baseWorkDir, ["worktree", "list"]);
+  if (existingWorktrees.success) {
+    const worktreeLines = existingWorktrees.output.split('\n').filter(line => line.trim());
     for (const line of worktreeLines) {
       // Check if this branch is already used by a worktree
       if (line.includes(`[${branch}]`) || line.endsWith(` ${branch}`)) {
@@ -97,57 +137,39 @@ export async function createWorktree(workDir: string, branch: string, ref?: stri
   }
   
   // Check if branch already exists
-  const branchCheckResult = await executeGitCommand(baseWorkDir, `git show-ref --verify --quiet refs/heads/${branch}`);
-  const branchExists = !branchCheckResult.startsWith('実行エラー:') && !branchCheckResult.startsWith('エラー:');
+  const branchExists = (await runGit(baseWorkDir, ["show-ref", "--verify", "--quiet", `refs/heads/${branch}`])).success;
   
-  let result: string;
+  let result: GitCommandResult;
   if (branchExists) {
     // Branch exists, use it without creating a new one
-    result = await executeGitCommand(baseWorkDir, `git worktree add ${worktreeDir} ${branch}`);
+    result = await executeGitCommand(baseWorkDir, ["worktree", "add", worktreeDir, branch]);
+  } else if (!await isCommitRef(baseWorkDir, actualRef)) {
+    return { result: `エラー: 参照 '${actualRef}' が見つかりません。`, fullPath: '', baseDir: baseWorkDir };
   } else {
     // Branch doesn't exist, create a new one
-    result = await executeGitCommand(baseWorkDir, `git worktree add ${worktreeDir} -b ${branch} ${actualRef}`);
+    result = await executeGitCommand(baseWorkDir, ["worktree", "add", "-b", branch, worktreeDir, actualRef]);
   }
   
-  return { result, fullPath: worktreeDir, baseDir: baseWorkDir };
+  return { result: result.output, fullPath: worktreeDir, baseDir: baseWorkDir };
 }
 
 export async function listWorktrees(workDir: string): Promise<WorktreeListResult> {
-  let baseWorkDir = workDir;
-  
-  try {
-    const gitFile = await Deno.readTextFile(`${workDir}/.git`);
-    if (gitFile.includes('gitdir:')) {
-      baseWorkDir = workDir.replace(/\/\.git\/worktrees\/[^\/]+$/, '');
-    }
-  } catch {
-    // .gitディレクトリの場合は通常のリポジトリ
-  }
-  
-  const result = await executeGitCommand(baseWorkDir, "git worktree list");
-  return { result, baseDir: baseWorkDir };
+  const baseWorkDir = await getBaseWorkDir(workDir);
+  const result = await executeGitCommand(baseWorkDir, ["worktree", "list"]);
+  return { result: result.output, baseDir: baseWorkDir };
 }
 
 export async function removeWorktree(workDir: string, branch: string): Promise<WorktreeResult> {
-  let baseWorkDir = workDir;
-  
-  try {
-    const gitFile = await Deno.readTextFile(`${workDir}/.git`);
-    if (gitFile.includes('gitdir:')) {
-      baseWorkDir = workDir.replace(/\/\.git\/worktrees\/[^\/]+$/, '');
-    }
-  } catch {
-    // .gitディレクトリの場合は通常のリポジトリ
-  }
+  const baseWorkDir = await getBaseWorkDir(workDir);
   
   // First, find the actual worktree path by listing existing worktrees
-  const worktreeList = await executeGitCommand(baseWorkDir, "git worktree list");
-  if (worktreeList.startsWith('実行エラー:') || worktreeList.startsWith('エラー:')) {
-    return { result: worktreeList, fullPath: '', baseDir: baseWorkDir };
+  const worktreeList = await executeGitCommand(baseWorkDir, ["worktree", "list"]);
+  if (!worktreeList.success) {
+    return { result: worktreeList.output, fullPath: '', baseDir: baseWorkDir };
   }
   
   let worktreePathToRemove = '';
-  const worktreeLines = worktreeList.split('\n').filter(line => line.trim());
+  const worktreeLines = worktreeList.output.split('\n').filter(line => line.trim());
   for (const line of worktreeLines) {
     // Check if this line contains the branch we want to remove
     if (line.includes(`[${branch}]`) || line.endsWith(` ${branch}`)) {
@@ -165,15 +187,443 @@ export async function removeWorktree(workDir: string, branch: string): Promise<W
   }
   
   // Remove the worktree using the actual path
-  const result = await executeGitCommand(baseWorkDir, `git worktree remove ${worktreePathToRemove} --force`);
+  const result = await executeGitCommand(baseWorkDir, ["worktree", "remove", "--force", worktreePathToRemove]);
   
-  return { result, fullPath: worktreePathToRemove, baseDir: baseWorkDir };
+  return { result: result.output, fullPath: worktreePathToRemove, baseDir: baseWorkDir };
+}
+
+// Claude Codeの実行ごとのスナップショットを保存するref
+// refs/worktree/ はworktreeごとに別のため、worktreeのボット同士で混ざらない
+const CHECKPOINT_REF_PREFIX = "refs/worktree/claude-discord/checkpoints";
+// 保存しておくスナップショットの数（古いものから削除）
+const MAX_CHECKPOINTS = 20;
+
+// 作業ツリーの内容（未追跡のファイルを含み、.gitignoreの対象は除く）をツリーオブジェクトとして保存
+// 一時的なインデックスを使うため、実際のインデックスや作業ツリーは変更しない
+async function writeWorkTreeTree(root: string): Promise<string> {
+  const indexPath = resolve(root, await gitOutput(root, ["rev-parse", "--git-path", "index"]));
+  const tmpIndex = await Deno.makeTempFile({ prefix: "claude-discord-index-" });
+  try {
+    // 既存のインデックスをコピーすると、変更のないファイルを読み直さずに済む
+    try {
+      await Deno.copyFile(indexPath, tmpIndex);
+    } catch {
+      // コミットがまだないリポジトリ等（空のファイルはインデックスとして読めない）
+      await Deno.remove(tmpIndex);
+    }
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    await gitOutput(root, ["add", "--all", "--", "."], env);
+    return await gitOutput(root, ["write-tree"], env);
+  } finally {
+    await Deno.remove(tmpIndex).catch(() => {});
+  }
+}
+
+export async function resolveHead(root: string): Promise<string | null> {
+  const result = await runGit(root, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+  return result.success ? result.stdout.trim() : null;
 }
 
-export async function getGitStatus(workDir: string): Promise<GitStatus> {
-  const status = await executeGitCommand(workDir, "git status --short");
-  const branch = await executeGitCommand(workDir, "git branch --show-current");
-  const remote = await executeGitCommand(workDir, "git remote -v");
+// スナップショット用のコミットはユーザーの設定に依存しない作成者で作る
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: "claude-discord",
+  GIT_AUTHOR_EMAIL: "claude-discord@localhost",
+  GIT_COMMITTER_NAME: "claude-discord",
+  GIT_COMMITTER_EMAIL: "claude-discord@localhost",
+};
+
+async function commitTree(root: string, tree: string, parents: string[], message: string): Promise<string> {
+  return await gitOutput(root, ["commit-tree", tree, ...parents.flatMap(parent => ["-p", parent]), "-m", message], CHECKPOINT_IDENTITY);
+}
+
+async function changedBetween(root: string, from: string, to: string, paths: string[] = []): Promise<FileChange[]> {
+  const output = await gitOutput(root, [
+    "diff", "--name-status", "-z", "--no-renames", from, to,
+    ...(paths.length > 0 ? ["--", ...paths] : [])
+  ]);
+  const entries = output.split('\0').filter(Boolean);
+  const changes: FileChange[] = [];
+  for (let i = 0; i + 1 < entries.length; i += 2) {
+    const relativePath = entries[i + 1];
+    changes.push({
+      path: resolve(root, relativePath),
+      relativePath,
+      status: entries[i] === 'A' ? 'added' : entries[i] === 'D' ? 'deleted' : 'modified'
+    });
+  }
+  return changes;
+}
+
+// 古いスナップショットを削除
+async function pruneCheckpoints(root: string): Promise<void> {
+  const ids = await listCheckpointIds(root);
+  for (const id of ids.slice(MAX_CHECKPOINTS)) {
+    await deleteCheckpointRefs(root, id);
+  }
+}
+
+// 新しい順
+async function listCheckpointIds(root: string): Promise<string[]> {
+  const output = await gitOutput(root, ["for-each-ref", "--format=%(refname)", `${CHECKPOINT_REF_PREFIX}/`]);
+  const ids = new Set(output.split('\n')
+    .map(ref => ref.substring(CHECKPOINT_REF_PREFIX.length + 1).split('/')[0])
+    .filter(Boolean));
+  return [...ids].sort().reverse();
+}
+
+async function deleteCheckpointRefs(root: string, id: string): Promise<void> {
+  for (const name of ["before", "index", "after"]) {
+    await runGit(root, ["update-ref", "-d", `${CHECKPOINT_REF_PREFIX}/${id}/${name}`]);
+  }
+}
+
+async function readRef(root: string, ref: string): Promise<string | null> {
+  const result = await runGit(root, ["rev-parse", "--verify", "--quiet", ref]);
+  return result.success ? result.stdout.trim() : null;
+}
+
+interface CheckpointState {
+  root: string;
+  id: string;
+  label: string;
+  // 実行前の作業ツリー・インデックス・HEAD
+  before: string;
+  index: string;
+  head: string | null;
+  // 実行後の作業ツリー（記録前はnull）
+  after: string | null;
+}
+
+function checkpointFromState(state: CheckpointState): WorkTreeCheckpoint {
+  const { root, id, before } = state;
+  const ref = (name: string) => `${CHECKPOINT_REF_PREFIX}/${id}/${name}`;
+  const toRelative = (files: string[]) => files.map(file => resolve(root, file).substring(root.length + 1));
   
-  return { status, branch, remote };
-}
\ No newline at end of file
+  return {
+    id,
+    label: state.label,
+    createdAt: new Date(Number(id.split('-')[0])).toISOString(),
+    
+    async finish(): Promise<void> {
+      const tree = await writeWorkTreeTree(root);
+      state.after = await commitTree(root, tree, [before], `claude-discord: after ${state.label}`);
+      // 変更がなかった場合も保存し、/undo でそれより前の実行を黙って元に戻さないようにする
+      await gitOutput(root, ["update-ref", ref("after"), state.after]);
+    },
+    
+    async changedFiles(): Promise<FileChange[]> {
+      return await changedBetween(root, before, state.after ?? await writeWorkTreeTree(root));
+    },
+    
+    async diff(files?: string[]): Promise<string> {
+      const to = state.after ?? await writeWorkTreeTree(root);
+      return await gitOutput(root, ["diff", before, to, ...(files ? ["--", ...toRelative(files)] : [])]);
+    },
+    
+    async revert(files?: string[]): Promise<RevertResult> {
+      const result: RevertResult = { reverted: [], skipped: [] };
+      const current = await writeWorkTreeTree(root);
+      const changes = await changedBetween(root, before, state.after ?? current, files ? toRelative(files) : []);
+      // 実行後にさらに変更されたファイルは、その変更を失わないよう元に戻さない
+      const modifiedSince = state.after
+        ? new Set((await changedBetween(root, state.after, current)).map(change => change.path))
+        : new Set<string>();
+      
+      for (const change of changes) {
+        if (modifiedSince.has(change.path)) {
+          result.skipped.push({ path: change.path, reason: '実行後にさらに変更されています' });
+          continue;
+        }
+        try {
+          if (change.status === 'added') {
+            await Deno.remove(change.path).catch((error) => {
+              if (!(error instanceof Deno.errors.NotFound)) throw error;
+            });
+          } else {
+            await gitOutput(root, ["restore", `--source=${before}`, "--worktree", "--", change.relativePath]);
+          }
+          // ステージされていた状態も実行前に戻す
+          await gitOutput(root, ["reset", "--quiet", state.index, "--", change.relativePath]);
+          result.reverted.push(change.path);
+        } catch (error) {
+          result.skipped.push({ path: change.path, reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      
+      if (await resolveHead(root) !== state.head) {
+        result.warning = '実行後にHEADが移動しています（コミット等）。ファイルの内容のみ元に戻したため、必要に応じて `/git` でHEADを戻してください。';
+      }
+      // 次の /undo で同じ実行を繰り返し戻さないようスナップショットを削除
+      await deleteCheckpointRefs(root, id);
+      return result;
+    }
+  };
+}
+
+// 作業ツリーのスナップショットを保存（gitリポジトリでない場合などはnull）
+export async function createCheckpoint(workDir: string, label: string): Promise<WorkTreeCheckpoint | null> {
+  try {
+    const root = await gitOutput(workDir, ["rev-parse", "--show-toplevel"]);
+    const head = await resolveHead(root);
+    const parents = head ? [head] : [];
+    const subject = label.split('\n')[0].substring(0, 200);
+    // マージの途中などインデックスをツリーにできない場合は例外になる
+    const index = await commitTree(root, await gitOutput(root, ["write-tree"]), parents, `claude-discord: index ${subject}`);
+    const before = await commitTree(root, await writeWorkTreeTree(root), parents, `claude-discord: ${subject}`);
+    
+    const id = `${Date.now()}-${crypto.randomUUID().substring(0, 8)}`;
+    const ref = (name: string) => `${CHECKPOINT_REF_PREFIX}/${id}/${name}`;
+    await gitOutput(root, ["update-ref", ref("before"), before]);
+    await gitOutput(root, ["update-ref", ref("index"), index]);
+    await pruneCheckpoints(root);
+    
+    return checkpointFromState({ root, id, label: subject, before, index, head, after: null });
+  } catch (error) {
+    console.warn(`作業ツリーのスナップショットを保存できませんでした (${workDir}):`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// 保存されている最新のスナップショット（直前の実行）
+export async function getLatestCheckpoint(workDir: string): Promise<WorkTreeCheckpoint | null> {
+  const root = await gitOutput(workDir, ["rev-parse", "--show-toplevel"]);
+  for (const id of await listCheckpointIds(root)) {
+    const ref = (name: string) => `${CHECKPOINT_REF_PREFIX}/${id}/${name}`;
+    const before = await readRef(root, ref("before"));
+    const index = await readRef(root, ref("index"));
+    if (!before || !index) continue;
+    return checkpointFromState({
+      root,
+      id,
+      label: (await gitOutput(root, ["log", "-1", "--format=%s", before])).replace(/^claude-discord: /, ''),
+      before,
+      index,
+      // 実行前のHEAD（コミットがなかった場合は親がない）
+      head: await readRef(root, `${before}^`),
+      after: await readRef(root, ref("after"))
+    });
+  }
+  return null;
+}
+
+// 現在のインデックスをツリーとして保存（ステージを取り消す時に戻す）
+export async function saveIndex(workDir: string): Promise<string> {
+  return await gitOutput(workDir, ["write-tree"]);
+}
+
+export async function restoreIndex(workDir: string, tree: string): Promise<void> {
+  await gitOutput(workDir, ["read-tree", tree]);
+}
+
+// 変更をステージ（ファイルを指定しない場合はすべて）
+export async function stageChanges(workDir: string, files?: string[]): Promise<void> {
+  const root = await gitOutput(workDir, ["rev-parse", "--show-toplevel"]);
+  const paths = files ? files.map(file => resolve(root, file).substring(root.length + 1)) : ["."];
+  await gitOutput(root, ["add", "--all", "--", ...paths]);
+}
+
+// ステージされているファイル
+export async function getStagedFiles(workDir: string): Promise<string[]> {
+  return (await gitOutput(workDir, ["diff", "--cached", "--name-only"])).split('\n').filter(Boolean);
+}
+
+// ステージされた変更（なければnull）
+export async function getStagedChanges(workDir: string): Promise<StagedChanges | null> {
+  const stat = await gitOutput(workDir, ["diff", "--cached", "--stat"]);
+  if (!stat) return null;
+  return { stat, diff: await gitOutput(workDir, ["diff", "--cached"]) };
+}
+
+// 確認したツリーをそのままコミット（インデックスは使わないため、確認後のステージの変更は含まれない）
+// 確認後にHEADが変わっていた場合はブランチを更新せずに失敗する
+// git commit を使わないため、pre-commit・commit-msg 等のフックは実行されない
+export async function commitReviewedTree(workDir: string, tree: string, head: string | null, message: string): Promise<CommitResult> {
+  const commit = await gitOutput(workDir, ["commit-tree", tree, ...(head ? ["-p", head] : []), "-m", message]);
+  await gitOutput(workDir, ["update-ref", "-m", `commit: ${message.split('\n')[0]}`, "HEAD", commit, head ?? ""]);
+  return {
+    hash: await gitOutput(workDir, ["rev-parse", "--short", commit]),
+    output: commit
+  };
+}
+
+// git commit で実行されるフック
+const COMMIT_HOOKS = ["pre-commit", "prepare-commit-msg", "commit-msg", "post-commit"];
+
+// リポジトリに設定されているコミットのフック（core.hooksPath も考慮）
+export async function getCommitHooks(workDir: string): Promise<string[]> {
+  const hooksDir = resolve(workDir, await gitOutput(workDir, ["rev-parse", "--git-path", "hooks"]));
+  const hooks: string[] = [];
+  for (const name of COMMIT_HOOKS) {
+    try {
+      const info = await Deno.stat(`${hooksDir}/${name}`);
+      // gitは実行権限のないフックを無視する
+      if (info.isFile && (info.mode ?? 0) & 0o111) hooks.push(name);
+    } catch {
+      // 存在しない
+    }
+  }
+  return hooks;
+}
+
+// 最近のコミットの件名（コミットメッセージの書き方を合わせるため）
+export async function getRecentCommitSubjects(workDir: string, count = 10): Promise<string[]> {
+  const result = await runGit(workDir, ["log", `-${count}`, "--format=%s"]);
+  return result.success ? result.stdout.split('\n').filter(Boolean) : [];
+}
+
+export async function getCurrentBranch(workDir: string): Promise<string> {
+  const branch = await gitOutput(workDir, ["branch", "--show-current"]);
+  if (!branch) {
+    throw new Error("ブランチがチェックアウトされていません（detached HEAD）");
+  }
+  return branch;
+}
+
+// リモートのデフォルトブランチ（取得できない場合はmain）
+export async function getDefaultBaseBranch(workDir: string, remote = "origin"): Promise<string> {
+  const result = await runGit(workDir, ["symbolic-ref", "--short", `refs/remotes/${remote}/HEAD`]);
+  return result.success ? result.stdout.trim().replace(`${remote}/`, '') : "main";
+}
+
+// ベースブランチから分岐した後のコミットと変更（リモートのベースブランチがあればそれと比較）
+export async function getBranchChanges(workDir: string, base: string, remote = "origin"): Promise<BranchChanges> {
+  const remoteBase = `${remote}/${base}`;
+  const baseRef = await readRef(workDir, `refs/remotes/${remoteBase}`) ? remoteBase : base;
+  if (!await readRef(workDir, baseRef)) {
+    throw new Error(`ベースブランチ「${base}」が見つかりません`);
+  }
+  return {
+    commits: (await gitOutput(workDir, ["log", "--reverse", "--format=%s", `${baseRef}..HEAD`])).split('\n').filter(Boolean),
+    stat: await gitOutput(workDir, ["diff", "--stat", `${baseRef}...HEAD`]),
+    diff: await gitOutput(workDir, ["diff", `${baseRef}...HEAD`])
+  };
+}
+
+// ブランチをリモートにプッシュ（上流ブランチも設定）
+export async function pushBranch(workDir: string, branch: string, remote = "origin"): Promise<string> {
+  const result = await runGit(workDir, ["push", "--set-upstream", remote, branch]);
+  if (!result.success) {
+    throw new Error(result.stderr.trim() || "git push に失敗しました");
+  }
+  // 進捗はstderrに出力される
+  return (result.stdout + result.stderr).trim();
+}
+
+// git status --porcelain=v2 の変更の種類
+const STATUS_CODES: Record<string, GitStatusEntry['status']> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'typechange'
+};
+
+// git status --porcelain=v2 --branch -z の出力を解析
+export function parseStatus(output: string): Omit<GitStatus, 'remotes' | 'recentCommits' | 'diffStat'> {
+  const status: Omit<GitStatus, 'remotes' | 'recentCommits' | 'diffStat'> = {
+    branch: null, upstream: null, ahead: 0, behind: 0, staged: [], unstaged: [], untracked: [], conflicted: []
+  };
+  const records = output.split('\0');
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const fields = record.split(' ');
+    switch (fields[0]) {
+      case '#': {
+        const value = fields.slice(2).join(' ');
+        if (fields[1] === 'branch.head' && value !== '(detached)') status.branch = value;
+        if (fields[1] === 'branch.upstream') status.upstream = value;
+        if (fields[1] === 'branch.ab') {
+          status.ahead = Math.abs(parseInt(fields[2], 10)) || 0;
+          status.behind = Math.abs(parseInt(fields[3], 10)) || 0;
+        }
+        break;
+      }
+      case '1':
+      case '2': {
+        // 2は名前の変更・コピーで、パスの後に変更元のパスが続く
+        const path = fields.slice(fields[0] === '1' ? 8 : 9).join(' ');
+        const origPath = fields[0] === '2' ? records[++i] : undefined;
+        const [indexCode, workTreeCode] = fields[1];
+        if (STATUS_CODES[indexCode]) {
+          status.staged.push({ path, status: STATUS_CODES[indexCode], ...(origPath && { origPath }) });
+        }
+        if (STATUS_CODES[workTreeCode]) {
+          status.unstaged.push({ path, status: STATUS_CODES[workTreeCode] });
+        }
+        break;
+      }
+      case 'u':
+        status.conflicted.push(fields.slice(10).join(' '));
+        break;
+      case '?':
+        status.untracked.push(record.substring(2));
+        break;
+    }
+  }
+  return status;
+}
+
+// git diff --numstat -z --no-renames の出力を解析
+function parseNumstat(output: string): DiffStatEntry[] {
+  return output.split('\0').filter(Boolean).map(record => {
+    const [added, deleted, ...path] = record.split('\t');
+    return {
+      path: path.join('\t'),
+      added: added === '-' ? null : parseInt(added, 10),
+      deleted: deleted === '-' ? null : parseInt(deleted, 10)
+    };
+  });
+}
+
+// コミットの各項目は制御文字で区切って出力させる（件名に区切り文字が含まれないように）
+const COMMIT_FORMAT = "--format=%H%x1f%h%x1f%an%x1f%aI%x1f%s%x1e";
+
+function parseCommits(output: string): CommitInfo[] {
+  return output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+    const [hash, shortHash, author, date, subject] = record.split('\x1f');
+    return { hash, shortHash, author, date, subject };
+  });
+}
+
+// コミットがまだない場合はステージした変更のみ（空のツリーとの比較）
+async function diffBase(workDir: string): Promise<string[]> {
+  return await resolveHead(workDir) ? ["HEAD"] : ["--cached"];
+}
+
+export async function getGitStatus(workDir: string, commitCount = 5): Promise<GitStatus> {
+  const status = parseStatus(await gitOutput(workDir, ["status", "--porcelain=v2", "--branch", "-z"]));
+
+  const remotes: GitRemote[] = [];
+  for (const line of (await gitOutput(workDir, ["remote", "-v"])).split('\n')) {
+    const match = line.match(/^(\S+)\t(.+) \(fetch\)$/);
+    if (match) remotes.push({ name: match[1], url: match[2] });
+  }
+
+  const hasHead = await resolveHead(workDir) !== null;
+  const recentCommits = hasHead ? parseCommits(await gitOutput(workDir, ["log", "-n", String(commitCount), COMMIT_FORMAT])) : [];
+  const diffStat = parseNumstat(await gitOutput(workDir, ["diff", hasHead ? "HEAD" : "--cached", "--numstat", "-z", "--no-renames"]));
+
+  return { ...status, remotes, recentCommits, diffStat };
+}
+
+// 未コミットの変更のdiff（stagedの場合はステージした変更のみ）
+export async function getDiff(workDir: string, options: { path?: string; staged?: boolean } = {}): Promise<DiffResult> {
+  const base = options.staged ? ["--cached"] : await diffBase(workDir);
+  const paths = options.path ? ["--", options.path] : [];
+  return {
+    diff: await gitOutput(workDir, ["diff", ...base, "--no-color", ...paths]),
+    stat: parseNumstat(await gitOutput(workDir, ["diff", ...base, "--numstat", "-z", "--no-renames", ...paths]))
+  };
+}
+
+export async function getLog(workDir: string, count: number, path?: string): Promise<CommitInfo[]> {
+  if (!await resolveHead(workDir)) return [];
+  return parseCommits(await gitOutput(workDir, ["log", "-n", String(count), COMMIT_FORMAT, ...(path ? ["--", path] : [])]));
+}
+
+// 行範囲を指定しない場合はファイル全体
+export async function getBlame(workDir: string, path: string, range: { start?: number; end?: number } = {}): Promise<string> {
+  const lineRange = range.start || range.end ? ["-L", `${range.start ?? 1},${range.end ?? ''}`] : [];
+  return await gitOutput(workDir, ["blame", "--date=short", ...lineRange, "--", path]);
+}
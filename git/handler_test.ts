@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { parseStatus } from "./handler.ts";
+
+Deno.test("git status --porcelain=v2 のブランチ情報を解析する", () => {
+  const status = parseStatus([
+    '# branch.oid 0123456789abcdef0123456789abcdef01234567',
+    '# branch.head feature/login',
+    '# branch.upstream origin/feature/login',
+    '# branch.ab +2 -1',
+    ''
+  ].join('\0'));
+  assert.equal(status.branch, 'feature/login');
+  assert.equal(status.upstream, 'origin/feature/login');
+  assert.equal(status.ahead, 2);
+  assert.equal(status.behind, 1);
+});
+
+Deno.test("detached HEADの場合はブランチがない", () => {
+  const status = parseStatus('# branch.oid abc\0# branch.head (detached)\0');
+  assert.equal(status.branch, null);
+  assert.equal(status.upstream, null);
+});
+
+Deno.test("ステージ済み・未ステージ・未追跡・競合の変更を分けて解析する", () => {
+  const status = parseStatus([
+    '1 M. N... 100644 100644 100644 aaa bbb src/staged.ts',
+    '1 .M N... 100644 100644 100644 aaa aaa src/with space.ts',
+    '1 AD N... 000000 100644 000000 000 ccc added-then-deleted.ts',
+    '2 R. N... 100644 100644 100644 aaa aaa R100 new name.ts',
+    'old name.ts',
+    'u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts',
+    '? untracked file.txt',
+    ''
+  ].join('\0'));
+
+  assert.deepEqual(status.staged, [
+    { path: 'src/staged.ts', status: 'modified' },
+    { path: 'added-then-deleted.ts', status: 'added' },
+    { path: 'new name.ts', status: 'renamed', origPath: 'old name.ts' }
+  ]);
+  assert.deepEqual(status.unstaged, [
+    { path: 'src/with space.ts', status: 'modified' },
+    { path: 'added-then-deleted.ts', status: 'deleted' }
+  ]);
+  assert.deepEqual(status.untracked, ['untracked file.txt']);
+  assert.deepEqual(status.conflicted, ['conflict.ts']);
+});
+
+Deno.test("変更がない場合は空のリスト", () => {
+  const status = parseStatus('# branch.head main\0');
+  assert.deepEqual(
+    [status.staged, status.unstaged, status.untracked, status.conflicted],
+    [[], [], [], []]
+  );
+  assert.equal(status.ahead, 0);
+});
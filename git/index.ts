@@ -1,3 +1,5 @@
 export * from "./types.ts";
 export * from "./handler.ts";
-export { gitCommands, createGitHandlers, type GitHandlerDeps } from "./command.ts";
\ No newline at end of file
+export { gitCommands, createGitHandlers, type GitHandlerDeps } from "./command.ts";
+export { checkGitCommand, parseGitArgs, parseGitCommandList, getDestructiveReason, DEFAULT_ALLOWED_GIT_COMMANDS, DEFAULT_DENIED_GIT_COMMANDS, DEFAULT_GIT_COMMAND_POLICY, type GitCommandPolicy, type GitCommandCheck } from "./policy.ts";
+export { createPullRequestProvider, createGitHubProvider, createDryRunProvider, PULL_REQUEST_PROVIDER_NAMES } from "./pr.ts";
\ No newline at end of file
@@ -0,0 +1,206 @@
+// /git で実行できるサブコマンドの制限と、確認が必要な操作の判定
+
+export interface GitCommandPolicy {
+  // 実行できるサブコマンド（nullの場合は拒否リスト以外すべて）
+  allowed: string[] | null;
+  // 実行できないサブコマンド（許可リストより優先）
+  denied: string[];
+}
+
+export type GitCommandCheck =
+  | { allowed: true; args: string[]; destructive: string | null }
+  | { allowed: false; reason: string };
+
+// 参照・日常的な操作のみ許可（GIT_ALLOWED_COMMANDS で変更可能）
+export const DEFAULT_ALLOWED_GIT_COMMANDS = [
+  'status', 'log', 'show', 'diff', 'blame', 'shortlog', 'describe', 'reflog', 'grep', 'ls-files', 'rev-parse',
+  'branch', 'tag', 'checkout', 'switch', 'restore', 'add', 'rm', 'mv', 'commit', 'stash', 'reset', 'clean',
+  'merge', 'rebase', 'cherry-pick', 'revert', 'fetch', 'pull', 'push', 'remote'
+];
+
+// 任意のコマンドの実行やリポジトリの設定・履歴の書き換えにつながるもの（GIT_DENIED_COMMANDS で変更可能）
+export const DEFAULT_DENIED_GIT_COMMANDS = [
+  'config', 'filter-branch', 'filter-repo', 'update-ref', 'gc', 'prune', 'daemon', 'credential', 'submodule', 'archive'
+];
+
+export const DEFAULT_GIT_COMMAND_POLICY: GitCommandPolicy = {
+  allowed: DEFAULT_ALLOWED_GIT_COMMANDS,
+  denied: DEFAULT_DENIED_GIT_COMMANDS
+};
+
+// 外部コマンドを実行させられるオプション
+const UNSAFE_OPTIONS = ['--upload-pack', '--receive-pack', '--exec', '--ext-diff', '--textconv', '--open-files-in-pager'];
+
+// シェルと同じ規則で引数に分割（クォートとバックスラッシュのみ対応し、変数展開等は行わない）
+export function parseGitArgs(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+        current += command[++i];
+      } else if (char === '`' || (char === '$' && command[i + 1] === '(')) {
+        throw new Error('コマンド置換は使えません');
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inArg = true;
+    } else if (char === '\\') {
+      if (i + 1 < command.length) current += command[++i];
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) args.push(current);
+      current = '';
+      inArg = false;
+    } else if (char === '`' || (char === '$' && command[i + 1] === '(')) {
+      throw new Error('コマンド置換は使えません');
+    } else if ('|&;<>'.includes(char)) {
+      // パイプ・リダイレクト等はgitにそのまま渡すと意図と違う動作になる
+      throw new Error(`シェルの構文（\`${char}\`）は使えません。コマンドはシェルを経由せずに実行されます`);
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`クォート（${quote}）が閉じられていません`);
+  }
+  if (inArg) args.push(current);
+  return args;
+}
+
+// 短いオプション（-fdx のようにまとめた形も含む）か長いオプションが指定されているか
+function hasOption(args: string[], short: string | null, long: string[]): boolean {
+  for (const arg of args) {
+    if (arg === '--') break;
+    if (long.some(option => arg === option || arg.startsWith(`${option}=`))) return true;
+    if (short && /^-[a-zA-Z]+$/.test(arg) && arg.includes(short)) return true;
+  }
+  return false;
+}
+
+// checkout の引数のうち、値を取るオプションの値を除いた位置引数（-- 以降はパス）
+function checkoutOperands(args: string[]): { operands: string[]; paths: boolean } {
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--' || arg.startsWith('--pathspec-from-file')) return { operands, paths: true };
+    if (['-b', '-B', '--orphan', '--conflict'].includes(arg)) {
+      i++;
+    } else if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+    }
+  }
+  return { operands, paths: false };
+}
+
+// ブランチ・タグ・コミットとして解釈できるか（refsはリポジトリの参照名、不明な場合はパスらしいもの以外をブランチとみなす）
+function isRevision(arg: string, refs?: ReadonlySet<string>): boolean {
+  if (arg === '-' || /^@\{-\d+\}$/.test(arg) || /^[0-9a-f]{7,40}$/.test(arg)) return true;
+  const name = arg.replace(/([~^]\d*)+$/, '');
+  if (name === 'HEAD' || name === '@') return true;
+  if (!refs) return !/^\.{1,2}(\/|$)|^:|[*?[]/.test(arg);
+  // リモートのブランチ名のみ指定した場合は追跡ブランチが作成される
+  return refs.has(name) || [...refs].some(ref => ref.endsWith(`/${name}`));
+}
+
+// 元に戻せない変更を行う場合はその内容（確認ボタンを表示する）
+// refs はリポジトリのブランチ・タグ名（checkout の引数がブランチかパスかの判定に使う）
+export function getDestructiveReason(args: string[], refs?: ReadonlySet<string>): string | null {
+  const [subcommand, ...rest] = args;
+  switch (subcommand) {
+    case 'push':
+      if (hasOption(rest, 'f', ['--force', '--force-with-lease', '--mirror']) || rest.some(arg => /^\+/.test(arg))) {
+        return 'リモートのブランチを強制的に上書きします';
+      }
+      if (hasOption(rest, 'd', ['--delete', '--prune']) || rest.some(arg => arg.startsWith(':'))) {
+        return 'リモートのブランチを削除します';
+      }
+      return null;
+    case 'reset':
+      return hasOption(rest, null, ['--hard', '--merge', '--keep']) ? 'コミットされていない変更が失われます' : null;
+    case 'clean':
+      return hasOption(rest, 'f', ['--force']) && !hasOption(rest, 'n', ['--dry-run'])
+        ? '未追跡のファイルを削除します'
+        : null;
+    case 'checkout':
+    case 'switch': {
+      if (hasOption(rest, 'f', ['--force', '--discard-changes'])) return 'コミットされていない変更が失われます';
+      if (subcommand === 'switch') return null;
+      // ブランチ（-b 等では開始点）以外の引数はパスとして扱われ、そのファイルの変更が失われる
+      const { operands, paths } = checkoutOperands(rest);
+      const [target, ...others] = operands;
+      return paths || others.length > 0 || (target !== undefined && !isRevision(target, refs))
+        ? 'ファイルの変更が失われます'
+        : null;
+    }
+    case 'restore':
+      // --staged のみの場合は作業ツリーを変更しない
+      return hasOption(rest, 'S', ['--staged']) && !hasOption(rest, 'W', ['--worktree']) ? null : 'ファイルの変更が失われます';
+    case 'branch':
+      if (hasOption(rest, 'D', []) || (hasOption(rest, 'd', ['--delete']) && hasOption(rest, 'f', ['--force']))) {
+        return 'マージされていないブランチを削除します';
+      }
+      // -M / -C は同名の既存のブランチを上書きする
+      return hasOption(rest, 'M', []) || hasOption(rest, 'C', []) || (hasOption(rest, 'm', ['--move']) && hasOption(rest, 'f', ['--force'])) || (hasOption(rest, 'c', ['--copy']) && hasOption(rest, 'f', ['--force']))
+        ? '同名の既存のブランチを上書きします'
+        : null;
+    case 'stash':
+      return rest[0] === 'drop' || rest[0] === 'clear' ? 'スタッシュを削除します' : null;
+    default:
+      return null;
+  }
+}
+
+// /git のコマンド文字列を解析し、ポリシーで実行できるか確認
+export function checkGitCommand(command: string, policy: GitCommandPolicy = DEFAULT_GIT_COMMAND_POLICY, refs?: ReadonlySet<string>): GitCommandCheck {
+  let args: string[];
+  try {
+    args = parseGitArgs(command);
+  } catch (error) {
+    return { allowed: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+  // 「git status」のように先頭にgitを付けた場合も受け付ける
+  if (args[0] === 'git') args = args.slice(1);
+
+  const [subcommand] = args;
+  if (!subcommand) {
+    return { allowed: false, reason: 'サブコマンドを指定してください' };
+  }
+  if (subcommand.startsWith('-')) {
+    return { allowed: false, reason: 'サブコマンドの前のオプション（-c, -C 等）は使えません' };
+  }
+  if (policy.denied.includes(subcommand) || (policy.allowed && !policy.allowed.includes(subcommand))) {
+    return { allowed: false, reason: `\`git ${subcommand}\` は許可されていません` };
+  }
+
+  const unsafe = args.find(arg =>
+    UNSAFE_OPTIONS.some(option => arg === option || arg.startsWith(`${option}=`)) ||
+    // git grep -O<pager> は --open-files-in-pager、git rebase -x <cmd> は --exec の短い形
+    (subcommand === 'grep' && /^-[a-zA-Z]*O/.test(arg)) ||
+    (subcommand === 'rebase' && /^-[a-zA-Z]*x/.test(arg))
+  );
+  if (unsafe) {
+    return { allowed: false, reason: `オプション \`${unsafe.split('=')[0]}\` は使えません` };
+  }
+
+  return { allowed: true, args, destructive: getDestructiveReason(args, refs) };
+}
+
+// カンマ区切りのサブコマンドのリスト（「*」の場合はnull = すべて）
+export function parseGitCommandList(value: string): string[] | null {
+  const names = value.split(',').map(name => name.trim()).filter(Boolean);
+  return names.includes('*') ? null : names;
+}
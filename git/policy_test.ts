@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { checkGitCommand, getDestructiveReason, parseGitArgs, parseGitCommandList, DEFAULT_GIT_COMMAND_POLICY } from "./policy.ts";
+
+const REFS = new Set(['main', 'feature/login', 'origin/main', 'origin/remote-only', 'v1.0']);
+
+function destructive(command: string): boolean {
+  return getDestructiveReason(parseGitArgs(command), REFS) !== null;
+}
+
+Deno.test("シェルと同じ規則で引数に分割する", () => {
+  assert.deepEqual(parseGitArgs(`commit -m "fix: a \\"b\\""`), ['commit', '-m', 'fix: a "b"']);
+  assert.deepEqual(parseGitArgs(`log --format='%h %s'  -- src\\ dir`), ['log', '--format=%h %s', '--', 'src dir']);
+  assert.throws(() => parseGitArgs('status | cat'), /シェルの構文/);
+  assert.throws(() => parseGitArgs('log $(id)'), /コマンド置換/);
+  assert.throws(() => parseGitArgs(`log "abc`), /閉じられていません/);
+});
+
+Deno.test("許可リスト・拒否リストと危険なオプションで制限する", () => {
+  assert.equal(checkGitCommand('git status').allowed, true);
+  assert.equal(checkGitCommand('config user.name x').allowed, false);
+  assert.equal(checkGitCommand('-c core.pager=id log').allowed, false);
+  assert.equal(checkGitCommand('fetch --upload-pack=id origin').allowed, false);
+  assert.equal(checkGitCommand('grep -Oid foo').allowed, false);
+  assert.equal(checkGitCommand('rebase -x id main').allowed, false);
+  assert.equal(checkGitCommand('').allowed, false);
+
+  const policy = { ...DEFAULT_GIT_COMMAND_POLICY, allowed: null };
+  assert.equal(checkGitCommand('bisect start', policy).allowed, true);
+  assert.equal(checkGitCommand('gc', policy).allowed, false);
+});
+
+Deno.test("元に戻せない操作を検出する", () => {
+  for (const command of [
+    'push --force origin main',
+    'push origin +main',
+    'push origin :old-branch',
+    'reset --hard HEAD~1',
+    'clean -fd',
+    'checkout -f main',
+    'switch --discard-changes main',
+    'restore src/a.ts',
+    'branch -D old',
+    'branch -d -f old',
+    'stash drop',
+  ]) {
+    assert.equal(destructive(command), true, command);
+  }
+  for (const command of [
+    'push origin main',
+    'reset HEAD~1',
+    'clean -n',
+    'restore --staged src/a.ts',
+    'branch -d old',
+    'branch -m old new',
+    'stash list',
+  ]) {
+    assert.equal(destructive(command), false, command);
+  }
+});
+
+Deno.test("checkout でブランチ以外を指定した場合はファイルの変更が失われる", () => {
+  for (const command of [
+    'checkout .',
+    'checkout src/file.ts',
+    'checkout -- src/file.ts',
+    'checkout main -- src/file.ts',
+    'checkout main src/file.ts',
+    'checkout --pathspec-from-file=paths.txt',
+  ]) {
+    assert.equal(destructive(command), true, command);
+  }
+  for (const command of [
+    'checkout main',
+    'checkout feature/login',
+    'checkout v1.0',
+    'checkout remote-only',
+    'checkout -',
+    'checkout HEAD~2',
+    'checkout 1a2b3c4',
+    'checkout -b new',
+    'checkout -b new origin/main',
+  ]) {
+    assert.equal(destructive(command), false, command);
+  }
+  // 参照の一覧がない場合はパスらしいもののみ
+  assert.notEqual(getDestructiveReason(['checkout', '.']), null);
+  assert.equal(getDestructiveReason(['checkout', 'main']), null);
+});
+
+Deno.test("branch -M / -C は既存のブランチを上書きする", () => {
+  assert.equal(destructive('branch -M old new'), true);
+  assert.equal(destructive('branch -C old new'), true);
+  assert.equal(destructive('branch -m -f old new'), true);
+  assert.equal(destructive('branch --copy --force old new'), true);
+  assert.equal(destructive('branch -c old new'), false);
+});
+
+Deno.test("カンマ区切りのサブコマンドのリストを解析する", () => {
+  assert.deepEqual(parseGitCommandList(' status, log ,,diff'), ['status', 'log', 'diff']);
+  assert.equal(parseGitCommandList('status,*'), null);
+});
@@ -0,0 +1,62 @@
+import { pushBranch } from "./handler.ts";
+import type { PullRequestDraft, PullRequestProvider, PullRequestResult } from "./types.ts";
+
+// GitHub: git pushでプッシュし、GitHub CLI（gh）でPRを作成
+export function createGitHubProvider(): PullRequestProvider {
+  return {
+    name: 'github',
+
+    async push(workDir: string, branch: string): Promise<string> {
+      return await pushBranch(workDir, branch);
+    },
+
+    async createPullRequest(workDir: string, draft: PullRequestDraft): Promise<PullRequestResult> {
+      let output: Deno.CommandOutput;
+      try {
+        output = await new Deno.Command("gh", {
+          args: ["pr", "create", "--title", draft.title, "--body", draft.body, "--base", draft.base, "--head", draft.head],
+          cwd: workDir,
+          env: { GH_PROMPT_DISABLED: '1' },
+          stdout: "piped",
+          stderr: "piped",
+        }).output();
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          throw new Error("GitHub CLI（gh）が見つかりません。インストールして `gh auth login` でログインしてください");
+        }
+        throw error;
+      }
+
+      const decoder = new TextDecoder();
+      if (!output.success) {
+        throw new Error(decoder.decode(output.stderr).trim() || "gh pr create に失敗しました");
+      }
+      // 作成したPRのURLが最後の行に出力される
+      const url = decoder.decode(output.stdout).trim().split('\n').pop();
+      return { url, message: 'PRを作成しました' };
+    }
+  };
+}
+
+// リモートに接続せず、プッシュとPRの作成を行わない（ローカルでの動作確認用）
+export function createDryRunProvider(): PullRequestProvider {
+  return {
+    name: 'dry-run',
+    push: (_workDir, branch) => Promise.resolve(`dry-run: ${branch} はプッシュされていません`),
+    createPullRequest: (_workDir, draft) => Promise.resolve({
+      message: `dry-run: PRは作成されていません（${draft.head} → ${draft.base}）`
+    })
+  };
+}
+
+const PULL_REQUEST_PROVIDERS: Record<string, () => PullRequestProvider> = {
+  github: createGitHubProvider,
+  'dry-run': createDryRunProvider
+};
+
+export const PULL_REQUEST_PROVIDER_NAMES = Object.keys(PULL_REQUEST_PROVIDERS);
+
+// 名前からプロバイダーを作成（不明な名前はnull）
+export function createPullRequestProvider(name: string): PullRequestProvider | null {
+  return PULL_REQUEST_PROVIDERS[name.trim().toLowerCase()]?.() ?? null;
+}
@@ -3,6 +3,12 @@ export interface GitInfo {
   branch: string;
 }
 
+export interface GitCommandResult {
+  success: boolean;
+  // 標準出力（失敗した場合はエラーメッセージ）
+  output: string;
+}
+
 export interface WorktreeResult {
   result: string;
   fullPath: string;
@@ -15,8 +21,143 @@ export interface WorktreeListResult {
   baseDir: string;
 }
 
+// git status の1ファイル分（ステージ済み・未ステージの変更）
+export interface GitStatusEntry {
+  // リポジトリのルートからの相対パス
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'typechange';
+  // 名前の変更・コピー元
+  origPath?: string;
+}
+
+export interface GitRemote {
+  name: string;
+  url: string;
+}
+
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  // ISO 8601形式の作成日時
+  date: string;
+  subject: string;
+}
+
+// ファイルごとの追加・削除行数（バイナリファイルはnull）
+export interface DiffStatEntry {
+  path: string;
+  added: number | null;
+  deleted: number | null;
+}
+
 export interface GitStatus {
-  status: string;
-  branch: string;
-  remote: string;
-}
\ No newline at end of file
+  // detached HEADの場合はnull
+  branch: string | null;
+  // 上流ブランチ（設定されていない場合はnull）
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitStatusEntry[];
+  unstaged: GitStatusEntry[];
+  untracked: string[];
+  // マージの競合中のファイル
+  conflicted: string[];
+  remotes: GitRemote[];
+  recentCommits: CommitInfo[];
+  // HEADからの変更（ステージ済み・未ステージの両方、未追跡のファイルは含まない）
+  diffStat: DiffStatEntry[];
+}
+
+// スナップショットから変更されたファイル
+export interface FileChange {
+  // 絶対パス
+  path: string;
+  // リポジトリのルートからの相対パス
+  relativePath: string;
+  status: 'added' | 'modified' | 'deleted';
+}
+
+// 作業ツリーのファイルを元に戻した結果
+export interface RevertResult {
+  // 元に戻したファイル（絶対パス）
+  reverted: string[];
+  // 元に戻せなかったファイルと理由
+  skipped: Array<{ path: string; reason: string }>;
+  // 元に戻した後も注意が必要な点（実行中のコミット等）
+  warning?: string;
+}
+
+// Claude Codeの実行前後の作業ツリーのスナップショット
+// 実行前の状態はgitのrefとして保存されるため、ボットを再起動しても元に戻せる
+export interface WorkTreeCheckpoint {
+  id: string;
+  // 実行したプロンプト等
+  label: string;
+  createdAt: string;
+  // 実行後の状態を記録（記録するまでは現在の作業ツリーと比較する）
+  finish(): Promise<void>;
+  // 実行前から変更されたファイル
+  changedFiles(): Promise<FileChange[]>;
+  // 変更のunified diff（ファイルを指定しない場合はすべて）
+  diff(files?: string[]): Promise<string>;
+  // 変更されたファイルを実行前の内容に戻し、スナップショットを削除
+  revert(files?: string[]): Promise<RevertResult>;
+}
+
+export interface ChangesResult {
+  checkpoint: WorkTreeCheckpoint;
+  files: FileChange[];
+}
+
+export interface UndoResult {
+  success: boolean;
+  message?: string;
+  checkpoint?: WorkTreeCheckpoint;
+  result?: RevertResult;
+}
+
+export interface StagedChanges {
+  // git diff --cached --stat
+  stat: string;
+  diff: string;
+}
+
+export interface CommitResult {
+  // 短縮ハッシュ
+  hash: string;
+  output: string;
+}
+
+export interface BranchChanges {
+  // ベースブランチから分岐した後のコミットの件名（古い順）
+  commits: string[];
+  stat: string;
+  diff: string;
+}
+
+// PRの下書き（/pr で確認してから作成する）
+export interface PullRequestDraft {
+  title: string;
+  body: string;
+  // マージ先とマージ元のブランチ
+  base: string;
+  head: string;
+}
+
+export interface PullRequestResult {
+  url?: string;
+  message: string;
+}
+
+// リモートへのプッシュとPRの作成を行うプロバイダー（PR_PROVIDER で切り替え）
+export interface PullRequestProvider {
+  name: string;
+  push(workDir: string, branch: string): Promise<string>;
+  createPullRequest(workDir: string, draft: PullRequestDraft): Promise<PullRequestResult>;
+}
+
+export interface DiffResult {
+  diff: string;
+  stat: DiffStatEntry[];
+}
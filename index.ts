@@ -2,21 +2,30 @@
 
 import { 
   createDiscordBot, 
+  loadPermissionPolicy,
+  getChannelRoutes,
   type BotConfig,
+  type ChannelRoute,
+  type ChatPrompt,
+  type ChatPromptConfig,
+  type IncomingMessage,
   type InteractionContext,
+  type CommandHandler,
   type CommandHandlers,
+  type AutocompleteContext,
   type ButtonHandlers,
-  type BotDependencies
+  type BotDependencies,
+  type EmbedData
 } from "./discord/index.ts";
 
 import { ShellManager } from "./shell/index.ts";
 import { getGitInfo } from "./git/index.ts";
 
-import { createClaudeHandlers, claudeCommands, cleanSessionId, createClaudeSender, type DiscordSender } from "./claude/index.ts";
-import { createGitHandlers, gitCommands } from "./git/index.ts";
-import { createShellHandlers, shellCommands } from "./shell/index.ts";
-import { createUtilsHandlers, utilsCommands } from "./util/index.ts";
-import { ClaudeMessage } from "./claude/types.ts";
+import { createClaudeHandlers, claudeCommands, cleanSessionId, createClaudeSender, codeBlockOrAttachment, revertResultEmbed, DEFAULT_MESSAGE_FILTER, ClaudeSessionManager, ClaudeJobQueue, SessionRegistry, UsageLedger, type DiscordSender, type SessionRecord, type UsageTotals, type QueuedJob } from "./claude/index.ts";
+import { createGitHandlers, gitCommands, createCheckpoint, createPullRequestProvider, createGitHubProvider, PULL_REQUEST_PROVIDER_NAMES, DEFAULT_ALLOWED_GIT_COMMANDS, DEFAULT_DENIED_GIT_COMMANDS, parseGitCommandList, type FileChange, type GitStatus, type GitStatusEntry, type DiffStatEntry, type CommitInfo } from "./git/index.ts";
+import { createShellHandlers, shellCommands, isSpecialKey, SPECIAL_KEYS, loadShellCommandPolicy, DEFAULT_DANGEROUS_SHELL_PATTERNS, formatLimits, type ProcessUsage } from "./shell/index.ts";
+import { createUtilsHandlers, utilsCommands, parsePermissionMode, parseBudget, parseModelList, parseVerbosity, parseNotificationEvents, formatMention, formatDuration, shouldNotify, NOTIFICATION_EVENTS, SettingsStore, type BotSettings, type NotificationEvent } from "./util/index.ts";
+import { dirname, resolve } from "node:path";
 
 
 
@@ -50,49 +59,340 @@ function parseArgs(args: string[]): { category?: string; userId?: string } {
   return result;
 }
 
+// チャンネルと作業ディレクトリの対応をJSONファイルから読み込む
+// 形式: { "routes": [{ "workDir": "../repo", "channelId": "...", "channelName": "...", "categoryName": "..." }] }
+async function loadChannelRoutes(path: string): Promise<ChannelRoute[]> {
+  const data = JSON.parse(await Deno.readTextFile(path));
+  const entries = Array.isArray(data) ? data : data.routes;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`${path}: routes にチャンネルの設定がありません`);
+  }
+  
+  const baseDir = dirname(resolve(path));
+  const routes: ChannelRoute[] = [];
+  for (const entry of entries) {
+    if (typeof entry?.workDir !== 'string') {
+      throw new Error(`${path}: 各ルートに workDir を指定してください`);
+    }
+    // 相対パスは設定ファイルの場所を基準にする
+    const workDir = resolve(baseDir, entry.workDir);
+    if (routes.some(route => route.workDir === workDir)) {
+      throw new Error(`${path}: 作業ディレクトリ ${workDir} が重複しています`);
+    }
+    const gitInfo = await getGitInfo(workDir);
+    routes.push({
+      id: workDir,
+      workDir,
+      repoName: gitInfo.repo,
+      branchName: gitInfo.branch,
+      categoryName: typeof entry.categoryName === 'string' ? entry.categoryName : undefined,
+      channelId: typeof entry.channelId === 'string' ? entry.channelId : undefined,
+      channelName: typeof entry.channelName === 'string' ? entry.channelName : undefined
+    });
+  }
+  return routes;
+}
+
+// セッション記録を一覧表示用に整形
+function formatSessionRecord(record: SessionRecord): string {
+  const prompt = record.firstPrompt.replace(/\s+/g, ' ');
+  const lines = [
+    `ID: \`${record.sessionId}\``,
+    `最初のプロンプト: ${prompt.length > 100 ? prompt.substring(0, 97) + '...' : prompt}`,
+    `更新: <t:${Math.floor(new Date(record.updatedAt).getTime() / 1000)}:R> | 作成: <t:${Math.floor(new Date(record.createdAt).getTime() / 1000)}:f>`,
+    `コスト: $${record.totalCost.toFixed(4)} | モデル: ${record.model ?? '不明'} | ブランチ: ${record.branch}`
+  ];
+  if (record.threadId) {
+    lines.push(`スレッド: <#${record.threadId}>`);
+  }
+  return lines.join('\n');
+}
+
+function formatBudget(budget: number | null | undefined): string {
+  return budget === null || budget === undefined ? '無制限' : `$${budget.toFixed(2)}`;
+}
+
+function formatModel(model: string | null | undefined): string {
+  return model ?? 'デフォルト';
+}
+
+function formatFallbackModels(models: string[]): string {
+  return models.length > 0 ? models.join(' → ') : 'なし';
+}
+
+function formatMentionSetting(settings: BotSettings): string {
+  const mention = formatMention(settings);
+  return mention ? `有効 (${mention})` : '無効';
+}
+
+function formatQueuedJob(job: QueuedJob): string {
+  const prompt = job.prompt.replace(/\s+/g, ' ');
+  return [
+    `プロンプト: ${prompt.length > 100 ? prompt.substring(0, 97) + '...' : prompt}`,
+    `${job.userId ? `依頼者: <@${job.userId}> | ` : ''}スレッド: <#${job.threadId}> | 追加: <t:${Math.floor(new Date(job.enqueuedAt).getTime() / 1000)}:R>`
+  ].join('\n');
+}
+
+const FILE_CHANGE_EMOJIS: Record<FileChange['status'], string> = {
+  added: '🆕',
+  modified: '✏️',
+  deleted: '🗑️'
+};
+
+// 変更されたファイルを一覧表示用に整形（表示しきれない分は件数のみ）
+function formatFileChanges(files: FileChange[]): string {
+  return formatList(files.map(file => `${FILE_CHANGE_EMOJIS[file.status]} \`${file.relativePath}\``));
+}
+
+const GIT_STATUS_EMOJIS: Record<GitStatusEntry['status'], string> = {
+  added: '🆕',
+  modified: '✏️',
+  deleted: '🗑️',
+  renamed: '🔀',
+  copied: '📑',
+  typechange: '🔁'
+};
+
+// 一覧表示用に行をまとめる（フィールドの上限を超える分は件数のみ）
+function formatList(lines: string[], limit = 20): string {
+  if (lines.length === 0) return 'なし';
+  const listed = lines.slice(0, limit);
+  if (lines.length > limit) {
+    listed.push(`他 ${lines.length - limit} 件`);
+  }
+  return listed.join('\n').substring(0, 1024);
+}
+
+function formatStatusEntries(entries: GitStatusEntry[]): string {
+  return formatList(entries.map(entry =>
+    `${GIT_STATUS_EMOJIS[entry.status]} \`${entry.origPath ? `${entry.origPath} → ` : ''}${entry.path}\``
+  ), 10);
+}
+
+function formatDiffStat(stat: DiffStatEntry[], limit = 10): string {
+  return formatList(stat.map(({ path, added, deleted }) =>
+    added === null || deleted === null ? `\`${path}\` (バイナリ)` : `\`${path}\` +${added} -${deleted}`
+  ), limit);
+}
+
+function formatCommit(commit: CommitInfo): string {
+  const subject = commit.subject.length > 80 ? commit.subject.substring(0, 77) + '...' : commit.subject;
+  return `\`${commit.shortHash}\` ${subject} - ${commit.author} <t:${Math.floor(new Date(commit.date).getTime() / 1000)}:R>`;
+}
+
+// ブランチと上流ブランチとの差（コミット数）
+function formatBranch(status: GitStatus): string {
+  const branch = status.branch ?? '(detached HEAD)';
+  if (!status.upstream) return branch;
+  const ab = [status.ahead > 0 ? `↑${status.ahead}` : '', status.behind > 0 ? `↓${status.behind}` : ''].filter(Boolean).join(' ');
+  return `${branch} → ${status.upstream}${ab ? ` (${ab})` : ''}`;
+}
+
+function gitStatusEmbed(status: GitStatus): EmbedData {
+  const clean = status.staged.length + status.unstaged.length + status.untracked.length + status.conflicted.length === 0;
+  const totals = status.diffStat.reduce((sum, { added, deleted }) => ({ added: sum.added + (added ?? 0), deleted: sum.deleted + (deleted ?? 0) }), { added: 0, deleted: 0 });
+  return {
+    color: status.conflicted.length > 0 ? 0xff0000 : clean ? 0x00ff00 : 0xff9900,
+    title: '🌿 Git',
+    description: clean ? '作業ツリーに変更はありません。' : undefined,
+    fields: [
+      { name: 'ブランチ', value: formatBranch(status), inline: false },
+      ...(status.remotes.length > 0 ? [{ name: 'リモート', value: formatList(status.remotes.map(remote => `${remote.name}: ${remote.url}`), 5), inline: false }] : []),
+      ...(status.conflicted.length > 0 ? [{ name: `⚠️ 競合（${status.conflicted.length}件）`, value: formatList(status.conflicted.map(path => `\`${path}\``), 10), inline: false }] : []),
+      ...(status.staged.length > 0 ? [{ name: `ステージ済み（${status.staged.length}件）`, value: formatStatusEntries(status.staged), inline: false }] : []),
+      ...(status.unstaged.length > 0 ? [{ name: `未ステージ（${status.unstaged.length}件）`, value: formatStatusEntries(status.unstaged), inline: false }] : []),
+      ...(status.untracked.length > 0 ? [{ name: `未追跡（${status.untracked.length}件）`, value: formatList(status.untracked.map(path => `\`${path}\``), 10), inline: false }] : []),
+      ...(status.diffStat.length > 0 ? [{ name: `変更行数（+${totals.added} -${totals.deleted}）`, value: formatDiffStat(status.diffStat), inline: false }] : []),
+      { name: '最近のコミット', value: formatList(status.recentCommits.map(formatCommit)), inline: false }
+    ],
+    timestamp: true
+  };
+}
+
+function gitErrorEmbed(title: string, error: unknown): EmbedData {
+  return {
+    color: 0xff0000,
+    title,
+    fields: [{ name: 'エラー', value: `\`\`\`\n${(error instanceof Error ? error.message : String(error)).substring(0, 1000)}\n\`\`\``, inline: false }],
+    timestamp: true
+  };
+}
+
+function formatMemory(kb: number): string {
+  if (kb >= 1024 * 1024) return `${(kb / 1024 / 1024).toFixed(1)}GB`;
+  return kb >= 1024 ? `${(kb / 1024).toFixed(1)}MB` : `${kb}KB`;
+}
+
+function formatCpuTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+// /shell-list に表示するシェルプロセスと子孫のプロセスのリソース使用量
+function formatProcessTree(pid: number, tree: ProcessUsage[] | null): string {
+  if (tree === null) return 'リソース使用量: 取得できません';
+  const total = tree.reduce((sum, process) => ({ rssKb: sum.rssKb + process.rssKb, cpuSec: sum.cpuSec + process.cpuSec }), { rssKb: 0, cpuSec: 0 });
+  const children = tree.filter(process => process.pid !== pid);
+  const lines = [`PID ${pid} | メモリ ${formatMemory(total.rssKb)} | CPU時間 ${formatCpuTime(total.cpuSec)}（子プロセスを含む）`];
+  if (children.length > 0) {
+    const listed = children.slice(0, 8).map(process => `${process.pid} ${process.command} (${formatMemory(process.rssKb)})`);
+    lines.push(`子プロセス: ${listed.join(', ')}${children.length > listed.length ? ` 他 ${children.length - listed.length} 件` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+// 利用量の合計を表示用に整形
+function formatUsageTotals(totals: UsageTotals): string {
+  return [
+    `コスト: $${totals.cost.toFixed(4)} (${totals.runs}回)`,
+    `トークン: 入力 ${totals.inputTokens.toLocaleString()} / 出力 ${totals.outputTokens.toLocaleString()}`,
+    `実行時間: ${(totals.durationMs / 1000).toFixed(1)}s`
+  ].join('\n');
+}
+
+// レート制限時のフォールバック先（CLAUDE_FALLBACK_MODELS で変更可能）
+const DEFAULT_FALLBACK_MODEL = "claude-sonnet-4-20250514";
+
+// これより短い実行の完了はメンションしない（秒）
+const DEFAULT_NOTIFY_MIN_DURATION_SEC = 60;
+
+// チャットプロンプトのトリガーを環境変数から読み込む（空文字やoffでそのトリガーを無効化）
+function loadChatPromptConfig(): ChatPromptConfig {
+  const prefix = (name: string, defaultValue: string): string | null => {
+    const value = Deno.env.get(name)?.trim() ?? defaultValue;
+    return value && value.toLowerCase() !== 'off' ? value : null;
+  };
+  return {
+    prefix: prefix("CHAT_PROMPT_PREFIX", "!claude"),
+    continuePrefix: prefix("CHAT_CONTINUE_PREFIX", "!continue"),
+    mention: Deno.env.get("CHAT_PROMPT_MENTION")?.trim().toLowerCase() !== 'off'
+  };
+}
+
 // Re-export for backward compatibility
 export { getGitInfo, executeGitCommand } from "./git/index.ts";
 export { sendToClaudeCode } from "./claude/index.ts";
 
-// Claude Code Discord Botを作成
-export async function createClaudeCodeBot(config: BotConfig) {
-  const { discordToken, applicationId, workDir, repoName, branchName, categoryName, defaultMentionUserId } = config;
+// 1つのチャンネル（作業ディレクトリ）を担当するハンドラー一式
+interface Workspace {
+  route: ChannelRoute;
+  handlers: CommandHandlers;
+  onThreadMessage(message: IncomingMessage): Promise<void>;
+  isSessionThread(threadId: string): boolean;
+  onChatPrompt(ctx: InteractionContext, prompt: ChatPrompt): Promise<void>;
+  onThreadClosed(threadId: string): Promise<void>;
+  // シェルプロセスとClaude Codeセッションを停止
+  stop(): Promise<void>;
+  sendShutdownNotice(signal: string): Promise<void>;
+}
+
+// ルートの作業ディレクトリ用のハンドラーを作成
+async function createWorkspace(
+  config: BotConfig,
+  route: ChannelRoute,
+  buttonHandlers: ButtonHandlers,
+  // deno-lint-ignore no-explicit-any
+  getBot: () => any,
+  // /shutdown ですべてのワークスペースを停止する
+  stopAll: () => Promise<void>
+): Promise<Workspace> {
+  const { discordToken, applicationId, defaultMentionUserId, defaultMentionRoleId, notifyEvents, notifyMinDurationSec, defaultPermissionMode, dailyBudgetUsd, sessionBudgetUsd, defaultModel, fallbackModels, verbosity, pullRequestProvider, gitAllowedCommands, gitDeniedCommands, shellAllowedPatterns, shellDeniedPatterns, shellDangerousPatterns, shellReadOnly, shellLimits } = config;
+  const { workDir, repoName, branchName, categoryName } = route;
   
   // カテゴリー名を決定（指定されていなければリポジトリ名を使用）
   const actualCategoryName = categoryName || repoName;
   
-  // Claude Codeセッション管理
-  let claudeController: AbortController | null = null;
-  // deno-lint-ignore no-unused-vars
-  let claudeSessionId: string | undefined;
+  // Claude Codeセッション管理（スレッドごと）
+  const sessionManager = new ClaudeSessionManager();
+  
+  // Claude Codeの実行キュー（作業ディレクトリで1つずつ実行）
+  const jobQueue = new ClaudeJobQueue();
+  
+  // セッション記録を読み込み（再起動後も /sessions で再開できるように）
+  const sessionRegistry = SessionRegistry.forWorkDir(workDir, branchName);
+  await sessionRegistry.load();
   
-  // シェルマネージャーを作成
-  const shellManager = new ShellManager(workDir);
+  // 利用量の記録を読み込み（予算チェックと /usage で使用）
+  const usageLedger = UsageLedger.forWorkDir(workDir);
+  await usageLedger.load();
   
-  // ボット設定を管理（デフォルト値を設定）
-  const botSettings = {
-    mentionEnabled: !!defaultMentionUserId,  // ユーザーIDが指定されていればオン
-    mentionUserId: defaultMentionUserId || null,
+  // シェルマネージャーを作成（コマンドのポリシーはShellManagerで適用される）
+  const shellManager = new ShellManager(workDir, {
+    allowed: shellAllowedPatterns ?? [],
+    denied: shellDeniedPatterns ?? [],
+    dangerous: shellDangerousPatterns ?? DEFAULT_DANGEROUS_SHELL_PATTERNS,
+    readOnly: shellReadOnly ?? false
+  }, shellLimits);
+  
+  // ボット設定の既定値（起動時の設定）
+  const defaultSettings: BotSettings = {
+    mentionEnabled: !!(defaultMentionUserId || defaultMentionRoleId),  // ユーザーIDかロールIDが指定されていればオン
+    mentionUserId: defaultMentionRoleId ? null : defaultMentionUserId || null,
+    mentionRoleId: defaultMentionRoleId || null,
+    notifyEvents: notifyEvents ?? [...NOTIFICATION_EVENTS],
+    notifyMinDurationSec: notifyMinDurationSec ?? DEFAULT_NOTIFY_MIN_DURATION_SEC,
+    permissionMode: defaultPermissionMode || 'bypassPermissions',
+    dailyBudgetUsd: dailyBudgetUsd ?? null,
+    sessionBudgetUsd: sessionBudgetUsd ?? null,
+    model: defaultModel || null,
+    fallbackModels: fallbackModels ?? [DEFAULT_FALLBACK_MODEL],
+    verbosity: verbosity ?? DEFAULT_MESSAGE_FILTER.verbosity,
+    showThinking: DEFAULT_MESSAGE_FILTER.showThinking,
+    showToolResults: DEFAULT_MESSAGE_FILTER.showToolResults,
+    showOtherContent: DEFAULT_MESSAGE_FILTER.showOtherContent,
   };
   
-  // Create Discord bot first
-  // deno-lint-ignore no-explicit-any prefer-const
-  let bot: any;
+  // /settings での変更を既定値に重ねてブランチごとに保存し、再起動後も引き継ぐ
+  const settingsStore = SettingsStore.forWorkDir(workDir, branchName, defaultSettings);
+  await settingsStore.load();
+  
+  // 各ハンドラーは常に最新の設定を参照する（変更は購読で反映）
+  let botSettings = settingsStore.get();
+  settingsStore.subscribe((settings) => {
+    botSettings = settings;
+  });
   
-  // We'll create the Claude sender after bot initialization
-  let claudeSender: ((messages: ClaudeMessage[]) => Promise<void>) | null = null;
+  // Create Discord senders for Claude messages (the channel is resolved lazily after login)
+  const createThreadSender = (threadId?: string): DiscordSender => ({
+    async sendMessage(content) {
+      const bot = getBot();
+      const channelId = threadId ?? bot?.getChannelId(route.id);
+      return channelId ? await bot.sendMessage(content, channelId) : null;
+    }
+  });
   
-  // Create handlers with dependencies (sendClaudeMessages will be updated after bot creation)
+  // Sender for the main channel (shutdown notices etc.)
+  const claudeSender = createClaudeSender(createThreadSender());
+  
+  // 通知設定に合うイベントのみメンション付きで送信
+  const notify = async (event: NotificationEvent, message: string, send: (content: string) => Promise<unknown>, durationMs?: number) => {
+    if (!shouldNotify(botSettings, event, durationMs)) return;
+    const duration = durationMs !== undefined ? `（${formatDuration(durationMs)}）` : '';
+    await send(`${formatMention(botSettings)} ${message}${duration}`);
+  };
+  
+  // Create handlers with dependencies
   const claudeHandlers = createClaudeHandlers({
     workDir,
-    claudeController,
-    setClaudeController: (controller) => { claudeController = controller; },
-    setClaudeSessionId: (sessionId) => { claudeSessionId = sessionId; },
-    sendClaudeMessages: async (messages) => {
-      if (claudeSender) {
-        await claudeSender(messages);
-      }
-    }
+    sessionManager,
+    jobQueue,
+    sessionRegistry,
+    usageLedger,
+    getBudgets: () => ({ dailyUsd: botSettings.dailyBudgetUsd, sessionUsd: botSettings.sessionBudgetUsd }),
+    createThreadSender,
+    buttonHandlers,
+    getPermissionMode: () => botSettings.permissionMode,
+    getModel: () => botSettings.model,
+    getFallbackModels: () => botSettings.fallbackModels,
+    getMessageFilter: () => ({
+      verbosity: botSettings.verbosity,
+      showThinking: botSettings.showThinking,
+      showToolResults: botSettings.showToolResults,
+      showOtherContent: botSettings.showOtherContent
+    }),
+    notify: async ({ event, threadId, message, durationMs }) => {
+      await notify(event, message, (content) => createThreadSender(threadId).sendMessage({ content }), durationMs);
+    },
+    createCheckpoint: (label) => createCheckpoint(workDir, label)
   });
   
   const gitHandlers = createGitHandlers({
@@ -100,11 +400,22 @@ export async function createClaudeCodeBot(config: BotConfig) {
     actualCategoryName,
     discordToken,
     applicationId,
-    botSettings
+    getMentionUserId: () => botSettings.mentionUserId,
+    isClaudeRunning: () => claudeHandlers.getRunningCount() > 0,
+    buttonHandlers,
+    generateText: (prompt, userId) => claudeHandlers.generateText(prompt, userId),
+    // 起動時に名前を検証済み
+    pullRequestProvider: createPullRequestProvider(pullRequestProvider ?? 'github') ?? createGitHubProvider(),
+    gitCommandPolicy: {
+      allowed: gitAllowedCommands === undefined ? DEFAULT_ALLOWED_GIT_COMMANDS : gitAllowedCommands,
+      denied: gitDeniedCommands ?? DEFAULT_DENIED_GIT_COMMANDS
+    }
   });
   
   const shellHandlers = createShellHandlers({
-    shellManager
+    shellManager,
+    buttonHandlers,
+    sendMessage: (content, threadId) => createThreadSender(threadId ?? undefined).sendMessage(content)
   });
   
   const utilsHandlers = createUtilsHandlers({
@@ -112,29 +423,33 @@ export async function createClaudeCodeBot(config: BotConfig) {
     repoName,
     branchName,
     actualCategoryName,
-    botSettings,
-    updateBotSettings: (settings) => {
-      botSettings.mentionEnabled = settings.mentionEnabled;
-      botSettings.mentionUserId = settings.mentionUserId;
-      if (bot) {
-        bot.updateBotSettings(settings);
-      }
-    }
+    settings: settingsStore
   });
   
   // Command handlers implementation
-  const handlers: CommandHandlers = new Map([
+  const handlers: CommandHandlers = new Map<string, CommandHandler>([
     ['claude', {
       execute: async (ctx: InteractionContext) => {
         const prompt = ctx.getString('prompt', true)!;
         const sessionId = ctx.getString('session_id');
-        await claudeHandlers.onClaude(ctx, prompt, sessionId || undefined);
+        const model = ctx.getString('model');
+        const attachment = ctx.getAttachment('attachment');
+        await claudeHandlers.onClaude(ctx, prompt, {
+          sessionId: sessionId || undefined,
+          model: model?.trim() || undefined,
+          force: ctx.getBoolean('force') ?? false,
+          attachments: attachment ? [attachment] : []
+        });
       }
     }],
     ['continue', {
       execute: async (ctx: InteractionContext) => {
         const prompt = ctx.getString('prompt');
-        await claudeHandlers.onContinue(ctx, prompt || undefined);
+        const model = ctx.getString('model');
+        await claudeHandlers.onContinue(ctx, prompt || undefined, {
+          model: model?.trim() || undefined,
+          force: ctx.getBoolean('force') ?? false
+        });
       }
     }],
     ['claude-cancel', {
@@ -151,24 +466,254 @@ export async function createClaudeCodeBot(config: BotConfig) {
         });
       }
     }],
+    ['sessions', {
+      execute: async (ctx: InteractionContext) => {
+        const subcommand = ctx.getSubcommand();
+        await ctx.deferReply();
+        
+        switch (subcommand) {
+          case 'list': {
+            const records = claudeHandlers.onSessionsList();
+            await ctx.editReply({
+              embeds: [{
+                color: 0x00ffff,
+                title: '保存されたセッション',
+                description: records.length === 0 ? '保存されたセッションはありません。' : `${records.length}件のセッション（新しい順、最大10件を表示）`,
+                fields: records.slice(0, 10).map(record => ({
+                  name: record.name ? `${record.name}` : record.sessionId,
+                  value: formatSessionRecord(record),
+                  inline: false
+                })),
+                timestamp: true
+              }]
+            });
+            break;
+          }
+          
+          case 'resume': {
+            const query = ctx.getString('session', true)!;
+            const prompt = ctx.getString('prompt');
+            const { record, message } = claudeHandlers.findSession(query);
+            if (!record) {
+              await ctx.editReply({
+                embeds: [{
+                  color: 0xff0000,
+                  title: 'セッション再開エラー',
+                  description: `${message} \`/sessions list\` で確認してください。`,
+                  timestamp: true
+                }]
+              });
+              return;
+            }
+            
+            await ctx.editReply({
+              embeds: [{
+                color: prompt ? 0xffff00 : 0x00ff00,
+                title: prompt ? 'セッション再開 - Claude Code 実行中...' : 'セッション再開',
+                description: prompt ? undefined : 'スレッドにメッセージを送信すると、このセッションの続きとしてClaude Codeに送信されます。',
+                fields: [
+                  { name: record.name ?? 'Session ID', value: formatSessionRecord(record), inline: false },
+                  ...(prompt ? [{ name: 'プロンプト', value: `\`${prompt.substring(0, 1020)}\``, inline: false }] : [])
+                ],
+                timestamp: true
+              }]
+            });
+            
+            await claudeHandlers.onSessionsResume(ctx, record, prompt || undefined);
+            break;
+          }
+          
+          case 'rename': {
+            const query = ctx.getString('session', true)!;
+            const name = ctx.getString('name', true)!;
+            const result = await claudeHandlers.onSessionsRename(query, name);
+            await ctx.editReply({
+              embeds: [{
+                color: result.success ? 0x00ff00 : 0xff0000,
+                title: result.success ? 'セッション名を変更しました' : 'セッション名の変更エラー',
+                description: result.success ? undefined : result.message,
+                fields: result.record ? [{ name: result.record.name ?? result.record.sessionId, value: formatSessionRecord(result.record), inline: false }] : undefined,
+                timestamp: true
+              }]
+            });
+            break;
+          }
+          
+          case 'delete': {
+            const query = ctx.getString('session', true)!;
+            const { record, message } = await claudeHandlers.onSessionsDelete(query);
+            await ctx.editReply({
+              embeds: [{
+                color: record ? 0x00ff00 : 0xff0000,
+                title: record ? 'セッション記録を削除しました' : 'セッション削除エラー',
+                description: record ? undefined : message,
+                fields: record ? [{ name: record.name ?? record.sessionId, value: formatSessionRecord(record), inline: false }] : undefined,
+                timestamp: true
+              }]
+            });
+            break;
+          }
+        }
+      },
+      autocomplete: async (ctx: AutocompleteContext) => {
+        const focused = ctx.getFocused();
+        await ctx.respond(claudeHandlers.onSessionsAutocomplete(focused.value));
+      }
+    }],
+    ['queue', {
+      execute: async (ctx: InteractionContext) => {
+        const subcommand = ctx.getSubcommand();
+        await ctx.deferReply();
+        
+        switch (subcommand) {
+          case 'list': {
+            const { running, waiting } = claudeHandlers.onQueueList();
+            const fields = [];
+            if (running) {
+              fields.push({ name: `▶️ 実行中 #${running.id}`, value: formatQueuedJob(running), inline: false });
+            }
+            fields.push(...waiting.slice(0, 20).map((job, index) => ({
+              name: `${index + 1}. #${job.id}`,
+              value: formatQueuedJob(job),
+              inline: false
+            })));
+            
+            await ctx.editReply({
+              embeds: [{
+                color: 0x00ffff,
+                title: 'Claude Code 実行キュー',
+                description: running || waiting.length > 0 ? `待機中: ${waiting.length}件` : 'キューは空です。',
+                fields,
+                timestamp: true
+              }]
+            });
+            break;
+          }
+          
+          case 'clear': {
+            const removed = claudeHandlers.onQueueClear();
+            await ctx.editReply({
+              embeds: [{
+                color: removed.length > 0 ? 0x00ff00 : 0x808080,
+                title: 'キューをクリア',
+                description: removed.length > 0 ? `待機中のジョブ${removed.length}件をキャンセルしました。実行中のジョブは \`/claude-cancel\` で停止できます。` : '待機中のジョブはありません。',
+                timestamp: true
+              }]
+            });
+            break;
+          }
+          
+          case 'move': {
+            const jobId = ctx.getInteger('job', true)!;
+            const position = ctx.getInteger('position', true)!;
+            const newPosition = claudeHandlers.onQueueMove(jobId, position);
+            await ctx.editReply({
+              embeds: [{
+                color: newPosition ? 0x00ff00 : 0xff0000,
+                title: newPosition ? 'ジョブの順番を変更しました' : 'ジョブの順番の変更エラー',
+                description: newPosition ? `ジョブ #${jobId} を${newPosition}番目に移動しました。` : `待機中のジョブ #${jobId} が見つかりません。\`/queue list\` で確認してください。`,
+                timestamp: true
+              }]
+            });
+            break;
+          }
+        }
+      }
+    }],
+    ['model', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        const name = ctx.getString('name')?.trim();
+        const fallback = ctx.getString('fallback');
+        
+        if (name) {
+          await settingsStore.update({ model: name.toLowerCase() === 'default' ? null : name });
+        }
+        if (fallback !== null) {
+          await settingsStore.update({ fallbackModels: parseModelList(fallback) });
+        }
+        
+        await ctx.editReply({
+          embeds: [{
+            color: name || fallback !== null ? 0x00ff00 : 0x0099ff,
+            title: name || fallback !== null ? 'モデル設定を変更しました' : 'モデル設定',
+            fields: [
+              { name: 'デフォルトのモデル', value: formatModel(botSettings.model), inline: true },
+              { name: 'フォールバック順', value: formatFallbackModels(botSettings.fallbackModels), inline: true }
+            ],
+            footer: { text: 'フォールバックはレート制限時のみ行われます。スレッドごとのモデルは /claude の model オプションで指定できます' },
+            timestamp: true
+          }]
+        });
+      }
+    }],
+    ['usage', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        const summary = claudeHandlers.getUsageSummary(ctx.getThreadId());
+        
+        const fields = [
+          { name: `本日（予算: ${formatBudget(summary.budgets.dailyUsd)}）`, value: formatUsageTotals(summary.daily), inline: true },
+          { name: '過去7日間', value: formatUsageTotals(summary.weekly), inline: true }
+        ];
+        
+        if (summary.currentSession) {
+          fields.push({
+            name: `このスレッドのセッション（予算: ${formatBudget(summary.budgets.sessionUsd)}）`,
+            value: `\`${summary.currentSession.sessionId}\`\n${formatUsageTotals(summary.currentSession.totals)}`,
+            inline: false
+          });
+        }
+        
+        if (summary.byUser.length > 0) {
+          fields.push({
+            name: 'ユーザー別（本日）',
+            value: summary.byUser.slice(0, 10).map(([userId, totals]) => `<@${userId}>: $${totals.cost.toFixed(4)} (${totals.runs}回)`).join('\n'),
+            inline: false
+          });
+        }
+        
+        if (summary.bySession.length > 0) {
+          fields.push({
+            name: 'セッション別（過去7日間、上位5件）',
+            value: summary.bySession.slice(0, 5).map(({ sessionId, name, totals }) =>
+              `${name ? `**${name}** ` : ''}\`${sessionId.substring(0, 8)}\`: $${totals.cost.toFixed(4)} (${totals.runs}回)`
+            ).join('\n'),
+            inline: false
+          });
+        }
+        
+        await ctx.editReply({
+          embeds: [{
+            color: 0x00ffff,
+            title: '💰 Claude Code 利用量',
+            fields,
+            timestamp: true
+          }]
+        });
+      }
+    }],
     ['git', {
       execute: async (ctx: InteractionContext) => {
         await ctx.deferReply();
         const command = ctx.getString('command', true)!;
         try {
           const result = await gitHandlers.onGit(ctx, command);
+          if (!result) return;
           
-          // Check if the result contains an error
-          const isError = result.startsWith('実行エラー:') || result.startsWith('エラー:') || result.includes('fatal:') || result.includes('error:');
+          const isError = !result.success;
           
+          // 長い出力は切り詰めずに添付ファイルにする
+          const output = codeBlockOrAttachment(result.output, '', 'git-output.txt', 3500);
           await ctx.editReply({
             embeds: [{
               color: isError ? 0xff0000 : 0x00ff00,
               title: isError ? 'Git Commandエラー' : 'Git Command実行結果',
-              description: `\`git ${command}\``,
-              fields: [{ name: isError ? 'エラー詳細' : '出力', value: `\`\`\`\n${result.substring(0, 4000)}\n\`\`\``, inline: false }],
+              description: `\`git ${command}\`\n${output.description}`,
               timestamp: true
-            }]
+            }],
+            files: output.files,
+            components: []
           });
         } catch (error) {
           await ctx.editReply({
@@ -252,7 +797,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
                 title: 'Worktree作成エラー',
                 fields: [
                   { name: 'ブランチ', value: branch, inline: true },
-                  { name: 'パス', value: result.fullPath, inline: false },
+                  { name: 'パス', value: result.fullPath || 'なし', inline: false },
                   { name: 'エラー詳細', value: `\`\`\`\n${result.result}\n\`\`\``, inline: false }
                 ],
                 timestamp: true
@@ -328,91 +873,222 @@ export async function createClaudeCodeBot(config: BotConfig) {
         }
       }
     }],
-    ['shell', {
+    ['changes', {
       execute: async (ctx: InteractionContext) => {
         await ctx.deferReply();
-        const command = ctx.getString('command', true)!;
-        const input = ctx.getString('input');
+        const showDiff = ctx.getBoolean('diff') ?? false;
         try {
-          const executionResult = await shellHandlers.onShell(ctx, command, input || undefined);
-          
-          let isCompleted = false;
-          
-          // Handle completion asynchronously
-          executionResult.onComplete(async (exitCode, output) => {
-            if (isCompleted) return;
-            isCompleted = true;
-            
-            const truncatedOutput = output.substring(0, 4000);
+          const changes = await gitHandlers.onChanges();
+          if (!changes) {
             await ctx.editReply({
               embeds: [{
-                color: exitCode === 0 ? 0x00ff00 : 0xff0000,
-                title: exitCode === 0 ? 'Shell Command完了' : 'Shell Commandエラー',
-                description: `\`${command}\``,
-                fields: [
-                  { name: 'プロセスID', value: executionResult.processId.toString(), inline: true },
-                  { name: '終了コード', value: exitCode.toString(), inline: true },
-                  { name: '出力', value: `\`\`\`\n${truncatedOutput || '(出力なし)'}\n\`\`\``, inline: false }
-                ],
+                color: 0x808080,
+                title: '📂 直前の実行の変更',
+                description: '記録されている実行による変更はありません。',
                 timestamp: true
               }]
             });
-          });
+            return;
+          }
           
-          executionResult.onError(async (error) => {
-            if (isCompleted) return;
-            isCompleted = true;
-            
+          const { checkpoint, files } = changes;
+          const diff = showDiff && files.length > 0 ? codeBlockOrAttachment(await checkpoint.diff(), 'diff', 'changes.diff') : undefined;
+          await ctx.editReply({
+            embeds: [{
+              color: 0x00ffff,
+              title: '📂 直前の実行の変更',
+              description: diff?.description,
+              fields: [
+                { name: 'プロンプト', value: `\`${checkpoint.label.substring(0, 1020)}\``, inline: false },
+                { name: '実行開始', value: `<t:${Math.floor(new Date(checkpoint.createdAt).getTime() / 1000)}:R>`, inline: true },
+                { name: `変更されたファイル（${files.length}件）`, value: formatFileChanges(files), inline: false }
+              ],
+              footer: files.length > 0 ? { text: '/undo で実行前の状態に戻せます' } : undefined,
+              timestamp: true
+            }],
+            files: diff?.files
+          });
+        } catch (error) {
+          await ctx.editReply({
+            embeds: [{
+              color: 0xff0000,
+              title: '変更の取得エラー',
+              fields: [{ name: 'エラー', value: `\`\`\`\n${error instanceof Error ? error.message : String(error)}\n\`\`\``, inline: false }],
+              timestamp: true
+            }]
+          });
+        }
+      }
+    }],
+    ['undo', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        try {
+          const undo = await gitHandlers.onUndo();
+          if (!undo.success || !undo.checkpoint || !undo.result) {
             await ctx.editReply({
               embeds: [{
                 color: 0xff0000,
-                title: 'Shell Commandエラー',
-                description: `\`${command}\``,
-                fields: [
-                  { name: 'プロセスID', value: executionResult.processId.toString(), inline: true },
-                  { name: 'エラー', value: `\`\`\`\n${error.message}\n\`\`\``, inline: false }
-                ],
+                title: '元に戻せませんでした',
+                description: undo.message,
                 timestamp: true
               }]
             });
-          });
+            return;
+          }
           
-          // Show initial running status and wait a bit to see if it completes quickly
+          const embed = revertResultEmbed(workDir, undo.result);
           await ctx.editReply({
             embeds: [{
-              color: 0xffff00,
-              title: 'Shell Command実行開始',
-              description: `\`${command}\``,
+              ...embed,
               fields: [
-                { name: 'プロセスID', value: executionResult.processId.toString(), inline: true },
-                { name: 'ステータス', value: '実行中...', inline: true }
-              ],
+                { name: 'プロンプト', value: `\`${undo.checkpoint.label.substring(0, 1020)}\``, inline: false },
+                ...(embed.fields ?? [])
+              ]
+            }]
+          });
+        } catch (error) {
+          await ctx.editReply({
+            embeds: [{
+              color: 0xff0000,
+              title: '元に戻せませんでした',
+              fields: [{ name: 'エラー', value: `\`\`\`\n${error instanceof Error ? error.message : String(error)}\n\`\`\``, inline: false }],
               timestamp: true
             }]
           });
+        }
+      }
+    }],
+    ['commit', {
+      execute: async (ctx: InteractionContext) => {
+        const message = ctx.getString('message');
+        await gitHandlers.onCommit(ctx, {
+          all: ctx.getBoolean('all') ?? false,
+          message: message || undefined
+        });
+      }
+    }],
+    ['pr', {
+      execute: async (ctx: InteractionContext) => {
+        const base = ctx.getString('base');
+        await gitHandlers.onPullRequest(ctx, { base: base || undefined });
+      }
+    }],
+    ['diff', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        const path = ctx.getString('path') || undefined;
+        const staged = ctx.getBoolean('staged') ?? false;
+        const title = `📝 ${staged ? 'ステージした変更' : '未コミットの変更'}${path ? `: ${path}` : ''}`;
+        try {
+          const { diff, stat } = await gitHandlers.onDiff({ path, staged });
+          if (!diff) {
+            await ctx.editReply({
+              embeds: [{ color: 0x808080, title, description: '変更はありません。', timestamp: true }]
+            });
+            return;
+          }
           
-          // Wait a short time for quick commands
-          setTimeout(async () => {
-            if (!isCompleted) {
-              // Still running after timeout, show long-running status
-              try {
-                await ctx.editReply({
-                  embeds: [{
-                    color: 0x0099ff,
-                    title: 'Shell Command実行中',
-                    description: `\`${command}\``,
-                    fields: [
-                      { name: 'プロセスID', value: executionResult.processId.toString(), inline: true },
-                      { name: 'ステータス', value: '長時間実行中... (完了時に更新されます)', inline: false }
-                    ],
-                    timestamp: true
-                  }]
-                });
-              } catch {
-                // Ignore errors if interaction is no longer valid
-              }
+          const totals = stat.reduce((sum, { added, deleted }) => ({ added: sum.added + (added ?? 0), deleted: sum.deleted + (deleted ?? 0) }), { added: 0, deleted: 0 });
+          const output = codeBlockOrAttachment(diff, 'diff', 'changes.diff');
+          await ctx.editReply({
+            embeds: [{
+              color: 0x00ffff,
+              title,
+              description: output.description,
+              fields: [{ name: `変更されたファイル（${stat.length}件、+${totals.added} -${totals.deleted}）`, value: formatDiffStat(stat, 20), inline: false }],
+              timestamp: true
+            }],
+            files: output.files
+          });
+        } catch (error) {
+          await ctx.editReply({ embeds: [gitErrorEmbed('diffの取得エラー', error)] });
+        }
+      }
+    }],
+    ['log', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        try {
+          const commits = await gitHandlers.onLog(ctx.getInteger('count') ?? undefined);
+          // 表示しきれない場合は先頭だけ表示し、すべてのコミットを添付する
+          const shown: string[] = [];
+          let length = 0;
+          for (const line of commits.map(formatCommit)) {
+            length += line.length + 1;
+            if (length > 4000) break;
+            shown.push(line);
+          }
+          const truncated = shown.length < commits.length;
+          await ctx.editReply({
+            embeds: [{
+              color: 0x00ffff,
+              title: `📜 最近のコミット（${commits.length}件）`,
+              description: commits.length === 0 ? 'コミットはありません。' : shown.join('\n'),
+              footer: truncated ? { text: `${shown.length}件を表示しています。すべてのコミットは log.txt を参照してください` } : undefined,
+              timestamp: true
+            }],
+            files: truncated ? [{
+              name: 'log.txt',
+              data: commits.map(commit => `${commit.hash} ${commit.date} ${commit.author}\n    ${commit.subject}`).join('\n')
+            }] : undefined
+          });
+        } catch (error) {
+          await ctx.editReply({ embeds: [gitErrorEmbed('ログの取得エラー', error)] });
+        }
+      }
+    }],
+    ['blame', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        const path = ctx.getString('path', true)!;
+        const start = ctx.getInteger('start') ?? undefined;
+        const end = ctx.getInteger('end') ?? undefined;
+        const range = start || end ? `（${start ?? 1}〜${end ?? ''}行目）` : '';
+        try {
+          const blame = await gitHandlers.onBlame(path, { start, end });
+          const output = codeBlockOrAttachment(blame, '', `${path.split('/').pop() || 'file'}.blame.txt`);
+          await ctx.editReply({
+            embeds: [{
+              color: 0x00ffff,
+              title: `🔍 blame: ${path}${range}`.substring(0, 256),
+              description: output.description,
+              timestamp: true
+            }],
+            files: output.files
+          });
+        } catch (error) {
+          await ctx.editReply({ embeds: [gitErrorEmbed('blameの取得エラー', error)] });
+        }
+      }
+    }],
+    ['shell', {
+      execute: async (ctx: InteractionContext) => {
+        await ctx.deferReply();
+        const command = ctx.getString('command', true)!;
+        const input = ctx.getString('input');
+        const pty = ctx.getBoolean('pty') ?? false;
+        try {
+          const startedAt = Date.now();
+          // 長時間実行したプロセスの終了をメンションで通知
+          // インタラクションのトークンは15分で失効するため、フォローアップではなくチャンネルに送信する
+          const notifyExit = async (message: string) => {
+            try {
+              const sender = createThreadSender(ctx.getThreadId() ?? undefined);
+              await notify('shell', `${message}: \`${command.substring(0, 200)}\``, (content) => sender.sendMessage({ content }), Date.now() - startedAt);
+            } catch (error) {
+              console.error('Failed to send shell notification:', error);
             }
-          }, 2000);
+          };
+          
+          await shellHandlers.onShell(ctx, command, input || undefined, {
+            pty,
+            cols: ctx.getInteger('cols') ?? undefined,
+            rows: ctx.getInteger('rows') ?? undefined,
+            timeoutSec: ctx.getInteger('timeout') ?? undefined,
+            cpuSec: ctx.getInteger('cpu') ?? undefined,
+            memoryMb: ctx.getInteger('memory') ?? undefined
+          }, notifyExit);
         } catch (error) {
           await ctx.editReply({
             embeds: [{
@@ -430,9 +1106,27 @@ export async function createClaudeCodeBot(config: BotConfig) {
       execute: async (ctx: InteractionContext) => {
         await ctx.deferReply();
         const processId = ctx.getInteger('id', true)!;
-        const input = ctx.getString('text', true)!;
+        const input = ctx.getString('text');
+        const keyName = ctx.getString('key');
+        const key = keyName && isSpecialKey(keyName) ? keyName : null;
+        if (!input && !key) {
+          await ctx.editReply({
+            embeds: [{
+              color: 0xff0000,
+              title: '入力送信失敗',
+              description: '送信するテキストか特殊キーを指定してください。',
+              timestamp: true
+            }]
+          });
+          return;
+        }
+        // 表示用（テキストの後に特殊キーを送信する）
+        const sent = [input ? `\`${input}\`` : '', key ? SPECIAL_KEYS[key].label : ''].filter(Boolean).join(' + ');
         try {
-          const result = await shellHandlers.onShellInput(ctx, processId, input);
+          let result = input ? await shellHandlers.onShellInput(ctx, processId, input) : { success: true };
+          if (result.success && key) {
+            result = await shellHandlers.onShellKey(ctx, processId, key);
+          }
           
           if (result.success) {
             await ctx.editReply({
@@ -441,7 +1135,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
                 title: '入力送信成功',
                 fields: [
                   { name: 'プロセスID', value: processId.toString(), inline: true },
-                  { name: '送信データ', value: `\`${input}\``, inline: false },
+                  { name: '送信データ', value: sent, inline: false },
                   { name: '結果', value: '✅ 入力を送信しました。新しい出力があれば下記に表示されます。', inline: false }
                 ],
                 timestamp: true
@@ -450,7 +1144,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
             
             // Wait a moment for output to be generated, then show new output
             // Use longer timeout for Python3 due to buffering behavior
-            const waitTime = input.toLowerCase().includes('python') ? 2000 : 1000;
+            const waitTime = input?.toLowerCase().includes('python') ? 2000 : 1000;
             setTimeout(async () => {
               const newOutput = shellHandlers.getNewOutput(processId);
               if (newOutput.trim()) {
@@ -462,7 +1156,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
                       title: '新しい出力',
                       fields: [
                         { name: 'プロセスID', value: processId.toString(), inline: true },
-                        { name: '入力', value: `\`${input}\``, inline: true },
+                        { name: '入力', value: sent, inline: true },
                         { name: '出力', value: `\`\`\`\n${truncatedOutput}\n\`\`\``, inline: false }
                       ],
                       timestamp: true
@@ -484,7 +1178,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
                           title: '新しい出力 (遅延)',
                           fields: [
                             { name: 'プロセスID', value: processId.toString(), inline: true },
-                            { name: '入力', value: `\`${input}\``, inline: true },
+                            { name: '入力', value: sent, inline: true },
                             { name: '出力', value: `\`\`\`\n${truncatedOutput}\n\`\`\``, inline: false }
                           ],
                           timestamp: true
@@ -504,7 +1198,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
                 title: '入力送信失敗',
                 fields: [
                   { name: 'プロセスID', value: processId.toString(), inline: true },
-                  { name: '送信データ', value: `\`${input}\``, inline: false },
+                  { name: '送信データ', value: sent, inline: false },
                   { name: '結果', value: '❌ プロセスが見つかりませんでした。プロセスが終了している可能性があります。', inline: false }
                 ],
                 timestamp: true
@@ -529,10 +1223,14 @@ export async function createClaudeCodeBot(config: BotConfig) {
     ['shell-list', {
       execute: async (ctx: InteractionContext) => {
         await ctx.deferReply();
-        const processes = shellHandlers.onShellList(ctx);
-        const fields = Array.from(processes.entries()).map(([id, proc]) => ({
+        const processes = await shellHandlers.onShellList(ctx);
+        const fields = processes.map(({ id, process: proc, tree }) => ({
           name: `ID: ${id}`,
-          value: `\`${proc.command}\`\n開始: ${proc.startTime.toLocaleTimeString()}`,
+          value: [
+            `\`${proc.command.substring(0, 200)}\``,
+            `開始: ${proc.startTime.toLocaleTimeString()}${proc.terminal ? ` | 擬似端末 ${proc.terminal.cols}x${proc.terminal.rows}` : ''} | 制限: ${formatLimits(proc.limits)}`,
+            formatProcessTree(proc.child.pid, tree)
+          ].join('\n').substring(0, 1024),
           inline: false
         }));
         
@@ -540,7 +1238,7 @@ export async function createClaudeCodeBot(config: BotConfig) {
           embeds: [{
             color: 0x00ffff,
             title: '実行中のシェルプロセス',
-            description: processes.size === 0 ? '実行中のプロセスはありません。' : undefined,
+            description: processes.length === 0 ? '実行中のプロセスはありません。' : undefined,
             fields: fields.slice(0, 25), // Discord limit
             timestamp: true
           }]
@@ -582,9 +1280,15 @@ export async function createClaudeCodeBot(config: BotConfig) {
     ['status', {
       execute: async (ctx: InteractionContext) => {
         await ctx.deferReply();
-        const sessionStatus = claudeController ? "実行中" : "待機中";
-        const gitStatusInfo = await gitHandlers.getStatus();
-        const runningCount = shellHandlers.onShellList(ctx).size;
+        const runningSessions = claudeHandlers.getRunningCount();
+        const queuedJobs = claudeHandlers.getQueuedCount();
+        const sessionStatus = (runningSessions > 0 ? `${runningSessions}件実行中` : "待機中") + (queuedJobs > 0 ? ` / キュー${queuedJobs}件` : '');
+        // Gitリポジトリでない場合もステータスは表示する
+        const gitStatusInfo = await gitHandlers.getStatus().catch((error) => {
+          console.warn('Gitのステータスの取得に失敗しました:', error);
+          return null;
+        });
+        const runningCount = shellHandlers.getRunningCount();
         
         await ctx.editReply({
           embeds: [{
@@ -592,21 +1296,24 @@ export async function createClaudeCodeBot(config: BotConfig) {
             title: 'ステータス',
             fields: [
               { name: 'Claude Code', value: sessionStatus, inline: true },
-              { name: 'Git Branch', value: gitStatusInfo.branch, inline: true },
+              { name: 'Git Branch', value: gitStatusInfo ? gitStatusInfo.branch ?? '(detached HEAD)' : 'なし', inline: true },
               { name: 'シェルプロセス', value: `${runningCount}個実行中`, inline: true },
-              { name: 'メンション', value: botSettings.mentionEnabled ? `有効 (<@${botSettings.mentionUserId}>)` : '無効', inline: true }
+              { name: 'メンション', value: formatMentionSetting(botSettings), inline: true },
+              { name: '許可モード', value: botSettings.permissionMode, inline: true },
+              { name: 'モデル', value: formatModel(botSettings.model), inline: true }
             ],
             timestamp: true
-          }]
+          }, ...(gitStatusInfo ? [gitStatusEmbed(gitStatusInfo)] : [])]
         });
       }
     }],
     ['settings', {
       execute: async (ctx: InteractionContext) => {
         await ctx.deferReply();
-        const action = ctx.getString('action', true)!;
+        const subcommand = ctx.getSubcommand() ?? 'list';
+        const key = ctx.getString('key');
         const value = ctx.getString('value');
-        const result = utilsHandlers.onSettings(ctx, action, value || undefined);
+        const result = await utilsHandlers.onSettings(ctx, subcommand, key ?? undefined, value ?? undefined);
         
         if (!result.success) {
           await ctx.editReply({
@@ -620,11 +1327,15 @@ export async function createClaudeCodeBot(config: BotConfig) {
         } else {
           await ctx.editReply({
             embeds: [{
-              color: 0x00ff00,
+              color: subcommand === 'set' || subcommand === 'reset' ? 0x00ff00 : 0x00ffff,
               title: '設定',
-              fields: [
-                { name: 'メンション', value: result.mentionEnabled ? `有効 (<@${result.mentionUserId}>)` : '無効', inline: true }
-              ],
+              description: result.message,
+              fields: (result.entries ?? []).map(entry => ({
+                name: `${entry.key}${entry.overridden ? ' ✏️' : ''}`,
+                value: `${entry.value}\n*${entry.description}*`,
+                inline: true
+              })),
+              footer: { text: '✏️ は /settings で変更された設定です（/settings reset で起動時の既定値に戻せます）' },
               timestamp: true
             }]
           });
@@ -662,13 +1373,8 @@ export async function createClaudeCodeBot(config: BotConfig) {
           }]
         });
         
-        // すべてのプロセスを停止
-        shellHandlers.killAllProcesses();
-        
-        // Claude Codeセッションをキャンセル
-        if (claudeController) {
-          claudeController.abort();
-        }
+        // すべてのワークスペースのプロセスとセッションを停止
+        await stopAll();
         
         // 少し待ってから終了
         setTimeout(() => {
@@ -678,6 +1384,86 @@ export async function createClaudeCodeBot(config: BotConfig) {
     }]
   ]);
   
+  return {
+    route,
+    handlers,
+    onThreadMessage: async (message) => {
+      await claudeHandlers.onThreadMessage(message);
+    },
+    isSessionThread: (threadId) => claudeHandlers.isSessionThread(threadId),
+    onChatPrompt: async (ctx, { mode, prompt, attachments }) => {
+      if (mode === 'continue') {
+        await claudeHandlers.onContinue(ctx, prompt || undefined, { attachments });
+      } else {
+        await claudeHandlers.onClaude(ctx, prompt, { attachments });
+      }
+    },
+    onThreadClosed: async (threadId) => {
+      await claudeHandlers.onThreadClosed(threadId);
+    },
+    stop: async () => {
+      // すべてのプロセスを子孫のプロセスも含めて停止
+      await shellHandlers.killAllProcesses();
+      
+      // Claude Codeセッションをキャンセルし、添付ファイルを削除
+      claudeHandlers.cancelAll();
+      await claudeHandlers.cleanupAttachments();
+    },
+    sendShutdownNotice: async (signal) => {
+      await claudeSender([{
+        type: 'system',
+        content: '',
+        metadata: {
+          subtype: 'shutdown',
+          signal,
+          categoryName: actualCategoryName,
+          repoName,
+          branchName
+        }
+      }]);
+    }
+  };
+}
+
+// Claude Code Discord Botを作成
+export async function createClaudeCodeBot(config: BotConfig) {
+  // Create Discord bot first
+  // deno-lint-ignore no-explicit-any prefer-const
+  let bot: any;
+  
+  // Button handlers (IDs are unique across workspaces)
+  const buttonHandlers: ButtonHandlers = new Map();
+  
+  // チャンネルごとのワークスペース（ルーティングしない場合は1つ）
+  const workspaces = new Map<string, Workspace>();
+  const stopAll = async () => {
+    for (const workspace of workspaces.values()) {
+      await workspace.stop();
+    }
+  };
+  for (const route of getChannelRoutes(config)) {
+    workspaces.set(route.id, await createWorkspace(config, route, buttonHandlers, () => bot, stopAll));
+  }
+  const defaultWorkspace = workspaces.values().next().value!;
+  const workspaceFor = (routeId: string) => workspaces.get(routeId) ?? defaultWorkspace;
+  
+  // コマンドは実行されたチャンネルのワークスペースに振り分ける
+  const handlers: CommandHandlers = new Map<string, CommandHandler>(
+    Array.from(defaultWorkspace.handlers.keys()).map(name => [name, {
+      execute: async (ctx: InteractionContext) => {
+        await workspaceFor(ctx.getRouteId()).handlers.get(name)!.execute(ctx);
+      },
+      autocomplete: async (ctx: AutocompleteContext) => {
+        const handler = workspaceFor(ctx.getRouteId()).handlers.get(name);
+        if (handler?.autocomplete) {
+          await handler.autocomplete(ctx);
+        } else {
+          await ctx.respond([]);
+        }
+      }
+    }])
+  );
+  
   // Create dependencies object
   const dependencies: BotDependencies = {
     commands: [
@@ -686,98 +1472,32 @@ export async function createClaudeCodeBot(config: BotConfig) {
       ...shellCommands,
       ...utilsCommands,
     ],
-    cleanSessionId
+    cleanSessionId,
+    onThreadMessage: async (message) => {
+      await workspaceFor(message.routeId).onThreadMessage(message);
+    },
+    isSessionThread: (threadId, routeId) => workspaceFor(routeId).isSessionThread(threadId),
+    onChatPrompt: async (ctx, prompt) => {
+      await workspaceFor(ctx.getRouteId()).onChatPrompt(ctx, prompt);
+    },
+    onThreadClosed: async (threadId, routeId) => {
+      await workspaceFor(routeId).onThreadClosed(threadId);
+    }
   };
 
   // Create Discord bot
-  // Button handlers
-  const buttonHandlers: ButtonHandlers = new Map();
-  
   bot = await createDiscordBot(config, handlers, buttonHandlers, dependencies);
   
-  // Create Discord sender for Claude messages
-  const discordSender: DiscordSender = {
-    async sendMessage(content) {
-      const channel = bot.getChannel();
-      if (channel) {
-        const { EmbedBuilder, ActionRowBuilder, ButtonBuilder, ButtonStyle } = await import("npm:discord.js@14.14.1");
-        
-        // Convert MessageContent to Discord format
-        // deno-lint-ignore no-explicit-any
-        const payload: any = {};
-        
-        if (content.content) payload.content = content.content;
-        
-        if (content.embeds) {
-          payload.embeds = content.embeds.map(e => {
-            const embed = new EmbedBuilder();
-            if (e.color !== undefined) embed.setColor(e.color);
-            if (e.title) embed.setTitle(e.title);
-            if (e.description) embed.setDescription(e.description);
-            if (e.fields) e.fields.forEach(f => embed.addFields(f));
-            if (e.footer) embed.setFooter(e.footer);
-            if (e.timestamp) embed.setTimestamp();
-            return embed;
-          });
-        }
-        
-        if (content.components) {
-          payload.components = content.components.map(row => {
-            // deno-lint-ignore no-explicit-any
-            const actionRow = new ActionRowBuilder<any>();
-            row.components.forEach(comp => {
-              const button = new ButtonBuilder()
-                .setCustomId(comp.customId)
-                .setLabel(comp.label);
-              
-              switch (comp.style) {
-                case 'primary': button.setStyle(ButtonStyle.Primary); break;
-                case 'secondary': button.setStyle(ButtonStyle.Secondary); break;
-                case 'success': button.setStyle(ButtonStyle.Success); break;
-                case 'danger': button.setStyle(ButtonStyle.Danger); break;
-                case 'link': button.setStyle(ButtonStyle.Link); break;
-              }
-              
-              actionRow.addComponents(button);
-            });
-            return actionRow;
-          });
-        }
-        
-        await channel.send(payload);
-      }
-    }
-  };
-  
-  // Create Claude sender function
-  claudeSender = createClaudeSender(discordSender);
-  
   // Signal handlers
   const handleSignal = async (signal: string) => {
     console.log(`\n${signal}シグナルを受信しました。ボットを停止します...`);
     
     try {
-      // すべてのプロセスを停止
-      shellHandlers.killAllProcesses();
-      
-      // Claude Codeセッションをキャンセル
-      if (claudeController) {
-        claudeController.abort();
-      }
+      await stopAll();
       
       // Send shutdown message
-      if (claudeSender) {
-        await claudeSender([{
-          type: 'system',
-          content: '',
-          metadata: {
-            subtype: 'shutdown',
-            signal,
-            categoryName: actualCategoryName,
-            repoName,
-            branchName
-          }
-        }]);
+      for (const workspace of workspaces.values()) {
+        await workspace.sendShutdownNotice(signal);
       }
       
       setTimeout(() => {
@@ -804,6 +1524,32 @@ if (import.meta.main) {
     const applicationId = Deno.env.get("APPLICATION_ID");
     const envCategoryName = Deno.env.get("CATEGORY_NAME");
     const envMentionUserId = Deno.env.get("DEFAULT_MENTION_USER_ID");
+    const envMentionRoleId = Deno.env.get("DEFAULT_MENTION_ROLE_ID");
+    const envNotifyEvents = Deno.env.get("NOTIFY_EVENTS");
+    const envNotifyMinDuration = Deno.env.get("NOTIFY_MIN_DURATION_SEC");
+    const envGuildId = Deno.env.get("GUILD_ID");
+    const envChannelId = Deno.env.get("CHANNEL_ID");
+    const envRoutesFile = Deno.env.get("CHANNEL_ROUTES_FILE");
+    const envPermissionMode = Deno.env.get("CLAUDE_PERMISSION_MODE");
+    const envDailyBudget = Deno.env.get("CLAUDE_DAILY_BUDGET_USD");
+    const envSessionBudget = Deno.env.get("CLAUDE_SESSION_BUDGET_USD");
+    const envModel = Deno.env.get("CLAUDE_MODEL");
+    const envFallbackModels = Deno.env.get("CLAUDE_FALLBACK_MODELS");
+    const envChatPrompts = Deno.env.get("CHAT_PROMPTS");
+    const envVerbosity = Deno.env.get("CLAUDE_VERBOSITY");
+    const envPullRequestProvider = Deno.env.get("PR_PROVIDER");
+    const envGitAllowedCommands = Deno.env.get("GIT_ALLOWED_COMMANDS");
+    const envGitDeniedCommands = Deno.env.get("GIT_DENIED_COMMANDS");
+    const envShellPolicyFile = Deno.env.get("SHELL_POLICY_FILE");
+    const envShellReadOnly = Deno.env.get("SHELL_READ_ONLY");
+    // /shell のリソース制限（0は無制限）
+    const shellLimitEnvs = [
+      ["SHELL_TIMEOUT_SEC", 'timeoutSec', 0],
+      ["SHELL_CPU_LIMIT_SEC", 'cpuSec', 0],
+      ["SHELL_MEMORY_LIMIT_MB", 'memoryMb', 0],
+      ["SHELL_MAX_PROCESSES", 'maxProcesses', 0],
+      ["SHELL_MAX_OUTPUT_CHARS", 'maxOutputChars', 10_000],
+    ] as const;
     
     if (!discordToken || !applicationId) {
       console.error("エラー: DISCORD_TOKEN と APPLICATION_ID 環境変数が必要です");
@@ -815,9 +1561,91 @@ if (import.meta.main) {
     const categoryName = args.category || envCategoryName;
     const defaultMentionUserId = args.userId || envMentionUserId;
     
+    const defaultPermissionMode = envPermissionMode ? parsePermissionMode(envPermissionMode) : undefined;
+    if (defaultPermissionMode === null) {
+      console.error(`エラー: CLAUDE_PERMISSION_MODE の値が無効です: ${envPermissionMode} (bypass, acceptEdits, ask のいずれか)`);
+      Deno.exit(1);
+    }
+    
+    const dailyBudgetUsd = envDailyBudget ? parseBudget(envDailyBudget) : null;
+    const sessionBudgetUsd = envSessionBudget ? parseBudget(envSessionBudget) : null;
+    if (dailyBudgetUsd === undefined || sessionBudgetUsd === undefined) {
+      console.error("エラー: CLAUDE_DAILY_BUDGET_USD / CLAUDE_SESSION_BUDGET_USD には正の数（USD）か off を指定してください");
+      Deno.exit(1);
+    }
+    
+    const verbosity = envVerbosity ? parseVerbosity(envVerbosity) : undefined;
+    if (verbosity === null) {
+      console.error(`エラー: CLAUDE_VERBOSITY の値が無効です: ${envVerbosity} (answer, tools, full のいずれか)`);
+      Deno.exit(1);
+    }
+    
+    const pullRequestProvider = envPullRequestProvider?.trim().toLowerCase() || undefined;
+    if (pullRequestProvider && !PULL_REQUEST_PROVIDER_NAMES.includes(pullRequestProvider)) {
+      console.error(`エラー: PR_PROVIDER の値が無効です: ${envPullRequestProvider} (${PULL_REQUEST_PROVIDER_NAMES.join(', ')} のいずれか)`);
+      Deno.exit(1);
+    }
+    
+    const gitAllowedCommands = envGitAllowedCommands !== undefined ? parseGitCommandList(envGitAllowedCommands) : undefined;
+    const gitDeniedCommands = envGitDeniedCommands !== undefined ? parseGitCommandList(envGitDeniedCommands) : undefined;
+    if (gitDeniedCommands === null) {
+      console.error("エラー: GIT_DENIED_COMMANDS に * は指定できません（サブコマンドのカンマ区切り）");
+      Deno.exit(1);
+    }
+    
+    // /shell のコマンドのポリシー（SHELL_READ_ONLY は設定ファイルの readOnly より優先）
+    const shellPolicy = envShellPolicyFile ? await loadShellCommandPolicy(envShellPolicyFile) : undefined;
+    let shellReadOnly = shellPolicy?.readOnly;
+    if (envShellReadOnly !== undefined) {
+      const value = envShellReadOnly.trim().toLowerCase();
+      if (!['on', 'true', '1', 'off', 'false', '0'].includes(value)) {
+        console.error(`エラー: SHELL_READ_ONLY の値が無効です: ${envShellReadOnly} (on, off のいずれか)`);
+        Deno.exit(1);
+      }
+      shellReadOnly = ['on', 'true', '1'].includes(value);
+    }
+    
+    const shellLimits: NonNullable<BotConfig['shellLimits']> = {};
+    for (const [envName, key, min] of shellLimitEnvs) {
+      const value = Deno.env.get(envName);
+      if (value === undefined) continue;
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < min) {
+        console.error(`エラー: ${envName} には${min}以上の整数を指定してください`);
+        Deno.exit(1);
+      }
+      shellLimits[key] = limit;
+    }
+    
+    const notifyEvents = envNotifyEvents ? parseNotificationEvents(envNotifyEvents) : undefined;
+    if (notifyEvents === null) {
+      console.error(`エラー: NOTIFY_EVENTS の値が無効です: ${envNotifyEvents} (${NOTIFICATION_EVENTS.join(', ')} のカンマ区切り、または all / none)`);
+      Deno.exit(1);
+    }
+    
+    const notifyMinDurationSec = envNotifyMinDuration ? Number(envNotifyMinDuration) : undefined;
+    if (notifyMinDurationSec !== undefined && !(Number.isFinite(notifyMinDurationSec) && notifyMinDurationSec >= 0)) {
+      console.error("エラー: NOTIFY_MIN_DURATION_SEC には0以上の秒数を指定してください");
+      Deno.exit(1);
+    }
+    
     // Git情報を取得
     const gitInfo = await getGitInfo();
     
+    // 複数のチャンネルを担当する場合のルーティング設定
+    const routes = envRoutesFile ? await loadChannelRoutes(envRoutesFile) : undefined;
+    
+    // チャットのメッセージをプロンプトとして受け付ける設定（既定は無効）
+    const chatPrompts = envChatPrompts && ['on', 'true', '1'].includes(envChatPrompts.trim().toLowerCase())
+      ? loadChatPromptConfig()
+      : undefined;
+    
+    // 権限ポリシーを読み込み（未設定の場合は制限なし）
+    const permissions = await loadPermissionPolicy();
+    if (!permissions) {
+      console.warn("警告: 権限ポリシーが設定されていません。チャンネルを閲覧できる全員がすべてのコマンドを実行できます");
+    }
+    
     // ボットを作成・起動
     await createClaudeCodeBot({
       discordToken,
@@ -826,7 +1654,29 @@ if (import.meta.main) {
       repoName: gitInfo.repo,
       branchName: gitInfo.branch,
       categoryName,
+      guildId: envGuildId || undefined,
+      channelId: envChannelId || undefined,
+      routes,
       defaultMentionUserId,
+      defaultMentionRoleId: envMentionRoleId || undefined,
+      notifyEvents,
+      notifyMinDurationSec,
+      defaultPermissionMode,
+      dailyBudgetUsd: dailyBudgetUsd ?? undefined,
+      sessionBudgetUsd: sessionBudgetUsd ?? undefined,
+      defaultModel: envModel?.trim() || undefined,
+      fallbackModels: envFallbackModels !== undefined ? parseModelList(envFallbackModels) : undefined,
+      verbosity,
+      pullRequestProvider,
+      gitAllowedCommands,
+      gitDeniedCommands,
+      shellAllowedPatterns: shellPolicy?.allowed,
+      shellDeniedPatterns: shellPolicy?.denied,
+      shellDangerousPatterns: shellPolicy?.dangerous,
+      shellReadOnly,
+      shellLimits,
+      chatPrompts,
+      permissions,
     });
     
     console.log("ボットが起動しました。Ctrl+Cで停止します。");
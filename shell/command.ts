@@ -1,5 +1,40 @@
 import { SlashCommandBuilder } from "npm:discord.js@14.14.1";
-import type { ShellManager } from "./handler.ts";
+import { SHELL_LOGS_DIR, type ShellManager } from "./handler.ts";
+import type { ShellExecuteOptions, SpecialKey } from "./types.ts";
+import type { ProcessUsage } from "./process.ts";
+import type { ButtonHandlers, ComponentData, EmbedData, InteractionContext, MessageContent, SentMessageHandle } from "../discord/types.ts";
+import { SPECIAL_KEYS, SPECIAL_KEY_NAMES, renderTerminalOutput } from "./terminal.ts";
+import { formatLimits, formatSeconds } from "./limits.ts";
+
+// 実行中のメッセージのボタン（権限チェックもこのプレフィックスで行われる）
+export const SHELL_STOP_PREFIX = 'shell-stop';
+export const SHELL_INTERRUPT_PREFIX = 'shell-interrupt';
+export const SHELL_LOG_PREFIX = 'shell-log';
+// 擬似端末のプロセスに特殊キーを送るボタン
+export const SHELL_KEY_PREFIX = 'shell-key';
+// 確認が必要なコマンドの確認カードのボタン
+export const SHELL_CONFIRM_PREFIX = 'shell-confirm';
+export const SHELL_CANCEL_PREFIX = 'shell-cancel';
+
+// 確認ボタンが押されるまで待つ時間
+const SHELL_CONFIRM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ボタンで送信する特殊キー（1行5個まで、Ctrl-Cは常に表示する中断ボタン）
+const KEY_BUTTON_ROWS: SpecialKey[][] = [
+  ['ctrl-d', 'ctrl-z', 'esc', 'tab', 'enter'],
+  ['left', 'up', 'down', 'right']
+];
+
+// 実行中のメッセージに表示する出力の末尾の行数と、メッセージを更新する間隔
+const SHELL_TAIL_LINES = 20;
+const SHELL_TAIL_MAX_CHARS = 3500;
+const SHELL_UPDATE_INTERVAL_MS = 2000;
+
+// Discordに添付できるファイルの大きさの上限（超える場合は出力の末尾のみ添付する）
+const MAX_LOG_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// キーを送信してから出力を待つ時間（ボタンへの応答は3秒以内）
+const KEY_OUTPUT_WAIT_MS = 1000;
 
 export const shellCommands = [
   new SlashCommandBuilder()
@@ -12,6 +47,40 @@ export const shellCommands = [
     .addStringOption(option =>
       option.setName('input')
         .setDescription('初期標準入力（オプション）')
+        .setRequired(false))
+    .addBooleanOption(option =>
+      option.setName('pty')
+        .setDescription('擬似端末で実行（REPLやisattyを確認するプログラム向け、オプション）')
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('cols')
+        .setDescription('擬似端末の列数（オプション、デフォルト: 120）')
+        .setMinValue(20)
+        .setMaxValue(500)
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('rows')
+        .setDescription('擬似端末の行数（オプション、デフォルト: 40）')
+        .setMinValue(5)
+        .setMaxValue(200)
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('timeout')
+        .setDescription('実行時間の上限（秒、SHELL_TIMEOUT_SEC を超える値は無効、オプション）')
+        .setMinValue(1)
+        .setMaxValue(7 * 24 * 60 * 60)
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('cpu')
+        .setDescription('CPU時間の上限（秒、SHELL_CPU_LIMIT_SEC を超える値は無効、オプション）')
+        .setMinValue(1)
+        .setMaxValue(24 * 60 * 60)
+        .setRequired(false))
+    .addIntegerOption(option =>
+      option.setName('memory')
+        .setDescription('メモリの上限（MB、SHELL_MEMORY_LIMIT_MB を超える値は無効、オプション）')
+        .setMinValue(16)
+        .setMaxValue(1024 * 1024)
         .setRequired(false)),
   
   new SlashCommandBuilder()
@@ -23,8 +92,13 @@ export const shellCommands = [
         .setRequired(true))
     .addStringOption(option =>
       option.setName('text')
-        .setDescription('送信するテキスト')
-        .setRequired(true)),
+        .setDescription('送信するテキスト（改行付き）')
+        .setRequired(false))
+    .addStringOption(option =>
+      option.setName('key')
+        .setDescription('テキストの後に送信する特殊キー（Ctrl-C等は擬似端末のみ有効）')
+        .setRequired(false)
+        .addChoices(...SPECIAL_KEY_NAMES.map(key => ({ name: SPECIAL_KEYS[key].label, value: key })))),
   
   new SlashCommandBuilder()
     .setName('shell-list')
@@ -39,18 +113,353 @@ export const shellCommands = [
         .setRequired(true)),
 ];
 
+type KeyButtons = { components: NonNullable<MessageContent['components']>; clear(): void };
+
+function escapeCodeBlock(text: string): string {
+  return text.replace(/```/g, '`\u200b``');
+}
+
+// 出力の最後の行をコードブロックで表示
+function tailCodeBlock(output: string): string {
+  const lines = output.replace(/\n+$/, '').split('\n');
+  let tail = lines.slice(-SHELL_TAIL_LINES).join('\n');
+  if (tail.length > SHELL_TAIL_MAX_CHARS) {
+    tail = `…${tail.slice(-SHELL_TAIL_MAX_CHARS)}`;
+  }
+  return `\`\`\`\n${escapeCodeBlock(tail) || '(出力なし)'}\n\`\`\``;
+}
+
+// 書き出したファイルは作業ディレクトリからの相対パスで表示
+function displayLogPath(path: string): string {
+  const index = path.lastIndexOf(`/${SHELL_LOGS_DIR}/`);
+  return `\`${index === -1 ? path : path.slice(index + 1)}\``;
+}
+
+// 書き出したファイルから出力全体を読み込む（添付できない大きさの場合はnull）
+async function readSpilledOutput(path: string, pty: boolean): Promise<string | null> {
+  try {
+    const { size } = await Deno.stat(path);
+    if (size > MAX_LOG_ATTACHMENT_BYTES) return null;
+    const text = await Deno.readTextFile(path);
+    return pty ? renderTerminalOutput(text) : text;
+  } catch (error) {
+    console.error(`Failed to read shell output from ${path}:`, error);
+    return null;
+  }
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}秒` : `${Math.floor(seconds / 60)}分${seconds % 60}秒`;
+}
+
 export interface ShellHandlerDeps {
   shellManager: ShellManager;
+  buttonHandlers: ButtonHandlers;
+  // スレッド（nullの場合はチャンネル）にメッセージを送信（送信できない場合はnull）
+  sendMessage: (content: MessageContent, threadId: string | null) => Promise<SentMessageHandle | null>;
 }
 
 export function createShellHandlers(deps: ShellHandlerDeps) {
-  const { shellManager } = deps;
+  const { shellManager, buttonHandlers, sendMessage } = deps;
+  
+  // 特殊キーのボタン（押すとキーを送信し、その後の出力をエフェメラルメッセージで表示）
+  // プロセスが終了したらclearでボタンの処理を削除する
+  function createKeyButtons(processId: number): KeyButtons {
+    const id = crypto.randomUUID();
+    const buttonIds: string[] = [];
+    const components = KEY_BUTTON_ROWS.map(keys => ({
+      type: 'actionRow' as const,
+      components: keys.map((key): ComponentData => {
+        const customId = `${SHELL_KEY_PREFIX}:${id}:${key}`;
+        buttonIds.push(customId);
+        buttonHandlers.set(customId, async (buttonCtx) => {
+          // キーを送信した後の出力だけを表示する
+          shellManager.getNewOutput(processId);
+          const result = await shellManager.sendKey(processId, key);
+          if (!result.success) {
+            await buttonCtx.reply({ content: 'プロセスは終了しています。', ephemeral: true });
+            return;
+          }
+          await new Promise(resolve => setTimeout(resolve, KEY_OUTPUT_WAIT_MS));
+          const output = shellManager.getNewOutput(processId).trim();
+          const tail = output.length > 1800 ? `…${output.slice(-1800)}` : output;
+          await buttonCtx.reply({
+            content: `⌨️ ${SPECIAL_KEYS[key].label} を送信しました（プロセスID: ${processId}）${tail ? `\n\`\`\`\n${escapeCodeBlock(tail)}\n\`\`\`` : ''}`,
+            ephemeral: true
+          });
+        });
+        return { type: 'button', customId, label: SPECIAL_KEYS[key].label, style: 'secondary' };
+      })
+    }));
+    return {
+      components,
+      clear: () => buttonIds.forEach(buttonId => buttonHandlers.delete(buttonId))
+    };
+  }
+  
+  // 確認カードを表示し、「実行」が押されたらtrue（キャンセル・期限切れはfalse）
+  async function confirmCommand(ctx: InteractionContext, command: string, reasons: string[]): Promise<boolean> {
+    const id = crypto.randomUUID();
+    const ids = { confirm: `${SHELL_CONFIRM_PREFIX}:${id}`, cancel: `${SHELL_CANCEL_PREFIX}:${id}` };
+    const card = (title: string, color: number, withButtons: boolean): MessageContent => ({
+      embeds: [{
+        color,
+        title,
+        description: `\`${command}\``.substring(0, 4000),
+        fields: [{ name: '注意', value: reasons.map(reason => `・${reason}`).join('\n').substring(0, 1024), inline: false }],
+        timestamp: true
+      }],
+      components: withButtons ? [{
+        type: 'actionRow',
+        components: [
+          { type: 'button', customId: ids.confirm, label: '実行', style: 'danger' },
+          { type: 'button', customId: ids.cancel, label: 'キャンセル', style: 'secondary' }
+        ]
+      }] : []
+    });
+    
+    const confirmed = await new Promise<boolean | null>((resolve) => {
+      const settle = (result: boolean | null) => {
+        clearTimeout(timer);
+        buttonHandlers.delete(ids.confirm);
+        buttonHandlers.delete(ids.cancel);
+        resolve(result);
+      };
+      const timer = setTimeout(() => settle(null), SHELL_CONFIRM_TIMEOUT_MS);
+      buttonHandlers.set(ids.confirm, async (buttonCtx) => {
+        settle(true);
+        await buttonCtx.update(card('⏳ 実行中...', 0xffff00, false));
+      });
+      buttonHandlers.set(ids.cancel, async (buttonCtx) => {
+        settle(false);
+        await buttonCtx.update(card('⏹️ キャンセルしました', 0x808080, false));
+      });
+      ctx.editReply(card('⚠️ 実行の確認', 0xff9900, true)).catch((error) => {
+        console.error('Failed to send shell confirmation:', error);
+        settle(false);
+      });
+    });
+    
+    if (confirmed === null) {
+      await ctx.editReply(card('⌛ 確認の期限が切れました', 0x808080, false));
+    }
+    return confirmed === true;
+  }
   
   return {
-    // deno-lint-ignore no-explicit-any
-    async onShell(ctx: any, command: string, input?: string) {
-      const result = await shellManager.execute(command, input, ctx);
-      return result;
+    // コマンドを実行し、チャンネルに送信したメッセージに出力の末尾を一定間隔で更新して表示する
+    // インタラクションのトークンは15分で失効するため、応答は実行開始の通知のみに使う
+    // ポリシーで拒否された場合はその理由を表示し、確認が必要な場合は確認カードで実行するか確認する
+    // 終了したら出力全体を添付ファイルにし、onExitを呼ぶ
+    async onShell(
+      ctx: InteractionContext,
+      command: string,
+      input?: string,
+      options: ShellExecuteOptions = {},
+      onExit?: (message: string) => Promise<void>
+    ): Promise<void> {
+      const check = shellManager.checkCommand(command);
+      if (!check.allowed) {
+        await ctx.editReply({
+          embeds: [{
+            color: 0xff0000,
+            title: '🚫 実行できないシェルコマンド',
+            description: `\`${command}\`\n${check.reason}`.substring(0, 4000),
+            timestamp: true
+          }]
+        });
+        return;
+      }
+      if (check.dangerous.length > 0 && !await confirmCommand(ctx, command, check.dangerous)) {
+        return;
+      }
+      
+      const execution = await shellManager.execute(command, input, ctx, { ...options, confirmed: true });
+      const { processId, limits } = execution;
+      const startedAt = Date.now();
+      
+      const id = crypto.randomUUID();
+      const ids = { stop: `${SHELL_STOP_PREFIX}:${id}`, interrupt: `${SHELL_INTERRUPT_PREFIX}:${id}`, log: `${SHELL_LOG_PREFIX}:${id}` };
+      const keyButtons = options.pty ? createKeyButtons(processId) : null;
+      const components: NonNullable<MessageContent['components']> = [
+        {
+          type: 'actionRow',
+          components: [
+            { type: 'button', customId: ids.stop, label: '停止', style: 'danger' },
+            { type: 'button', customId: ids.interrupt, label: 'Ctrl-C', style: 'secondary' },
+            { type: 'button', customId: ids.log, label: '全ログを表示', style: 'secondary' }
+          ]
+        },
+        ...(keyButtons?.components ?? [])
+      ];
+      const clearButtons = () => {
+        Object.values(ids).forEach(buttonId => buttonHandlers.delete(buttonId));
+        keyButtons?.clear();
+      };
+      
+      const baseFields = () => [
+        { name: 'プロセスID', value: processId.toString(), inline: true },
+        { name: 'モード', value: options.pty ? '擬似端末' : 'パイプ', inline: true },
+        { name: '実行時間', value: formatElapsed(Date.now() - startedAt), inline: true },
+        { name: '制限', value: formatLimits(limits), inline: true }
+      ];
+      const runningMessage = (output: string): MessageContent => ({
+        embeds: [{
+          color: 0x0099ff,
+          title: '⏳ Shell Command実行中',
+          description: `\`${command}\`\n${tailCodeBlock(output)}`.substring(0, 4096),
+          fields: baseFields(),
+          footer: { text: `最後の${SHELL_TAIL_LINES}行を表示しています（${SHELL_UPDATE_INTERVAL_MS / 1000}秒ごとに更新）` },
+          timestamp: true
+        }],
+        components
+      });
+      
+      // 出力を表示するメッセージ（送信できなかった場合はインタラクションの応答を編集する）
+      let outputMessage: SentMessageHandle | null = null;
+      const update = (content: MessageContent) => outputMessage ? outputMessage.edit(content) : ctx.editReply(content);
+      
+      // メッセージの編集は順番に行う
+      let chain: Promise<void> = Promise.resolve();
+      const enqueue = (task: () => Promise<void>) => {
+        chain = chain.then(task).catch((error) => {
+          console.error('Failed to update shell output message:', error);
+        });
+        return chain;
+      };
+      
+      let finished = false;
+      let lastUpdate = Date.now();
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const flush = () => {
+        timer = null;
+        lastUpdate = Date.now();
+        const output = shellManager.getOutput(processId);
+        if (finished || output === null) return;
+        enqueue(() => update(runningMessage(output)));
+      };
+      
+      // 終了時のメッセージを表示できたらtrue
+      const finish = async (embed: EmbedData, output: string, exitMessage: string): Promise<boolean> => {
+        if (finished) return false;
+        finished = true;
+        if (timer !== null) clearTimeout(timer);
+        clearButtons();
+        let delivered = false;
+        await enqueue(async () => {
+          await update({
+            embeds: [embed],
+            components: [],
+            files: output ? [{ name: `shell-${processId}.log`, data: output }] : undefined
+          });
+          delivered = true;
+        });
+        await onExit?.(exitMessage);
+        return delivered;
+      };
+      
+      execution.onOutput(() => {
+        if (finished || timer !== null) return;
+        timer = setTimeout(flush, Math.max(0, lastUpdate + SHELL_UPDATE_INTERVAL_MS - Date.now()));
+      });
+      
+      execution.onComplete(async (exitCode, output, details) => {
+        // 出力がバッファの上限を超えた場合は書き出したファイルを添付し、添付できたら削除する
+        let log = output;
+        let footer = output ? '出力全体は添付ファイルを参照してください' : undefined;
+        let attachedSpill: string | null = null;
+        if (details.spillPath) {
+          const spilled = await readSpilledOutput(details.spillPath, !!options.pty);
+          if (spilled !== null) {
+            log = spilled;
+            attachedSpill = details.spillPath;
+          } else {
+            footer = `出力が大きいため最後の${output.length}文字のみ添付しています。出力全体: ${displayLogPath(details.spillPath)}`;
+          }
+        } else if (details.truncated) {
+          footer = `出力が大きいため最後の${output.length}文字のみ添付しています`;
+        }
+        
+        let display = { color: 0x00ff00, title: 'Shell Command完了', message: '✅ シェルコマンドが終了しました' };
+        if (details.timedOut) {
+          display = {
+            color: 0xff9900,
+            title: '⏱️ Shell Commandタイムアウト',
+            message: `⏱️ シェルコマンドを${formatSeconds(limits.timeoutSec)}のタイムアウトで停止しました`
+          };
+        } else if (exitCode !== 0) {
+          display = { color: 0xff0000, title: 'Shell Commandエラー', message: `❌ シェルコマンドが終了コード${exitCode}で終了しました` };
+        }
+        const delivered = await finish({
+          color: display.color,
+          title: display.title,
+          description: `\`${command}\`\n${tailCodeBlock(output)}`.substring(0, 4096),
+          fields: [...baseFields(), { name: '終了コード', value: exitCode.toString(), inline: true }],
+          footer: footer ? { text: footer } : undefined,
+          timestamp: true
+        }, log, display.message);
+        if (delivered && attachedSpill) {
+          await Deno.remove(attachedSpill).catch(() => {});
+        }
+      });
+      
+      execution.onError(async (error) => {
+        await finish({
+          color: 0xff0000,
+          title: 'Shell Commandエラー',
+          description: `\`${command}\``,
+          fields: [...baseFields(), { name: 'エラー', value: `\`\`\`\n${error.message.substring(0, 1000)}\n\`\`\``, inline: false }],
+          timestamp: true
+        }, shellManager.getOutput(processId) ?? '', '❌ シェルコマンドがエラーで終了しました');
+      });
+      
+      buttonHandlers.set(ids.stop, async (buttonCtx) => {
+        // 停止には最大数秒かかるため、先に応答する
+        await buttonCtx.reply({ content: `⏹️ プロセス ${processId} を停止しています...`, ephemeral: true });
+        const result = await shellManager.killProcess(processId);
+        if (!result.success) {
+          await buttonCtx.followUp({ content: 'プロセスは既に終了しています。', ephemeral: true });
+        }
+      });
+      
+      buttonHandlers.set(ids.interrupt, async (buttonCtx) => {
+        const result = await shellManager.interrupt(processId);
+        await buttonCtx.reply({
+          content: result.success ? `⌨️ プロセス ${processId} にCtrl-Cを送信しました` : 'プロセスは既に終了しています。',
+          ephemeral: true
+        });
+      });
+      
+      buttonHandlers.set(ids.log, async (buttonCtx) => {
+        let output = shellManager.getOutput(processId);
+        if (output === null) {
+          await buttonCtx.reply({ content: 'プロセスは既に終了しています。終了時のメッセージに出力全体が添付されています。', ephemeral: true });
+          return;
+        }
+        // バッファの上限を超えた場合は書き出したファイルから読み込む
+        const spillPath = shellManager.getSpillPath(processId);
+        const spilled = spillPath ? await readSpilledOutput(spillPath, !!options.pty) : null;
+        const note = spillPath && spilled === null ? `（出力が大きいため末尾のみ、出力全体: ${displayLogPath(spillPath)}）` : '';
+        output = spilled ?? output;
+        await buttonCtx.reply({
+          content: `📄 プロセス ${processId} のこれまでの出力（${output ? output.split('\n').length : 0}行）${note}`,
+          files: [{ name: `shell-${processId}.log`, data: output || '(出力なし)' }],
+          ephemeral: true
+        });
+      });
+      
+      // 応答は実行開始の通知にし、出力は別のメッセージに表示する（以降の更新はこのメッセージの編集）
+      await enqueue(async () => {
+        await ctx.editReply({ content: `▶️ プロセス ${processId} を開始しました。出力は下のメッセージに表示されます。`, embeds: [], components: [] });
+        outputMessage = await sendMessage(runningMessage(shellManager.getOutput(processId) ?? ''), ctx.getThreadId()).catch((error) => {
+          console.error('Failed to send shell output message:', error);
+          return null;
+        });
+        if (!outputMessage) {
+          await ctx.editReply({ content: '', ...runningMessage(shellManager.getOutput(processId) ?? '') });
+        }
+      });
     },
     
     // deno-lint-ignore no-explicit-any
@@ -59,8 +468,23 @@ export function createShellHandlers(deps: ShellHandlerDeps) {
     },
     
     // deno-lint-ignore no-explicit-any
-    onShellList(_ctx: any) {
-      return shellManager.getRunningProcesses();
+    async onShellKey(_ctx: any, processId: number, key: SpecialKey) {
+      return await shellManager.sendKey(processId, key);
+    },
+    
+    // 実行中のプロセスと、それぞれの子孫のプロセスのリソース使用量
+    // deno-lint-ignore no-explicit-any
+    async onShellList(_ctx: any) {
+      return await Promise.all([...shellManager.getRunningProcesses()].map(async ([id, process]) => {
+        let tree: ProcessUsage[] | null;
+        try {
+          tree = await shellManager.getProcessTree(id);
+        } catch (error) {
+          console.error(`Failed to get process tree of shell process ${id}:`, error);
+          tree = null;
+        }
+        return { id, process, tree };
+      }));
     },
     
     // deno-lint-ignore no-explicit-any
@@ -68,12 +492,16 @@ export function createShellHandlers(deps: ShellHandlerDeps) {
       return await shellManager.killProcess(processId);
     },
     
-    killAllProcesses() {
-      shellManager.killAllProcesses();
+    getRunningCount(): number {
+      return shellManager.getRunningProcesses().size;
+    },
+    
+    async killAllProcesses() {
+      await shellManager.killAllProcesses();
     },
 
     getNewOutput(processId: number): string {
       return shellManager.getNewOutput(processId);
     }
   };
-}
\ No newline at end of file
+}
@@ -1,39 +1,123 @@
-import type { ShellProcess, ShellExecutionResult, ShellInputResult, ShellKillResult } from "./types.ts";
+import type { ShellProcess, ShellExecutionResult, ShellExecuteOptions, ShellInputResult, ShellKillResult, ShellCompletionDetails, ShellManagerLimits, SpecialKey } from "./types.ts";
+import { DEFAULT_TERMINAL_COLS, DEFAULT_TERMINAL_ROWS, SPECIAL_KEYS, ptyCommand, renderTerminalOutput } from "./terminal.ts";
+import { checkShellCommand, DEFAULT_SHELL_COMMAND_POLICY, type ShellCommandCheck, type ShellCommandPolicy } from "./policy.ts";
+import { DEFAULT_SHELL_LIMITS, resolveProcessLimits, rlimitPrefix } from "./limits.ts";
+import { ShellOutputBuffer, appendCapped } from "./output.ts";
+import { getProcessTree, processGroupCommand, signalProcessTree, terminateProcessTree, type ProcessUsage } from "./process.ts";
+import { BOT_DATA_DIR, ensureBotDataDir } from "../claude/registry.ts";
+
+// 出力がバッファの上限を超えた場合の書き出し先（workDirからの相対パス）
+export const SHELL_LOGS_DIR = `${BOT_DATA_DIR}/shell-logs`;
+
+// SIGTERMを送ってからSIGKILLを送るまでの待ち時間
+const SHELL_KILL_GRACE_MS = 5000;
 
 export class ShellManager {
   private runningProcesses = new Map<number, ShellProcess>();
+  // 上限の確認から起動までの間のプロセス数（同時に実行された場合も上限を超えないように数える）
+  private startingProcesses = 0;
   private processIdCounter = 0;
   private workDir: string;
+  private policy: ShellCommandPolicy;
+  private limits: ShellManagerLimits;
 
-  constructor(workDir: string) {
+  constructor(workDir: string, policy: ShellCommandPolicy = DEFAULT_SHELL_COMMAND_POLICY, limits: Partial<ShellManagerLimits> = {}) {
     this.workDir = workDir;
+    this.policy = policy;
+    this.limits = { ...DEFAULT_SHELL_LIMITS, ...limits };
+  }
+
+  getLimits(): ShellManagerLimits {
+    return this.limits;
+  }
+
+  // コマンドがポリシーで実行できるか（確認が必要な場合はその理由）
+  checkCommand(command: string): ShellCommandCheck {
+    return checkShellCommand(command, this.workDir, this.policy);
   }
 
   // deno-lint-ignore no-explicit-any
-  async execute(command: string, input?: string, discordContext?: any): Promise<ShellExecutionResult> {
+  async execute(command: string, input?: string, discordContext?: any, options: ShellExecuteOptions = {}): Promise<ShellExecutionResult> {
+    const check = this.checkCommand(command);
+    if (!check.allowed) {
+      throw new Error(`ポリシーにより実行できません: ${check.reason}`);
+    }
+    if (check.dangerous.length > 0 && !options.confirmed) {
+      throw new Error(`実行には確認が必要です: ${check.dangerous.join(' / ')}`);
+    }
+    if (this.limits.maxProcesses > 0 && this.runningProcesses.size + this.startingProcesses >= this.limits.maxProcesses) {
+      throw new Error(`同時に実行できるプロセスは${this.limits.maxProcesses}個までです。\`/shell-kill\` で停止してから実行してください`);
+    }
+
+    // 出力の書き出し先がリポジトリにコミットされないようにする
+    // 待っている間も枠を確保しておく（以降はrunningProcessesに登録するまで待たない）
+    this.startingProcesses++;
+    try {
+      await ensureBotDataDir(`${this.workDir}/${BOT_DATA_DIR}`);
+    } finally {
+      this.startingProcesses--;
+    }
+
     const processId = ++this.processIdCounter;
-    let output = '';
+    const limits = resolveProcessLimits(this.limits, options);
+    const output = new ShellOutputBuffer(
+      this.limits.maxOutputChars,
+      `${this.workDir}/${SHELL_LOGS_DIR}/shell-${processId}-${Date.now()}.log`
+    );
     const outputCallbacks: ((data: string) => void)[] = [];
-    const completeCallbacks: ((code: number, output: string) => void)[] = [];
+    const completeCallbacks: ((code: number, output: string, details: ShellCompletionDetails) => void)[] = [];
     const errorCallbacks: ((error: Error) => void)[] = [];
 
-    // Handle Python3 buffering issues by adding -u flag for unbuffered output
-    let modifiedCommand = command;
-    if (command.trim().startsWith('python3') && !command.includes('-u')) {
-      modifiedCommand = command.replace(/^python3\s*/, 'python3 -u ');
-    } else if (command.trim() === 'python3') {
-      modifiedCommand = 'python3 -u';
+    const terminal = options.pty
+      ? { cols: options.cols ?? DEFAULT_TERMINAL_COLS, rows: options.rows ?? DEFAULT_TERMINAL_ROWS }
+      : undefined;
+    // 擬似端末の出力はエスケープシーケンスを除いて渡す
+    const render = (text: string) => terminal ? renderTerminalOutput(text) : text;
+
+    // CPU時間・メモリの制限はulimitでbashとその子プロセスに設定する
+    const prefix = rlimitPrefix(limits);
+
+    let spawnCommand: { cmd: string; args: string[] };
+    let env: Record<string, string> | undefined;
+    if (terminal) {
+      spawnCommand = ptyCommand(prefix + command, terminal.cols, terminal.rows);
+      env = { TERM: 'xterm', COLUMNS: String(terminal.cols), LINES: String(terminal.rows) };
+    } else {
+      // Handle Python3 buffering issues by adding -u flag for unbuffered output
+      let modifiedCommand = command;
+      if (command.trim().startsWith('python3') && !command.includes('-u')) {
+        modifiedCommand = command.replace(/^python3\s*/, 'python3 -u ');
+      } else if (command.trim() === 'python3') {
+        modifiedCommand = 'python3 -u';
+      }
+      spawnCommand = { cmd: "bash", args: ["-c", prefix + modifiedCommand] };
     }
 
-    const proc = new Deno.Command("bash", {
-      args: ["-c", modifiedCommand],
+    // 停止する時に子孫のプロセスもまとめてシグナルを送れるように、新しいプロセスグループで起動する
+    const { cmd, args } = processGroupCommand(spawnCommand.cmd, spawnCommand.args);
+    const proc = new Deno.Command(cmd, {
+      args,
       cwd: this.workDir,
+      env,
       stdin: "piped",
       stdout: "piped",
       stderr: "piped",
     });
 
-    const child = proc.spawn();
+    let child: Deno.ChildProcess;
+    try {
+      child = proc.spawn();
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        if (cmd === 'setsid') {
+          throw new Error("シェルプロセスを新しいプロセスグループで起動するには setsid コマンド（util-linux）が必要です");
+        }
+        if (terminal) {
+          throw new Error("擬似端末モードには script コマンド（util-linux / BSD）が必要です");
+        }
+      }
+      throw error;
+    }
     const stdin = child.stdin.getWriter();
 
     this.runningProcesses.set(processId, {
@@ -42,9 +126,21 @@ export class ShellManager {
       child,
       stdin,
       discordContext,
+      output,
       outputSinceLastUpdate: '',
+      terminal,
+      limits,
     });
 
+    // 実行時間の上限を超えたら停止する
+    let timedOut = false;
+    const timeout = limits.timeoutSec > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        this.killProcess(processId);
+      }, limits.timeoutSec * 1000)
+      : undefined;
+
     if (input) {
       await stdin.write(new TextEncoder().encode(input + '\n'));
     }
@@ -58,11 +154,11 @@ export class ShellManager {
           const { done, value } = await reader.read();
           if (done) break;
           const text = decoder.decode(value);
-          output += text;
+          output.append(text);
           // Track new output since last update
           const process = this.runningProcesses.get(processId);
           if (process) {
-            process.outputSinceLastUpdate += text;
+            process.outputSinceLastUpdate = appendCapped(process.outputSinceLastUpdate ?? '', text, this.limits.maxOutputChars);
           }
           outputCallbacks.forEach(cb => cb(text));
         }
@@ -78,11 +174,11 @@ export class ShellManager {
           const { done, value } = await reader.read();
           if (done) break;
           const text = decoder.decode(value);
-          output += text;
+          output.append(text);
           // Track new output since last update
           const process = this.runningProcesses.get(processId);
           if (process) {
-            process.outputSinceLastUpdate += text;
+            process.outputSinceLastUpdate = appendCapped(process.outputSinceLastUpdate ?? '', text, this.limits.maxOutputChars);
           }
           outputCallbacks.forEach(cb => cb(text));
         }
@@ -92,19 +188,30 @@ export class ShellManager {
     })();
 
     child.status.then((status) => {
+      clearTimeout(timeout);
+      output.close();
       this.runningProcesses.delete(processId);
-      completeCallbacks.forEach(cb => cb(status.code, output));
+      const details: ShellCompletionDetails = {
+        timedOut,
+        truncated: output.truncated,
+        totalChars: output.totalChars,
+        spillPath: output.spillPath
+      };
+      completeCallbacks.forEach(cb => cb(status.code, render(output.text()), details));
     }).catch((error) => {
+      clearTimeout(timeout);
+      output.close();
       this.runningProcesses.delete(processId);
       errorCallbacks.forEach(cb => cb(error));
     });
 
     return {
       processId,
+      limits,
       onOutput: (callback: (output: string) => void) => {
         outputCallbacks.push(callback);
       },
-      onComplete: (callback: (code: number, output: string) => void) => {
+      onComplete: (callback: (code: number, output: string, details: ShellCompletionDetails) => void) => {
         completeCallbacks.push(callback);
       },
       onError: (callback: (error: Error) => void) => {
@@ -128,10 +235,41 @@ export class ShellManager {
     }
   }
 
+  // 特殊キーを改行なしで送信（Ctrl-C等は擬似端末で実行している場合のみシグナルになる）
+  async sendKey(processId: number, key: SpecialKey): Promise<ShellInputResult> {
+    const process = this.runningProcesses.get(processId);
+    if (!process || !process.stdin) {
+      return { success: false };
+    }
+
+    try {
+      await process.stdin.write(new TextEncoder().encode(SPECIAL_KEYS[key].sequence));
+      return { success: true, process };
+    } catch (error) {
+      console.error(`Failed to send key to process ${processId}:`, error);
+      return { success: false };
+    }
+  }
+
   getRunningProcesses(): Map<number, ShellProcess> {
     return this.runningProcesses;
   }
 
+  // 実行中のプロセスのこれまでの出力（終了したプロセスはnull、バッファの上限を超えた場合は末尾のみ）
+  getOutput(processId: number): string | null {
+    const process = this.runningProcesses.get(processId);
+    if (!process) {
+      return null;
+    }
+    const text = process.output.text();
+    return process.terminal ? renderTerminalOutput(text) : text;
+  }
+
+  // 出力全体を書き出したファイル（上限を超えていない場合はnull）
+  getSpillPath(processId: number): string | null {
+    return this.runningProcesses.get(processId)?.output.spillPath ?? null;
+  }
+
   getNewOutput(processId: number): string {
     const process = this.runningProcesses.get(processId);
     if (!process) {
@@ -140,24 +278,39 @@ export class ShellManager {
     
     const newOutput = process.outputSinceLastUpdate || '';
     process.outputSinceLastUpdate = ''; // Clear after getting
-    return newOutput;
+    return process.terminal ? renderTerminalOutput(newOutput) : newOutput;
   }
 
-  async killProcess(processId: number): Promise<ShellKillResult> {
+  // Ctrl-Cと同じく中断する（擬似端末ではキーとして送信し、それ以外はSIGINTを送る）
+  async interrupt(processId: number): Promise<ShellInputResult> {
     const process = this.runningProcesses.get(processId);
     if (!process) {
       return { success: false };
     }
+    if (process.terminal) {
+      return await this.sendKey(processId, 'ctrl-c');
+    }
 
     try {
-      process.child.kill("SIGTERM");
+      // 端末のCtrl-Cと同じくプロセスグループ全体に送る
+      signalProcessTree(process.child.pid, [process.child.pid], "SIGINT");
+      return { success: true, process };
+    } catch (error) {
+      console.error(`Failed to interrupt process ${processId}:`, error);
+      return { success: false };
+    }
+  }
 
-      const timeout = setTimeout(() => {
-        process.child.kill("SIGKILL");
-      }, 5000);
+  // プロセスグループと子孫のプロセスにSIGTERMを送り、終了しなければSIGKILLを送る
+  async killProcess(processId: number): Promise<ShellKillResult> {
+    const process = this.runningProcesses.get(processId);
+    if (!process) {
+      return { success: false };
+    }
 
+    try {
+      await terminateProcessTree(process.child.pid, SHELL_KILL_GRACE_MS);
       await process.child.status;
-      clearTimeout(timeout);
 
       this.runningProcesses.delete(processId);
       return { success: true, process };
@@ -167,13 +320,16 @@ export class ShellManager {
     }
   }
 
-  killAllProcesses(): void {
-    for (const [id, process] of this.runningProcesses) {
-      try {
-        process.child.kill("SIGTERM");
-      } catch (error) {
-        console.error(`Failed to kill process ${id}:`, error);
-      }
+  // シェルプロセスと子孫のプロセスのリソース使用量（終了したプロセスは空）
+  async getProcessTree(processId: number): Promise<ProcessUsage[]> {
+    const process = this.runningProcesses.get(processId);
+    if (!process) {
+      return [];
     }
+    return await getProcessTree(process.child.pid);
+  }
+
+  async killAllProcesses(): Promise<void> {
+    await Promise.all([...this.runningProcesses.keys()].map(id => this.killProcess(id)));
   }
 }
\ No newline at end of file
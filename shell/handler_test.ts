@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { ShellManager } from "./handler.ts";
+import { DEFAULT_SHELL_COMMAND_POLICY } from "./policy.ts";
+
+Deno.test("同時に実行しても同時に実行できるプロセス数を超えない", async () => {
+  const dir = await Deno.makeTempDir({ prefix: 'shell-test-' });
+  const manager = new ShellManager(dir, DEFAULT_SHELL_COMMAND_POLICY, { maxProcesses: 1 });
+  try {
+    const results = await Promise.allSettled([
+      manager.execute('sleep 30'),
+      manager.execute('sleep 30')
+    ]);
+    assert.deepEqual(results.map(result => result.status).sort(), ['fulfilled', 'rejected']);
+    assert.equal(manager.getRunningProcesses().size, 1);
+
+    const started = results.find(result => result.status === 'fulfilled');
+    const completed = new Promise<void>((resolve) => {
+      if (started?.status === 'fulfilled') started.value.onComplete(() => resolve());
+    });
+    await manager.killAllProcesses();
+    await completed;
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
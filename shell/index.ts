@@ -1,3 +1,7 @@
 export * from "./types.ts";
-export { ShellManager } from "./handler.ts";
-export { shellCommands, createShellHandlers, type ShellHandlerDeps } from "./command.ts";
\ No newline at end of file
+export { ShellManager, SHELL_LOGS_DIR } from "./handler.ts";
+export { DEFAULT_SHELL_LIMITS, formatLimits } from "./limits.ts";
+export { getProcessTree, listProcesses, terminateProcessTree, type ProcessUsage } from "./process.ts";
+export { shellCommands, createShellHandlers, SHELL_KEY_PREFIX, type ShellHandlerDeps } from "./command.ts";
+export { checkShellCommand, findWritesOutside, loadShellCommandPolicy, DEFAULT_DANGEROUS_SHELL_PATTERNS, DEFAULT_SHELL_COMMAND_POLICY, type DangerousShellPattern, type ShellCommandCheck, type ShellCommandPolicy } from "./policy.ts";
+export { renderTerminalOutput, isSpecialKey, SPECIAL_KEYS, SPECIAL_KEY_NAMES } from "./terminal.ts";
@@ -0,0 +1,49 @@
+import type { ShellExecuteOptions, ShellManagerLimits, ShellProcessLimits } from "./types.ts";
+
+// 既定のリソース制限（SHELL_TIMEOUT_SEC 等で設定した場合のみ制限する、0は無制限）
+export const DEFAULT_SHELL_LIMITS: ShellManagerLimits = {
+  timeoutSec: 0,
+  cpuSec: 0,
+  memoryMb: 0,
+  maxProcesses: 0,
+  maxOutputChars: 1_000_000
+};
+
+// 全体の上限を超えない値にする（指定なし・0の場合は全体の上限）
+function capLimit(limit: number, requested: number | undefined): number {
+  if (requested === undefined || requested <= 0) return limit;
+  return limit > 0 ? Math.min(limit, requested) : requested;
+}
+
+// /shell の実行ごとの指定と全体の設定からプロセスの制限を決める
+export function resolveProcessLimits(limits: ShellManagerLimits, options: ShellExecuteOptions): ShellProcessLimits {
+  return {
+    timeoutSec: capLimit(limits.timeoutSec, options.timeoutSec),
+    cpuSec: capLimit(limits.cpuSec, options.cpuSec),
+    memoryMb: capLimit(limits.memoryMb, options.memoryMb)
+  };
+}
+
+// コマンドの前に付けるulimit（設定できない場合はコマンドを実行せずに終了する）
+export function rlimitPrefix(limits: ShellProcessLimits): string {
+  const commands: string[] = [];
+  if (limits.cpuSec > 0) commands.push(`ulimit -t ${limits.cpuSec}`);
+  if (limits.memoryMb > 0) commands.push(`ulimit -v ${limits.memoryMb * 1024}`);
+  return commands.map(command => `${command} || exit 125; `).join('');
+}
+
+export function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${seconds}秒`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}分${seconds % 60 ? `${seconds % 60}秒` : ''}`;
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${Math.floor(seconds / 3600)}時間${minutes ? `${minutes}分` : ''}`;
+}
+
+export function formatLimits(limits: ShellProcessLimits): string {
+  const parts = [
+    limits.timeoutSec > 0 ? `タイムアウト ${formatSeconds(limits.timeoutSec)}` : '',
+    limits.cpuSec > 0 ? `CPU ${formatSeconds(limits.cpuSec)}` : '',
+    limits.memoryMb > 0 ? `メモリ ${limits.memoryMb}MB` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' / ') : 'なし';
+}
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { DEFAULT_SHELL_LIMITS, formatLimits, formatSeconds, resolveProcessLimits, rlimitPrefix } from "./limits.ts";
+
+const LIMITS = { ...DEFAULT_SHELL_LIMITS, timeoutSec: 600, cpuSec: 60, memoryMb: 0 };
+
+Deno.test("実行ごとの制限は全体の上限を超えない", () => {
+  assert.deepEqual(resolveProcessLimits(LIMITS, {}), { timeoutSec: 600, cpuSec: 60, memoryMb: 0 });
+  assert.deepEqual(resolveProcessLimits(LIMITS, { timeoutSec: 30, cpuSec: 120, memoryMb: 256 }), { timeoutSec: 30, cpuSec: 60, memoryMb: 256 });
+  // 0以下を指定した場合は全体の上限
+  assert.deepEqual(resolveProcessLimits(LIMITS, { timeoutSec: 0, cpuSec: -1 }), { timeoutSec: 600, cpuSec: 60, memoryMb: 0 });
+  // 既定では制限しない
+  assert.deepEqual(resolveProcessLimits(DEFAULT_SHELL_LIMITS, {}), { timeoutSec: 0, cpuSec: 0, memoryMb: 0 });
+});
+
+Deno.test("CPU時間とメモリの制限をulimitで設定する", () => {
+  assert.equal(rlimitPrefix({ timeoutSec: 10, cpuSec: 0, memoryMb: 0 }), '');
+  assert.equal(rlimitPrefix({ timeoutSec: 0, cpuSec: 5, memoryMb: 0 }), 'ulimit -t 5 || exit 125; ');
+  assert.equal(rlimitPrefix({ timeoutSec: 0, cpuSec: 5, memoryMb: 512 }), 'ulimit -t 5 || exit 125; ulimit -v 524288 || exit 125; ');
+});
+
+Deno.test("秒数を読みやすい単位で表示する", () => {
+  assert.equal(formatSeconds(45), '45秒');
+  assert.equal(formatSeconds(60), '1分');
+  assert.equal(formatSeconds(90), '1分30秒');
+  assert.equal(formatSeconds(3600), '1時間');
+  assert.equal(formatSeconds(5400), '1時間30分');
+});
+
+Deno.test("制限がない場合は「なし」と表示する", () => {
+  assert.equal(formatLimits({ timeoutSec: 0, cpuSec: 0, memoryMb: 0 }), 'なし');
+  assert.equal(formatLimits({ timeoutSec: 300, cpuSec: 0, memoryMb: 1024 }), 'タイムアウト 5分 / メモリ 1024MB');
+});
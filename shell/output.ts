@@ -0,0 +1,100 @@
+import { dirname } from "node:path";
+
+// プロセスの出力を上限の文字数まで保持するリングバッファ
+// 上限を超えたら出力全体をファイルに書き出し、メモリには末尾のみ残す
+export class ShellOutputBuffer {
+  private chunks: string[] = [];
+  private length = 0;
+  private file: Deno.FsFile | null = null;
+  private encoder = new TextEncoder();
+  private maxChars: number;
+  private spillTo: string;
+  // 閉じた後や書き出しに失敗した場合は以降は末尾のみ保持する
+  private spillDisabled = false;
+  // これまでの出力の合計の文字数
+  totalChars = 0;
+  // 出力全体を書き出したファイル（上限を超えるまではnull）
+  spillPath: string | null = null;
+
+  constructor(maxChars: number, spillTo: string) {
+    this.maxChars = maxChars;
+    this.spillTo = spillTo;
+  }
+
+  append(text: string): void {
+    this.totalChars += text.length;
+    if (this.file) {
+      this.write(text);
+    } else if (!this.spillDisabled && this.length + text.length > this.maxChars) {
+      this.spill(text);
+    }
+
+    this.chunks.push(text);
+    this.length += text.length;
+    // 先頭のチャンクから捨てて上限に収める
+    while (this.length > this.maxChars) {
+      const excess = this.length - this.maxChars;
+      if (this.chunks[0].length <= excess) {
+        this.length -= this.chunks.shift()!.length;
+      } else {
+        this.chunks[0] = this.chunks[0].slice(excess);
+        this.length -= excess;
+      }
+    }
+  }
+
+  // メモリに残っている出力（上限を超えた場合は末尾のみ）
+  text(): string {
+    if (this.chunks.length > 1) {
+      this.chunks = [this.chunks.join('')];
+    }
+    return this.chunks[0] ?? '';
+  }
+
+  get truncated(): boolean {
+    return this.totalChars > this.length;
+  }
+
+  close(): void {
+    this.spillDisabled = true;
+    try {
+      this.file?.close();
+    } catch {
+      // 既に閉じている
+    }
+    this.file = null;
+  }
+
+  // これまでの出力と新しい出力をファイルに書き出し、以降の出力も追記する
+  private spill(text: string): void {
+    try {
+      Deno.mkdirSync(dirname(this.spillTo), { recursive: true });
+      this.file = Deno.openSync(this.spillTo, { write: true, create: true, truncate: true });
+      this.spillPath = this.spillTo;
+      this.write(this.text() + text);
+    } catch (error) {
+      console.error(`Failed to spill shell output to ${this.spillTo}:`, error);
+      this.close();
+    }
+  }
+
+  private write(text: string): void {
+    if (!this.file) return;
+    const data = this.encoder.encode(text);
+    try {
+      let written = 0;
+      while (written < data.length) {
+        written += this.file.writeSync(data.subarray(written));
+      }
+    } catch (error) {
+      console.error(`Failed to write shell output to ${this.spillTo}:`, error);
+      this.close();
+    }
+  }
+}
+
+// 直近の出力を上限の文字数まで追加する（古い部分は捨てる）
+export function appendCapped(current: string, text: string, maxChars: number): string {
+  const combined = current + text;
+  return combined.length > maxChars ? combined.slice(-maxChars) : combined;
+}
@@ -0,0 +1,481 @@
+import { isAbsolute, resolve, sep } from "node:path";
+
+// /shell で実行できるコマンドの制限と、確認が必要な操作の判定
+
+export interface DangerousShellPattern {
+  pattern: RegExp;
+  // 確認カードに表示する理由
+  reason: string;
+}
+
+export interface ShellCommandPolicy {
+  // 実行できるコマンド（空の場合は拒否リスト以外すべて）
+  // パイプや ; で区切られた各コマンドがいずれかに一致する必要がある
+  allowed: RegExp[];
+  // 実行できないコマンド（コマンド全体か区切られた各コマンドのいずれかに一致したら拒否、許可リストより優先）
+  denied: RegExp[];
+  // 確認ボタンが押されてから実行するコマンド
+  dangerous: DangerousShellPattern[];
+  // ファイルを変更しないコマンドのみ実行する
+  readOnly: boolean;
+}
+
+export type ShellCommandCheck =
+  | { allowed: true; dangerous: string[] }
+  | { allowed: false; reason: string };
+
+// 元に戻せない・影響範囲の大きい操作（SHELL_POLICY_FILE の dangerous で追加可能）
+export const DEFAULT_DANGEROUS_SHELL_PATTERNS: DangerousShellPattern[] = [
+  { pattern: /\brm\s(?:[^;&|\n]*\s)?(?:-[a-zA-Z]*[rR]|--recursive\b)/, reason: 'ファイルを再帰的に削除します（`rm -r`）' },
+  { pattern: /(?:^|[\s;&|(`])(?:sudo|doas|su|pkexec)(?:\s|$)/, reason: '管理者権限で実行します' },
+  {
+    pattern: /\b(?:curl|wget)\b[^;&\n]*\|\s*(?:sudo\s+)?(?:ba|da|z|k)?sh\b|\b(?:ba|z)?sh\s+<\(\s*(?:curl|wget)\b/,
+    reason: 'ダウンロードしたスクリプトを実行します'
+  },
+  { pattern: /\b(?:mkfs(?:\.\w+)?|fdisk|parted|wipefs)\b|\bdd\s[^;&|\n]*\bof=/, reason: 'ディスクやデバイスに直接書き込みます' },
+  { pattern: /\b(?:chmod|chown|chgrp)\s(?:[^;&|\n]*\s)?-[a-zA-Z]*R/, reason: '権限・所有者を再帰的に変更します' },
+  { pattern: /(?:^|[\s;&|(])(?:shutdown|reboot|halt|poweroff)(?:\s|$)/, reason: 'マシンを停止・再起動します' },
+  { pattern: /\b(?:killall|pkill)\b|\bkill\s(?:[^;&|\n]*\s)?-1(?:\s|$)/, reason: '複数のプロセスを終了します' },
+];
+
+export const DEFAULT_SHELL_COMMAND_POLICY: ShellCommandPolicy = {
+  allowed: [],
+  denied: [],
+  dangerous: DEFAULT_DANGEROUS_SHELL_PATTERNS,
+  readOnly: false
+};
+
+// 読み取り専用モードで実行できるコマンド（git は参照系のサブコマンドのみ）
+const READ_ONLY_COMMANDS = [
+  'ls', 'cat', 'head', 'tail', 'grep', 'egrep', 'fgrep', 'rg', 'find', 'wc', 'pwd', 'echo', 'printf', 'tree', 'du', 'df',
+  'stat', 'file', 'which', 'whoami', 'id', 'date', 'uname', 'hostname', 'basename', 'dirname', 'realpath', 'readlink',
+  'diff', 'cmp', 'sort', 'uniq', 'cut', 'tr', 'nl', 'column', 'jq', 'sed', 'test', 'true', 'false', 'git'
+];
+const READ_ONLY_GIT_COMMANDS = [
+  'status', 'log', 'show', 'diff', 'blame', 'shortlog', 'describe', 'grep', 'ls-files', 'ls-tree', 'rev-parse', 'cat-file'
+];
+
+// 引数にファイルを書き込む・削除するコマンド（'all' はすべての引数、'last' は最後の引数のみ）
+const WRITE_COMMANDS: Record<string, 'all' | 'last'> = {
+  rm: 'all', rmdir: 'all', unlink: 'all', mv: 'all', touch: 'all', mkdir: 'all', tee: 'all', truncate: 'all',
+  shred: 'all', chmod: 'all', chown: 'all', chgrp: 'all', cp: 'last', ln: 'last', install: 'last', rsync: 'last'
+};
+
+// 書き込んでもリポジトリの外のファイルを変更しない出力先
+const HARMLESS_TARGETS = ['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty'];
+
+interface ShellRedirect {
+  operator: string;
+  target: string;
+}
+
+// ; && || | 等で区切られた1つのコマンド
+interface ShellSegment {
+  text: string;
+  words: string[];
+  redirects: ShellRedirect[];
+}
+
+interface ParsedShellCommand {
+  segments: ShellSegment[];
+  // コマンド置換・プロセス置換を含む（中身は検査できない）
+  substitution: boolean;
+}
+
+// コマンドを区切り・リダイレクトで分割（クォートとバックスラッシュのみ対応し、変数展開等は行わない）
+function parseShellCommand(command: string): ParsedShellCommand {
+  const segments: ShellSegment[] = [];
+  let substitution = false;
+  let words: string[] = [];
+  let redirects: ShellRedirect[] = [];
+  let segmentStart = 0;
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+  let pendingRedirect: string | null = null;
+
+  const endWord = () => {
+    if (inWord) {
+      if (pendingRedirect) {
+        redirects.push({ operator: pendingRedirect, target: current });
+        pendingRedirect = null;
+      } else {
+        words.push(current);
+      }
+    }
+    current = '';
+    inWord = false;
+  };
+  const endSegment = (end: number) => {
+    endWord();
+    const text = command.slice(segmentStart, end).trim();
+    if (words.length > 0 || redirects.length > 0) {
+      segments.push({ text, words, redirects });
+    }
+    words = [];
+    redirects = [];
+    pendingRedirect = null;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    const next = command[i + 1];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && next !== undefined && '"\\$`'.includes(next)) {
+        current += command[++i];
+      } else {
+        if (char === '`' || (char === '$' && next === '(')) substitution = true;
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\') {
+      if (next !== undefined) current += command[++i];
+      inWord = true;
+    } else if (char === '`' || (char === '$' && next === '(') || ((char === '<' || char === '>') && next === '(')) {
+      substitution = true;
+      current += char;
+      inWord = true;
+    } else if (char === '\n' || char === ';' || char === '(' || char === ')' || (char === '|' && next !== '&')) {
+      endSegment(i);
+      if (char === '|' && next === '|') i++;
+      segmentStart = i + 1;
+    } else if (char === '|' || (char === '&' && next !== '>')) {
+      // |& と && と &
+      endSegment(i);
+      if (next === '&') i++;
+      segmentStart = i + 1;
+    } else if (char === '>' || char === '<' || char === '&') {
+      // 2> のような数字だけの直前の語はファイルディスクリプタ
+      if (inWord && /^\d+$/.test(current)) {
+        current = '';
+        inWord = false;
+      }
+      endWord();
+      let operator = char;
+      while (i + 1 < command.length && '<>&|'.includes(command[i + 1]) && operator.length < 3) {
+        operator += command[++i];
+      }
+      pendingRedirect = operator;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  endSegment(command.length);
+
+  return { segments, substitution };
+}
+
+// コマンドの前に置かれる予約語等（if cmd; then cmd; fi の各コマンドを取り出す）
+const COMMAND_PREFIXES = [
+  '{', '}', '!', 'if', 'then', 'else', 'elif', 'fi', 'while', 'until', 'do', 'done', 'time', 'exec', 'nohup', 'command', 'builtin'
+];
+
+// 先頭の環境変数の代入（FOO=bar cmd）と予約語を除いたコマンドと引数
+function commandWords(segment: ShellSegment): string[] {
+  const index = segment.words.findIndex(word =>
+    !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word) && !COMMAND_PREFIXES.includes(word)
+  );
+  return index === -1 ? [] : segment.words.slice(index);
+}
+
+function commandName(word: string): string {
+  return word.split('/').pop() ?? word;
+}
+
+// ファイルに書き込むリダイレクト（>&2 のようなファイルディスクリプタの複製を除く）
+function isWriteRedirect(redirect: ShellRedirect): boolean {
+  if (!redirect.operator.includes('>')) return false;
+  if (redirect.operator.endsWith('&') && /^(?:\d+|-)$/.test(redirect.target)) return false;
+  return true;
+}
+
+function isInside(baseDir: string, path: string): boolean {
+  return path === baseDir || path.startsWith(baseDir.endsWith(sep) ? baseDir : `${baseDir}${sep}`);
+}
+
+// 書き込み先のパスがリポジトリの外か（~ や変数を含むパスは外とみなす）
+function isOutside(workDir: string, cwd: string, path: string): boolean {
+  if (HARMLESS_TARGETS.includes(path) || path.startsWith('/dev/fd/')) return false;
+  if (path.startsWith('~') || path.includes('$')) return true;
+  return !isInside(workDir, isAbsolute(path) ? resolve(path) : resolve(cwd, path));
+}
+
+// リポジトリの外に書き込むファイル（cd による移動も考慮する）
+export function findWritesOutside(command: string, workDir: string): string[] {
+  const { segments } = parseShellCommand(command);
+  const outside: string[] = [];
+  let cwd = workDir;
+
+  for (const segment of segments) {
+    const [name, ...args] = commandWords(segment);
+    const targets = segment.redirects.filter(isWriteRedirect).map(redirect => redirect.target);
+
+    if (name === 'cd' || name === 'pushd') {
+      const dir = args.find(arg => !arg.startsWith('-'));
+      // 引数なしの cd はホームディレクトリ
+      cwd = !dir || dir.startsWith('~') || dir.includes('$') ? '/' : resolve(cwd, dir);
+    } else if (name && WRITE_COMMANDS[commandName(name)]) {
+      const paths = args.filter(arg => !arg.startsWith('-'));
+      targets.push(...(WRITE_COMMANDS[commandName(name)] === 'last' ? paths.slice(-1) : paths));
+    } else if (name && commandName(name) === 'dd') {
+      targets.push(...args.filter(arg => arg.startsWith('of=')).map(arg => arg.slice(3)));
+    }
+
+    for (const target of targets) {
+      if (target && isOutside(workDir, cwd, target) && !outside.includes(target)) {
+        outside.push(target);
+      }
+    }
+  }
+  return outside;
+}
+
+// sed のスクリプト（-e / --expression、なければ最初の引数）、スクリプトファイル（-f）を使う場合は検査できないためnull
+function sedScripts(args: string[]): string[] | null {
+  const scripts: string[] = [];
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg.startsWith('--')) {
+      if (/^--file(?:=|$)/.test(arg)) return null;
+      if (/^--expression(?:=|$)/.test(arg)) scripts.push(arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[++i] ?? '');
+      // --line-length=N 等の値は = で指定される
+      continue;
+    }
+    if (arg.startsWith('-') && arg !== '-') {
+      // -ne 'p' のようにまとめた短いオプション（e・f・l の後は値）
+      for (let j = 1; j < arg.length; j++) {
+        if (arg[j] === 'f') return null;
+        if (arg[j] === 'e' || arg[j] === 'l') {
+          const value = arg.slice(j + 1) || (args[++i] ?? '');
+          if (arg[j] === 'e') scripts.push(value);
+          break;
+        }
+      }
+      continue;
+    }
+    operands.push(arg);
+  }
+  if (scripts.length === 0 && operands.length > 0) scripts.push(operands[0]);
+  return scripts;
+}
+
+// ファイルへの書き込み（w / W、s の w フラグ）やコマンドの実行（e、s の e フラグ）を含まない sed のスクリプトか
+// 表示・削除・置換等の一部のコマンドのみ受け付け、解析できないものは安全でないとみなす
+function isSafeSedScript(script: string): boolean {
+  let i = 0;
+  // 区切り文字までの正規表現・置換文字列を読み飛ばす
+  const skipDelimited = (delimiter: string): boolean => {
+    while (i < script.length) {
+      const char = script[i++];
+      if (char === '\\') i++;
+      else if (char === delimiter) return true;
+      else if (char === '\n') return false;
+    }
+    return false;
+  };
+  const skipAddress = (): boolean => {
+    if (/[\d+~]/.test(script[i] ?? '')) {
+      // 数値、first~step、GNU の addr,+N / addr,~N
+      while (/[\d+~]/.test(script[i] ?? '')) i++;
+    } else if (script[i] === '$') {
+      i++;
+    } else if (script[i] === '/' || script[i] === '\\') {
+      const delimiter = script[i] === '\\' ? script[++i] : '/';
+      i++;
+      if (!delimiter || !skipDelimited(delimiter)) return false;
+      while (script[i] === 'I' || script[i] === 'M') i++;
+    }
+    return true;
+  };
+
+  while (i < script.length) {
+    if (/[\s;]/.test(script[i])) {
+      i++;
+      continue;
+    }
+    if (!skipAddress()) return false;
+    if (script[i] === ',') {
+      i++;
+      if (!skipAddress()) return false;
+    }
+    while (script[i] === '!' || script[i] === ' ') i++;
+
+    const command = script[i++];
+    if (command !== undefined && 'pdqQ=nNlPDhHgGxz'.includes(command)) {
+      // q / Q / l は数値の引数を取る
+      while (/[\d ]/.test(script[i] ?? '')) i++;
+    } else if (command === 's' || command === 'y') {
+      const delimiter = script[i++];
+      if (!delimiter || delimiter === '\\' || delimiter === '\n' || !skipDelimited(delimiter) || !skipDelimited(delimiter)) return false;
+      if (command === 's') {
+        const flags = script.slice(i).match(/^[^;\n}]*/)![0];
+        if (!/^[gpiImM\d\s]*$/.test(flags)) return false;
+        i += flags.length;
+      }
+    } else {
+      return false;
+    }
+    if (i < script.length && !/[\s;]/.test(script[i])) return false;
+  }
+  return true;
+}
+
+// 読み取り専用モードで実行できない場合はその理由
+function getReadOnlyViolation(segment: ShellSegment): string | null {
+  const redirect = segment.redirects.find(redirect =>
+    isWriteRedirect(redirect) && !HARMLESS_TARGETS.includes(redirect.target)
+  );
+  if (redirect) {
+    return `読み取り専用モードではファイルへのリダイレクト（\`${redirect.operator} ${redirect.target}\`）は使えません`;
+  }
+
+  const [name, ...args] = commandWords(segment);
+  if (!name) return null;
+  const base = commandName(name);
+  if (!READ_ONLY_COMMANDS.includes(base)) {
+    return `読み取り専用モードでは \`${base}\` は使えません`;
+  }
+
+  const hasArg = (pattern: RegExp) => args.some(arg => pattern.test(arg));
+  switch (base) {
+    case 'git':
+      if (!args[0] || !READ_ONLY_GIT_COMMANDS.includes(args[0])) {
+        return `読み取り専用モードでは \`git ${args[0] ?? ''}\` は使えません`;
+      }
+      return hasArg(/^--(?:output|ext-diff|textconv|open-files-in-pager)(?:=|$)|^-[a-zA-Z]*O/)
+        ? '読み取り専用モードでは出力先や外部コマンドを指定するオプションは使えません'
+        : null;
+    case 'find':
+      return hasArg(/^-(?:delete|exec|execdir|ok|okdir|fprint|fprint0|fprintf|fls)$/)
+        ? '読み取り専用モードでは `find` の `-delete` / `-exec` 等は使えません'
+        : null;
+    case 'sed': {
+      if (hasArg(/^-[a-zA-Z]*i|^--in-place/)) return '読み取り専用モードでは `sed -i` は使えません';
+      const scripts = sedScripts(args);
+      if (!scripts) return '読み取り専用モードでは `sed -f`（スクリプトファイル）は使えません';
+      return scripts.every(isSafeSedScript)
+        ? null
+        : '読み取り専用モードでは `sed` の `w` / `e` 等を含むスクリプトは使えません（使えるのは `p` `d` `q` `s` `y` 等のコマンドのみ）';
+    }
+    case 'sort':
+      return hasArg(/^-[a-zA-Z]*o|^--output|^--compress-program/)
+        ? '読み取り専用モードでは `sort -o` / `--compress-program` は使えません'
+        : null;
+    case 'uniq':
+      // 2つ目の引数は出力先のファイル
+      return args.filter(arg => !arg.startsWith('-')).length > 1 ? '読み取り専用モードでは `uniq` の出力先のファイルは指定できません' : null;
+    case 'rg':
+      return hasArg(/^--pre(?:=|$)/) ? '読み取り専用モードでは `rg --pre` は使えません' : null;
+    case 'tree':
+      // -R は各ディレクトリに -o で出力する
+      return hasArg(/^-[a-zA-Z]*[oR]|^--output/) ? '読み取り専用モードでは `tree -o` / `-R` は使えません' : null;
+    default:
+      return null;
+  }
+}
+
+// /shell のコマンドがポリシーで実行できるか確認し、確認が必要な理由を返す
+export function checkShellCommand(
+  command: string,
+  workDir: string,
+  policy: ShellCommandPolicy = DEFAULT_SHELL_COMMAND_POLICY
+): ShellCommandCheck {
+  if (!command.trim()) {
+    return { allowed: false, reason: 'コマンドを指定してください' };
+  }
+
+  const { segments, substitution } = parseShellCommand(command);
+  const texts = [command, ...segments.map(segment => segment.text)];
+
+  const denied = policy.denied.find(pattern => texts.some(text => pattern.test(text)));
+  if (denied) {
+    return { allowed: false, reason: `拒否リストのパターン \`${denied.source}\` に一致します` };
+  }
+
+  if (policy.allowed.length > 0 || policy.readOnly) {
+    // 置換の中で実行されるコマンドは許可リストで確認できない
+    if (substitution) {
+      return { allowed: false, reason: 'コマンド置換（`$(...)`, `` `...` ``）とプロセス置換は使えません' };
+    }
+  }
+
+  if (policy.allowed.length > 0) {
+    const notAllowed = segments.find(segment => !policy.allowed.some(pattern => pattern.test(segment.text)));
+    if (notAllowed) {
+      return { allowed: false, reason: `\`${notAllowed.text}\` は許可リストのどのパターンにも一致しません` };
+    }
+  }
+
+  if (policy.readOnly) {
+    for (const segment of segments) {
+      const violation = getReadOnlyViolation(segment);
+      if (violation) return { allowed: false, reason: violation };
+    }
+  }
+
+  const dangerous = policy.dangerous.filter(({ pattern }) => pattern.test(command)).map(({ reason }) => reason);
+  const outside = findWritesOutside(command, workDir);
+  if (outside.length > 0) {
+    dangerous.push(`リポジトリの外に書き込みます: ${outside.map(path => `\`${path}\``).join(', ')}`);
+  }
+  return { allowed: true, dangerous };
+}
+
+function parsePatterns(path: string, key: string, value: unknown): RegExp[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(pattern => typeof pattern !== 'string')) {
+    throw new Error(`${path}: ${key} には正規表現の文字列の配列を指定してください`);
+  }
+  return value.map((pattern: string) => {
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`${path}: ${key} の正規表現が無効です (${pattern}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+// JSON形式のポリシー設定ファイルを読み込む（dangerous は既定のパターンに追加される）
+export async function loadShellCommandPolicy(path: string): Promise<ShellCommandPolicy> {
+  let parsed;
+  try {
+    parsed = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(`シェルのポリシー設定ファイルを読み込めません (${path}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const dangerousEntries = parsed.dangerous ?? [];
+  if (!Array.isArray(dangerousEntries)) {
+    throw new Error(`${path}: dangerous には { "pattern", "reason" } の配列を指定してください`);
+  }
+  const dangerous = dangerousEntries.map((entry, index) => {
+    if (typeof entry?.pattern !== 'string') {
+      throw new Error(`${path}: dangerous[${index}] に pattern（正規表現の文字列）を指定してください`);
+    }
+    const [pattern] = parsePatterns(path, `dangerous[${index}].pattern`, [entry.pattern]);
+    const reason = typeof entry?.reason === 'string' && entry.reason ? entry.reason : `パターン \`${pattern.source}\` に一致します`;
+    return { pattern, reason };
+  });
+
+  return {
+    allowed: parsePatterns(path, 'allowed', parsed.allowed),
+    denied: parsePatterns(path, 'denied', parsed.denied),
+    dangerous: [...DEFAULT_DANGEROUS_SHELL_PATTERNS, ...dangerous],
+    readOnly: parsed.readOnly === true
+  };
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { checkShellCommand, findWritesOutside, DEFAULT_SHELL_COMMAND_POLICY, type ShellCommandPolicy } from "./policy.ts";
+
+const WORK_DIR = "/repo";
+const READ_ONLY: ShellCommandPolicy = { ...DEFAULT_SHELL_COMMAND_POLICY, readOnly: true };
+
+function allowedReadOnly(command: string): boolean {
+  return checkShellCommand(command, WORK_DIR, READ_ONLY).allowed;
+}
+
+Deno.test("読み取り専用モードで参照系のコマンドは実行できる", () => {
+  for (const command of [
+    "ls -la",
+    "cat README.md | grep foo",
+    "git log --oneline -5",
+    "find . -name '*.ts'",
+    "sed -n '1,20p' index.ts",
+    "sed -e 's/foo/bar/g' -e '/^$/d' file",
+    "sed -ne 's/a/b/2p' file",
+    "sed 's|a;b|c|g;10q' file",
+    "sed -n '/start/,/end/p' file",
+    "sed '0,/re/d' file",
+    "sort -u file | uniq -c",
+    "rg --pre-glob '*.gz' foo",
+    "tree -L 2 -I node_modules",
+    "echo done > /dev/null",
+  ]) {
+    assert.equal(allowedReadOnly(command), true, command);
+  }
+});
+
+Deno.test("読み取り専用モードでファイルを変更するコマンドは拒否される", () => {
+  for (const command of [
+    "rm file",
+    "echo x > file",
+    "git commit -m x",
+    "git diff --output=out.patch",
+    "find . -delete",
+    "find . -exec rm {} ;",
+    "sed -i 's/a/b/' file",
+    "sort -o out file",
+    "ls $(rm file)",
+  ]) {
+    assert.equal(allowedReadOnly(command), false, command);
+  }
+});
+
+Deno.test("読み取り専用モードで sed の書き込み・実行コマンドは拒否される", () => {
+  for (const command of [
+    "sed 'e id' file",
+    "sed '1e touch x' file",
+    "sed 's/x/y/e' file",
+    "sed 's/x/touch y/ge' file",
+    "sed 'w out' file",
+    "sed -n '1,5w out' file",
+    "sed 's/x/y/w out' file",
+    "sed 'p;W out' file",
+    "sed -e p -e 'w out' file",
+    "sed --expression='w out' file",
+    "sed -ne 'e id' file",
+    "sed -f script.sed file",
+    "sed --file=script.sed file",
+  ]) {
+    assert.equal(allowedReadOnly(command), false, command);
+  }
+});
+
+Deno.test("読み取り専用モードで rg・sort・tree・uniq の書き込みや外部コマンドは拒否される", () => {
+  for (const command of [
+    "rg --pre ./run.sh foo",
+    "rg --pre=./run.sh foo",
+    "sort --compress-program=./run.sh file",
+    "sort --output=out file",
+    "sort -ro out file",
+    "tree -o out",
+    "tree -aRH . -o x.html",
+    "uniq in out",
+  ]) {
+    assert.equal(allowedReadOnly(command), false, command);
+  }
+});
+
+Deno.test("確認が必要なコマンドは理由を返す", () => {
+  const check = checkShellCommand("rm -rf build", WORK_DIR);
+  assert.equal(check.allowed, true);
+  assert.equal(check.allowed && check.dangerous.length, 1);
+
+  const safe = checkShellCommand("ls", WORK_DIR);
+  assert.deepEqual(safe, { allowed: true, dangerous: [] });
+});
+
+Deno.test("許可リスト・拒否リストで制限される", () => {
+  const policy: ShellCommandPolicy = { ...DEFAULT_SHELL_COMMAND_POLICY, allowed: [/^ls\b/, /^cat\b/], denied: [/secret/] };
+  assert.equal(checkShellCommand("ls | cat", WORK_DIR, policy).allowed, true);
+  assert.equal(checkShellCommand("ls; rm x", WORK_DIR, policy).allowed, false);
+  assert.equal(checkShellCommand("cat secret.txt", WORK_DIR, policy).allowed, false);
+});
+
+Deno.test("リポジトリの外への書き込みを検出する", () => {
+  assert.deepEqual(findWritesOutside("echo x > /tmp/out", WORK_DIR), ["/tmp/out"]);
+  assert.deepEqual(findWritesOutside("cd .. && touch file", WORK_DIR), ["file"]);
+  assert.deepEqual(findWritesOutside("cp a b && echo x > out 2>&1", WORK_DIR), []);
+});
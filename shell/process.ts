@@ -0,0 +1,177 @@
+// シェルプロセスとその子孫のプロセスの一覧・停止
+// Linuxでは setsid で新しいセッション（プロセスグループ）で起動し、グループ全体にシグナルを送る
+
+export interface ProcessUsage {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  command: string;
+  // 常駐メモリ（KB）
+  rssKb: number;
+  // 累積のCPU時間（秒）
+  cpuSec: number;
+}
+
+// /proc/<pid>/stat の utime・stime の単位（Linuxでは常に100）
+const CLOCK_TICKS_PER_SEC = 100;
+
+// 停止を待つ間にプロセスが残っているか確認する間隔
+const KILL_POLL_INTERVAL_MS = 200;
+
+// コマンドを新しいセッションで起動する引数（プロセスIDがそのままプロセスグループIDになる）
+export function processGroupCommand(cmd: string, args: string[]): { cmd: string; args: string[] } {
+  return Deno.build.os === 'linux' ? { cmd: 'setsid', args: [cmd, ...args] } : { cmd, args };
+}
+
+async function listLinuxProcesses(): Promise<ProcessUsage[]> {
+  const processes: ProcessUsage[] = [];
+  for await (const entry of Deno.readDir('/proc')) {
+    if (!/^\d+$/.test(entry.name)) continue;
+    try {
+      const stat = await Deno.readTextFile(`/proc/${entry.name}/stat`);
+      // コマンド名は括弧で囲まれ、空白や括弧を含むことがある
+      const end = stat.lastIndexOf(')');
+      const fields = stat.slice(end + 2).split(' ');
+      // ゾンビは終了済み
+      if (fields[0] === 'Z') continue;
+      processes.push({
+        pid: Number(entry.name),
+        ppid: Number(fields[1]),
+        pgid: Number(fields[2]),
+        command: stat.slice(stat.indexOf('(') + 1, end),
+        rssKb: 0,
+        cpuSec: (Number(fields[11]) + Number(fields[12])) / CLOCK_TICKS_PER_SEC
+      });
+    } catch {
+      // 一覧の取得中に終了したプロセス
+    }
+  }
+  return processes;
+}
+
+async function readRssKb(pid: number): Promise<number> {
+  try {
+    const status = await Deno.readTextFile(`/proc/${pid}/status`);
+    return Number(status.match(/^VmRSS:\s+(\d+)/m)?.[1] ?? 0);
+  } catch {
+    return 0;
+  }
+}
+
+// [[dd-]hh:]mm:ss[.xx] 形式のCPU時間を秒にする
+function parseCpuTime(value: string): number {
+  const [days, time] = value.includes('-') ? value.split('-') : ['0', value];
+  return time.split(':').reduce((total, part) => total * 60 + Number(part), 0) + Number(days) * 86400;
+}
+
+async function listPsProcesses(): Promise<ProcessUsage[]> {
+  const output = await new Deno.Command('ps', {
+    args: ['-A', '-o', 'pid=,ppid=,pgid=,stat=,rss=,time=,comm='],
+    stdout: 'piped',
+    stderr: 'null'
+  }).output();
+  if (!output.success) {
+    throw new Error('ps でプロセスの一覧を取得できません');
+  }
+
+  const processes: ProcessUsage[] = [];
+  for (const line of new TextDecoder().decode(output.stdout).split('\n')) {
+    const match = line.trim().match(/^(\d+)\s+(\d+)\s+(\d+)\s+(\S+)\s+(\d+)\s+(\S+)\s+(.*)$/);
+    if (!match || match[4].startsWith('Z')) continue;
+    processes.push({
+      pid: Number(match[1]),
+      ppid: Number(match[2]),
+      pgid: Number(match[3]),
+      command: match[7],
+      rssKb: Number(match[5]),
+      cpuSec: parseCpuTime(match[6])
+    });
+  }
+  return processes;
+}
+
+// 実行中のプロセスの一覧（ゾンビを除く、Linuxは /proc、それ以外は ps を使う）
+export async function listProcesses(): Promise<ProcessUsage[]> {
+  return Deno.build.os === 'linux' ? await listLinuxProcesses() : await listPsProcesses();
+}
+
+// rootPid とその子孫、および rootPid のプロセスグループに属するプロセス
+function findProcessTree(processes: ProcessUsage[], rootPid: number): ProcessUsage[] {
+  const children = new Map<number, ProcessUsage[]>();
+  for (const process of processes) {
+    children.set(process.ppid, [...(children.get(process.ppid) ?? []), process]);
+  }
+
+  const tree: ProcessUsage[] = [];
+  const seen = new Set<number>();
+  const add = (process: ProcessUsage) => {
+    if (seen.has(process.pid)) return;
+    seen.add(process.pid);
+    tree.push(process);
+    (children.get(process.pid) ?? []).forEach(add);
+  };
+  processes.filter(process => process.pid === rootPid).forEach(add);
+  // 親が先に終了したプロセスもグループIDで見つける
+  processes.filter(process => process.pgid === rootPid).forEach(add);
+  return tree;
+}
+
+// シェルプロセスと子孫のプロセスの使用量（先頭がシェルプロセス）
+export async function getProcessTree(rootPid: number): Promise<ProcessUsage[]> {
+  const tree = findProcessTree(await listProcesses(), rootPid);
+  if (Deno.build.os === 'linux') {
+    await Promise.all(tree.map(async (process) => {
+      process.rssKb = await readRssKb(process.pid);
+    }));
+  }
+  return tree;
+}
+
+// プロセスグループ全体と、別のグループに移った子孫のプロセスにシグナルを送る
+export function signalProcessTree(rootPid: number, pids: number[], signal: Deno.Signal): void {
+  try {
+    Deno.kill(-rootPid, signal);
+  } catch {
+    // 新しいプロセスグループで起動していない・既に終了している
+  }
+  for (const pid of pids) {
+    try {
+      Deno.kill(pid, signal);
+    } catch {
+      // 既に終了している
+    }
+  }
+}
+
+// SIGTERMを送り、graceMs以内に終了しないプロセスにはSIGKILLを送る
+export async function terminateProcessTree(rootPid: number, graceMs: number): Promise<void> {
+  let pids: number[];
+  try {
+    // シグナルを送ると親が終了して子孫をたどれなくなるため、先に一覧を取得する
+    pids = findProcessTree(await listProcesses(), rootPid).map(process => process.pid);
+  } catch (error) {
+    console.error('Failed to list shell child processes:', error);
+    pids = [rootPid];
+  }
+
+  signalProcessTree(rootPid, pids, 'SIGTERM');
+
+  const remaining = async (): Promise<number[]> => {
+    try {
+      const alive = (await listProcesses()).filter(process => pids.includes(process.pid) || process.pgid === rootPid);
+      return alive.map(process => process.pid);
+    } catch {
+      return pids;
+    }
+  };
+
+  const deadline = Date.now() + graceMs;
+  let alive = await remaining();
+  while (alive.length > 0 && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, KILL_POLL_INTERVAL_MS));
+    alive = await remaining();
+  }
+  if (alive.length > 0) {
+    signalProcessTree(rootPid, alive, 'SIGKILL');
+  }
+}
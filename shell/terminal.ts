@@ -0,0 +1,70 @@
+import type { SpecialKey } from "./types.ts";
+
+// 擬似端末のデフォルトのサイズ
+export const DEFAULT_TERMINAL_COLS = 120;
+export const DEFAULT_TERMINAL_ROWS = 40;
+
+// 擬似端末に送信する特殊キーのシーケンス
+export const SPECIAL_KEYS: Record<SpecialKey, { label: string; sequence: string }> = {
+  'ctrl-c': { label: 'Ctrl-C', sequence: '\x03' },
+  'ctrl-d': { label: 'Ctrl-D', sequence: '\x04' },
+  'ctrl-z': { label: 'Ctrl-Z', sequence: '\x1a' },
+  'ctrl-l': { label: 'Ctrl-L', sequence: '\x0c' },
+  'enter': { label: 'Enter', sequence: '\r' },
+  'tab': { label: 'Tab', sequence: '\t' },
+  'esc': { label: 'Esc', sequence: '\x1b' },
+  'up': { label: '↑', sequence: '\x1b[A' },
+  'down': { label: '↓', sequence: '\x1b[B' },
+  'right': { label: '→', sequence: '\x1b[C' },
+  'left': { label: '←', sequence: '\x1b[D' },
+};
+
+export const SPECIAL_KEY_NAMES = Object.keys(SPECIAL_KEYS) as SpecialKey[];
+
+export function isSpecialKey(value: string): value is SpecialKey {
+  return value in SPECIAL_KEYS;
+}
+
+// シングルクォートで囲んでシェルの引数にする
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+// scriptコマンドで擬似端末を割り当ててbashを起動する引数（端末のサイズはsttyで設定）
+export function ptyCommand(command: string, cols: number, rows: number): { cmd: string; args: string[] } {
+  const script = `stty cols ${cols} rows ${rows} 2>/dev/null; ${command}`;
+  switch (Deno.build.os) {
+    case 'linux':
+      // util-linux: -e で子プロセスの終了コードを返し、-f で出力をすぐに書き出す
+      return { cmd: 'script', args: ['-qfec', `exec bash -c ${shellQuote(script)}`, '/dev/null'] };
+    case 'darwin':
+    case 'freebsd':
+      return { cmd: 'script', args: ['-q', '/dev/null', 'bash', '-c', script] };
+    default:
+      throw new Error(`擬似端末モードは ${Deno.build.os} では使えません`);
+  }
+}
+
+// CSI・OSC等のエスケープシーケンス（色やカーソル移動）
+// deno-lint-ignore no-control-regex
+const ESCAPE_SEQUENCES = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[@-Z\\-_=>]/g;
+
+// 端末への出力をコードブロックで表示できるテキストにする
+// エスケープシーケンスを除き、行内の復帰（\r）とバックスペースは上書きとして反映する
+export function renderTerminalOutput(text: string): string {
+  return text.replace(ESCAPE_SEQUENCES, '').split('\n').map((line) => {
+    const chars: string[] = [];
+    let cursor = 0;
+    // 行末の\r（端末の改行は\r\n）は上書きではない
+    for (const char of line.replace(/\r+$/, '')) {
+      if (char === '\r') {
+        cursor = 0;
+      } else if (char === '\b') {
+        cursor = Math.max(0, cursor - 1);
+      } else if (char === '\t' || char >= ' ') {
+        chars[cursor++] = char;
+      }
+    }
+    return chars.join('');
+  }).join('\n');
+}
@@ -1,3 +1,5 @@
+import type { ShellOutputBuffer } from "./output.ts";
+
 export interface ShellProcess {
   command: string;
   startTime: Date;
@@ -5,16 +7,65 @@ export interface ShellProcess {
   stdin?: WritableStreamDefaultWriter;
   // deno-lint-ignore no-explicit-any
   discordContext?: any;
+  // これまでの出力（擬似端末の場合はエスケープシーケンスを含む、上限を超えた分はファイルに書き出す）
+  output: ShellOutputBuffer;
   outputSinceLastUpdate?: string;
+  // 擬似端末で実行している場合の端末のサイズ
+  terminal?: { cols: number; rows: number };
+  limits: ShellProcessLimits;
+}
+
+// プロセスごとのリソース制限（0は無制限）
+export interface ShellProcessLimits {
+  // 実行時間の上限（秒、超えたら停止する）
+  timeoutSec: number;
+  // CPU時間の上限（秒、ulimit -t）
+  cpuSec: number;
+  // 仮想メモリの上限（MB、ulimit -v）
+  memoryMb: number;
+}
+
+export interface ShellManagerLimits extends ShellProcessLimits {
+  // 同時に実行できるプロセス数（0は無制限）
+  maxProcesses: number;
+  // プロセスごとにメモリに保持する出力の文字数
+  maxOutputChars: number;
 }
 
+export interface ShellExecuteOptions {
+  // 擬似端末（PTY）で実行する（isattyを確認するプログラムやREPL向け）
+  pty?: boolean;
+  cols?: number;
+  rows?: number;
+  // 確認が必要なコマンド（rm -rf 等）の実行が確認済み
+  confirmed?: boolean;
+  // リソース制限（全体の上限までに制限される）
+  timeoutSec?: number;
+  cpuSec?: number;
+  memoryMb?: number;
+}
+
+// /shell-input やボタンで送信できる特殊キー
+export type SpecialKey = 'ctrl-c' | 'ctrl-d' | 'ctrl-z' | 'ctrl-l' | 'enter' | 'tab' | 'esc' | 'up' | 'down' | 'left' | 'right';
+
 export interface ShellExecutionResult {
   processId: number;
+  limits: ShellProcessLimits;
   onOutput: (callback: (output: string) => void) => void;
-  onComplete: (callback: (code: number, output: string) => void) => void;
+  onComplete: (callback: (code: number, output: string, details: ShellCompletionDetails) => void) => void;
   onError: (callback: (error: Error) => void) => void;
 }
 
+export interface ShellCompletionDetails {
+  // タイムアウトで停止した
+  timedOut: boolean;
+  // 出力がバッファの上限を超え、渡された出力が末尾のみの場合
+  truncated: boolean;
+  totalChars: number;
+  // 出力全体を書き出したファイル
+  spillPath: string | null;
+}
+
 export interface ShellInputResult {
   success: boolean;
   process?: ShellProcess;
@@ -1,4 +1,7 @@
 import { SlashCommandBuilder } from "npm:discord.js@14.14.1";
+import { SETTING_KEYS } from "./settings.ts";
+
+const SETTING_KEY_CHOICES = SETTING_KEYS.map(key => ({ name: key, value: key }));
 
 export const utilsCommands = [
   new SlashCommandBuilder()
@@ -12,23 +15,61 @@ export const utilsCommands = [
   new SlashCommandBuilder()
     .setName('settings')
     .setDescription('ボットの設定を管理')
-    .addStringOption(option =>
-      option.setName('action')
-        .setDescription('実行するアクション')
-        .setRequired(true)
-        .addChoices(
-          { name: 'mention-on', value: 'mention-on' },
-          { name: 'mention-off', value: 'mention-off' },
-          { name: 'show', value: 'show' }
-        ))
-    .addStringOption(option =>
-      option.setName('value')
-        .setDescription('設定値（mention-onの場合はユーザーID）')
-        .setRequired(false)),
+    .addSubcommand(subcommand =>
+      subcommand.setName('list')
+        .setDescription('すべての設定を表示'))
+    .addSubcommand(subcommand =>
+      subcommand.setName('get')
+        .setDescription('設定の値を表示')
+        .addStringOption(option =>
+          option.setName('key')
+            .setDescription('設定のキー')
+            .setRequired(true)
+            .addChoices(...SETTING_KEY_CHOICES)))
+    .addSubcommand(subcommand =>
+      subcommand.setName('set')
+        .setDescription('設定を変更（再起動後も保持されます）')
+        .addStringOption(option =>
+          option.setName('key')
+            .setDescription('設定のキー')
+            .setRequired(true)
+            .addChoices(...SETTING_KEY_CHOICES))
+        .addStringOption(option =>
+          option.setName('value')
+            .setDescription('設定値（指定できる値は /settings list の説明を参照）')
+            .setRequired(true)))
+    .addSubcommand(subcommand =>
+      subcommand.setName('reset')
+        .setDescription('設定を起動時の既定値に戻す')
+        .addStringOption(option =>
+          option.setName('key')
+            .setDescription('設定のキー（省略時はすべて）')
+            .setRequired(false)
+            .addChoices(...SETTING_KEY_CHOICES))),
   
   new SlashCommandBuilder()
     .setName('shutdown')
     .setDescription('ボットをシャットダウン'),
 ];
 
-export { createUtilsHandlers, type UtilsHandlerDeps } from "./handler.ts";
\ No newline at end of file
+export { createUtilsHandlers, type UtilsHandlerDeps } from "./handler.ts";
+export {
+  SettingsStore,
+  SETTING_KEYS,
+  SETTING_DEFINITIONS,
+  isSettingKey,
+  parsePermissionMode,
+  parseBudget,
+  parseModelList,
+  parseVerbosity,
+  parseToggle,
+  parseNotificationEvents,
+  parseMentionTarget,
+  formatMention,
+  formatDuration,
+  shouldNotify,
+  NOTIFICATION_EVENTS,
+  type SettingKey,
+  type SettingEntry,
+  type SettingsListener
+} from "./settings.ts";
@@ -1,73 +1,63 @@
 import type { SettingsResult, PwdResult } from "./types.ts";
+import { isSettingKey, type SettingsStore } from "./settings.ts";
 
 export interface UtilsHandlerDeps {
   workDir: string;
   repoName: string;
   branchName: string;
   actualCategoryName: string;
-  botSettings: {
-    mentionEnabled: boolean;
-    mentionUserId: string | null;
-  };
-  updateBotSettings: (settings: { mentionEnabled: boolean; mentionUserId: string | null }) => void;
+  settings: SettingsStore;
 }
 
 export function createUtilsHandlers(deps: UtilsHandlerDeps) {
-  const { workDir, repoName, branchName, actualCategoryName, botSettings, updateBotSettings } = deps;
+  const { workDir, repoName, branchName, actualCategoryName, settings } = deps;
   
   return {
     // deno-lint-ignore no-explicit-any
-    onSettings(_ctx: any, action: string, value?: string): SettingsResult {
-      switch (action) {
-        case 'mention-on': {
-          if (!value) {
-            return {
-              success: false,
-              message: '❌ ユーザーIDを指定してください。例: `/settings mention-on 123456789012345678`'
-            };
-          }
-          
-          if (!/^\d{17,19}$/.test(value)) {
-            return {
-              success: false,
-              message: '❌ 無効なユーザーIDです。DiscordのユーザーIDは17-19桁の数字です。'
-            };
+    async onSettings(_ctx: any, subcommand: string, key?: string, value?: string): Promise<SettingsResult> {
+      if (key !== undefined && !isSettingKey(key)) {
+        return {
+          success: false,
+          message: `❌ 不明な設定です: \`${key}\`。\`/settings list\` で設定の一覧を確認できます。`
+        };
+      }
+      
+      switch (subcommand) {
+        case 'list': {
+          return { success: true, entries: settings.list() };
+        }
+        
+        case 'get': {
+          if (!key) {
+            return { success: false, message: '❌ 設定のキーを指定してください。' };
           }
-          
-          botSettings.mentionEnabled = true;
-          botSettings.mentionUserId = value;
-          updateBotSettings(botSettings);
-          
-          return {
-            success: true,
-            mentionEnabled: true,
-            mentionUserId: value
-          };
+          return { success: true, entries: [settings.entry(key)] };
         }
         
-        case 'mention-off': {
-          botSettings.mentionEnabled = false;
-          updateBotSettings(botSettings);
-          
-          return {
-            success: true,
-            mentionEnabled: false,
-            mentionUserId: botSettings.mentionUserId
-          };
+        case 'set': {
+          if (!key || value === undefined) {
+            return { success: false, message: '❌ 設定のキーと値を指定してください。例: `/settings set permission-mode ask`' };
+          }
+          const result = await settings.set(key, value);
+          if (!result.success) {
+            return { success: false, message: result.message };
+          }
+          return { success: true, message: `\`${key}\` を変更しました。`, entries: [settings.entry(key)] };
         }
         
-        case 'show': {
+        case 'reset': {
+          await settings.reset(key);
           return {
             success: true,
-            mentionEnabled: botSettings.mentionEnabled,
-            mentionUserId: botSettings.mentionUserId
+            message: key ? `\`${key}\` を既定値に戻しました。` : 'すべての設定を既定値に戻しました。',
+            entries: key ? [settings.entry(key)] : settings.list()
           };
         }
         
         default: {
           return {
             success: false,
-            message: '❌ 無効なアクションです。'
+            message: '❌ 無効なサブコマンドです。'
           };
         }
       }
@@ -82,4 +72,4 @@ export function createUtilsHandlers(deps: UtilsHandlerDeps) {
       };
     }
   };
-}
\ No newline at end of file
+}
@@ -1,2 +1,24 @@
 export * from "./types.ts";
-export { utilsCommands, createUtilsHandlers, type UtilsHandlerDeps } from "./command.ts";
\ No newline at end of file
+export {
+  utilsCommands,
+  createUtilsHandlers,
+  SettingsStore,
+  SETTING_KEYS,
+  SETTING_DEFINITIONS,
+  isSettingKey,
+  parsePermissionMode,
+  parseBudget,
+  parseModelList,
+  parseVerbosity,
+  parseToggle,
+  parseNotificationEvents,
+  parseMentionTarget,
+  formatMention,
+  formatDuration,
+  shouldNotify,
+  NOTIFICATION_EVENTS,
+  type UtilsHandlerDeps,
+  type SettingKey,
+  type SettingEntry,
+  type SettingsListener
+} from "./command.ts";
@@ -0,0 +1,396 @@
+import { dirname } from "node:path";
+import { BOT_DATA_DIR, ensureBotDataDir } from "../claude/registry.ts";
+import type { PermissionMode, Verbosity } from "../claude/types.ts";
+import type { BotSettings, NotificationEvent } from "./types.ts";
+
+// permission-mode で指定できる値（別名を含む）
+const PERMISSION_MODE_ALIASES: Record<string, PermissionMode> = {
+  'bypass': 'bypassPermissions',
+  'bypassPermissions': 'bypassPermissions',
+  'acceptEdits': 'acceptEdits',
+  'accept-edits': 'acceptEdits',
+  'ask': 'default',
+  'default': 'default',
+};
+
+export function parsePermissionMode(value: string): PermissionMode | null {
+  return PERMISSION_MODE_ALIASES[value] ?? null;
+}
+
+// 予算の値をパース（"off"は無制限としてnull、不正な値はundefined）
+export function parseBudget(value: string): number | null | undefined {
+  if (value === 'off') return null;
+  const amount = Number(value.replace(/^\$/, ''));
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+// モデル名のリストをパース（カンマ・空白区切り、"none"は空）
+export function parseModelList(value: string): string[] {
+  if (value.trim().toLowerCase() === 'none') return [];
+  return value.split(/[,\s]+/).map(name => name.trim()).filter(Boolean);
+}
+
+// 表示レベル（別名を含む）
+const VERBOSITY_ALIASES: Record<string, Verbosity> = {
+  'answer': 'answer',
+  'tools': 'tools',
+  'full': 'full',
+  'trace': 'full',
+};
+
+export function parseVerbosity(value: string): Verbosity | null {
+  return VERBOSITY_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+// on/offの値をパース（不正な値はnull）
+export function parseToggle(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (['on', 'true', 'yes', '1'].includes(normalized)) return true;
+  if (['off', 'false', 'no', '0'].includes(normalized)) return false;
+  return null;
+}
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['complete', 'error', 'approval', 'budget', 'shell'];
+
+// 実行時間の条件を適用するイベント（承認待ち・予算超過はすぐに対応が必要なため常に通知）
+const DURATION_EVENTS: NotificationEvent[] = ['complete', 'error', 'shell'];
+
+// 通知するイベントのリストをパース（"all"/"none"、不正な値があればnull）
+export function parseNotificationEvents(value: string): NotificationEvent[] | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'all') return [...NOTIFICATION_EVENTS];
+  if (trimmed === 'none') return [];
+  const names = trimmed.split(/[,\s]+/).filter(Boolean);
+  if (names.length === 0 || !names.every(name => (NOTIFICATION_EVENTS as string[]).includes(name))) {
+    return null;
+  }
+  return NOTIFICATION_EVENTS.filter(event => names.includes(event));
+}
+
+// メンション先をパース（ユーザーID・<@ユーザーID>・<@&ロールID>・role:ロールID、不正な値はnull）
+export function parseMentionTarget(value: string): { userId: string | null; roleId: string | null } | null {
+  const trimmed = value.trim();
+  const role = trimmed.match(/^(?:<@&(\d{17,19})>|role:(\d{17,19}))$/);
+  if (role) return { userId: null, roleId: role[1] ?? role[2] };
+  const user = trimmed.match(/^(?:<@!?(\d{17,19})>|(\d{17,19}))$/);
+  if (user) return { userId: user[1] ?? user[2], roleId: null };
+  return null;
+}
+
+// メンションの文字列（メンションが無効な場合はnull）
+export function formatMention(settings: Pick<BotSettings, 'mentionEnabled' | 'mentionUserId' | 'mentionRoleId'>): string | null {
+  if (!settings.mentionEnabled) return null;
+  if (settings.mentionRoleId) return `<@&${settings.mentionRoleId}>`;
+  if (settings.mentionUserId) return `<@${settings.mentionUserId}>`;
+  return null;
+}
+
+// イベントをメンションで通知するかどうか
+export function shouldNotify(settings: BotSettings, event: NotificationEvent, durationMs?: number): boolean {
+  if (!formatMention(settings) || !settings.notifyEvents.includes(event)) return false;
+  if (DURATION_EVENTS.includes(event) && durationMs !== undefined) {
+    return durationMs >= settings.notifyMinDurationSec * 1000;
+  }
+  return true;
+}
+
+// 実行時間を表示用に整形
+export function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 60) return `${seconds}秒`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}分${seconds % 60}秒`;
+  return `${Math.floor(minutes / 60)}時間${minutes % 60}分`;
+}
+
+// /settings で扱う設定のキー
+export const SETTING_KEYS = [
+  'mention',
+  'notify-events',
+  'notify-min-duration',
+  'permission-mode',
+  'model',
+  'fallback-models',
+  'budget-daily',
+  'budget-session',
+  'verbosity',
+  'show-thinking',
+  'show-tool-results',
+  'show-other'
+] as const;
+
+export type SettingKey = typeof SETTING_KEYS[number];
+
+interface SettingDefinition {
+  description: string;
+  // 指定できる値の説明（不正な値のときに表示）
+  usage: string;
+  // このキーで変更されるBotSettingsのフィールド（resetで既定値に戻す）
+  fields: (keyof BotSettings)[];
+  // 値をパース（不正な値はnull）
+  parse(value: string): Partial<BotSettings> | null;
+  format(settings: BotSettings): string;
+}
+
+function formatBudgetValue(budget: number | null): string {
+  return budget === null ? '無制限' : `$${budget.toFixed(2)}`;
+}
+
+// on/offで切り替える設定
+function toggleSetting(field: 'showThinking' | 'showToolResults' | 'showOtherContent', description: string): SettingDefinition {
+  return {
+    description,
+    usage: '`on` または `off`',
+    fields: [field],
+    parse(value) {
+      const enabled = parseToggle(value);
+      return enabled === null ? null : { [field]: enabled };
+    },
+    format: (settings) => settings[field] ? 'on' : 'off'
+  };
+}
+
+export const SETTING_DEFINITIONS: Record<SettingKey, SettingDefinition> = {
+  'mention': {
+    description: '通知でメンションするユーザー・ロール',
+    usage: 'ユーザーID、`role:ロールID`（`<@ID>` / `<@&ID>` も可）、または `off`',
+    fields: ['mentionEnabled', 'mentionUserId', 'mentionRoleId'],
+    parse(value) {
+      if (value.trim().toLowerCase() === 'off') return { mentionEnabled: false };
+      const target = parseMentionTarget(value);
+      return target ? { mentionEnabled: true, mentionUserId: target.userId, mentionRoleId: target.roleId } : null;
+    },
+    format: (settings) => formatMention(settings) ?? '無効'
+  },
+  'notify-events': {
+    description: 'メンションで通知するイベント',
+    usage: `${NOTIFICATION_EVENTS.join(', ')} のカンマ区切り、または all / none`,
+    fields: ['notifyEvents'],
+    parse(value) {
+      const events = parseNotificationEvents(value);
+      return events ? { notifyEvents: events } : null;
+    },
+    format: (settings) => settings.notifyEvents.length > 0 ? settings.notifyEvents.join(', ') : 'なし'
+  },
+  'notify-min-duration': {
+    description: 'これより短い実行の完了・失敗・/shellの終了は通知しない（秒）',
+    usage: '0以上の秒数（0で常に通知）',
+    fields: ['notifyMinDurationSec'],
+    parse(value) {
+      const seconds = Number(value.trim().replace(/s$/, ''));
+      return value.trim() && Number.isFinite(seconds) && seconds >= 0 ? { notifyMinDurationSec: seconds } : null;
+    },
+    format: (settings) => `${settings.notifyMinDurationSec}秒`
+  },
+  'permission-mode': {
+    description: 'Claude Codeのツール実行許可モード',
+    usage: '`bypass`, `acceptEdits`, `ask`',
+    fields: ['permissionMode'],
+    parse(value) {
+      const mode = parsePermissionMode(value.trim());
+      return mode ? { permissionMode: mode } : null;
+    },
+    format: (settings) => settings.permissionMode
+  },
+  'model': {
+    description: 'デフォルトのモデル',
+    usage: 'モデル名（例: opus, sonnet）、または `default`',
+    fields: ['model'],
+    parse(value) {
+      const name = value.trim();
+      if (!name) return null;
+      return { model: name.toLowerCase() === 'default' ? null : name };
+    },
+    format: (settings) => settings.model ?? 'デフォルト'
+  },
+  'fallback-models': {
+    description: 'レート制限時に順に試すモデル',
+    usage: 'モデル名のカンマ区切り、または `none`',
+    fields: ['fallbackModels'],
+    parse: (value) => ({ fallbackModels: parseModelList(value) }),
+    format: (settings) => settings.fallbackModels.length > 0 ? settings.fallbackModels.join(' → ') : 'なし'
+  },
+  'budget-daily': {
+    description: '1日あたりの予算上限（USD）',
+    usage: 'USDの金額、または `off`（無制限）',
+    fields: ['dailyBudgetUsd'],
+    parse(value) {
+      const budget = parseBudget(value.trim());
+      return budget === undefined ? null : { dailyBudgetUsd: budget };
+    },
+    format: (settings) => formatBudgetValue(settings.dailyBudgetUsd)
+  },
+  'budget-session': {
+    description: '1セッションあたりの予算上限（USD）',
+    usage: 'USDの金額、または `off`（無制限）',
+    fields: ['sessionBudgetUsd'],
+    parse(value) {
+      const budget = parseBudget(value.trim());
+      return budget === undefined ? null : { sessionBudgetUsd: budget };
+    },
+    format: (settings) => formatBudgetValue(settings.sessionBudgetUsd)
+  },
+  'verbosity': {
+    description: 'スレッドに表示する内容（answer: 最終的な回答のみ、tools: 回答とツール名、full: すべて）',
+    usage: '`answer`, `tools`, `full`',
+    fields: ['verbosity'],
+    parse(value) {
+      const verbosity = parseVerbosity(value);
+      return verbosity ? { verbosity } : null;
+    },
+    format: (settings) => settings.verbosity
+  },
+  'show-thinking': toggleSetting('showThinking', 'Claudeの思考を表示（fullのみ）'),
+  'show-tool-results': toggleSetting('showToolResults', 'ツール結果の本文を表示（fullのみ）'),
+  'show-other': toggleSetting('showOtherContent', 'その他のコンテンツのJSONを表示（fullのみ）')
+};
+
+export function isSettingKey(key: string): key is SettingKey {
+  return (SETTING_KEYS as readonly string[]).includes(key);
+}
+
+export interface SettingEntry {
+  key: SettingKey;
+  value: string;
+  description: string;
+  // /settings で変更されている（既定値ではない）
+  overridden: boolean;
+}
+
+// 設定が変更されたときに、変更されたフィールドとともに呼ばれる
+export type SettingsListener = (settings: BotSettings, changed: (keyof BotSettings)[]) => void;
+
+// ボット設定をブランチごとにJSONファイルに永続化
+// 起動時の既定値（環境変数など）から変更された値のみを保存する
+export class SettingsStore {
+  private filePath: string;
+  private branchName: string;
+  private defaults: BotSettings;
+  // ブランチ名 -> 既定値から変更された設定
+  private branches: Record<string, Partial<BotSettings>> = {};
+  private settings: BotSettings;
+  private listeners = new Set<SettingsListener>();
+  // 書き込みを直列化するためのチェーン
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, branchName: string, defaults: BotSettings) {
+    this.filePath = filePath;
+    this.branchName = branchName;
+    this.defaults = defaults;
+    this.settings = { ...defaults };
+  }
+
+  static forWorkDir(workDir: string, branchName: string, defaults: BotSettings): SettingsStore {
+    return new SettingsStore(`${workDir}/${BOT_DATA_DIR}/settings.json`, branchName, defaults);
+  }
+
+  private get overrides(): Partial<BotSettings> {
+    return this.branches[this.branchName] ?? {};
+  }
+
+  async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await Deno.readTextFile(this.filePath));
+      this.branches = data.branches && typeof data.branches === 'object' ? data.branches : {};
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.error(`設定の読み込みに失敗しました (${this.filePath}):`, error);
+      }
+      this.branches = {};
+    }
+
+    // 既知のフィールドのみを既定値に上書きする
+    const overrides = Object.fromEntries(
+      Object.entries(this.overrides).filter(([field]) => field in this.defaults)
+    ) as Partial<BotSettings>;
+    this.branches[this.branchName] = overrides;
+    this.settings = { ...this.defaults, ...overrides };
+  }
+
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify({ branches: this.branches }, null, 2);
+    this.writeChain = this.writeChain.then(async () => {
+      await ensureBotDataDir(dirname(this.filePath));
+      // 書き込み途中で壊れないよう一時ファイル経由で置き換える
+      const tmpPath = `${this.filePath}.tmp`;
+      await Deno.writeTextFile(tmpPath, snapshot);
+      await Deno.rename(tmpPath, this.filePath);
+    }).catch((error) => {
+      console.error(`設定の保存に失敗しました (${this.filePath}):`, error);
+    });
+    return this.writeChain;
+  }
+
+  private notify(changed: (keyof BotSettings)[]): void {
+    if (changed.length === 0) return;
+    const settings = this.get();
+    for (const listener of this.listeners) {
+      try {
+        listener(settings, changed);
+      } catch (error) {
+        console.error('設定の変更通知に失敗しました:', error);
+      }
+    }
+  }
+
+  get(): BotSettings {
+    return { ...this.settings };
+  }
+
+  // 設定の変更を購読（戻り値で購読を解除）
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 値を変更して保存
+  async update(changes: Partial<BotSettings>): Promise<void> {
+    const changed = (Object.keys(changes) as (keyof BotSettings)[])
+      .filter(field => JSON.stringify(changes[field]) !== JSON.stringify(this.settings[field]));
+    this.branches[this.branchName] = { ...this.overrides, ...changes };
+    this.settings = { ...this.settings, ...changes };
+    await this.save();
+    this.notify(changed);
+  }
+
+  // キーの値を文字列からパースして変更
+  async set(key: SettingKey, value: string): Promise<{ success: boolean; message?: string }> {
+    const definition = SETTING_DEFINITIONS[key];
+    const changes = definition.parse(value);
+    if (!changes) {
+      return { success: false, message: `❌ \`${key}\` の値が無効です。指定できる値: ${definition.usage}` };
+    }
+    await this.update(changes);
+    return { success: true };
+  }
+
+  // キーを既定値に戻す（キーを省略した場合はすべて）
+  async reset(key?: SettingKey): Promise<void> {
+    const fields = key ? SETTING_DEFINITIONS[key].fields : Object.keys(this.defaults) as (keyof BotSettings)[];
+    const overrides = { ...this.overrides };
+    const changed = fields.filter(field => JSON.stringify(this.defaults[field]) !== JSON.stringify(this.settings[field]));
+    for (const field of fields) {
+      delete overrides[field];
+    }
+    this.branches[this.branchName] = overrides;
+    this.settings = { ...this.defaults, ...overrides };
+    await this.save();
+    this.notify(changed);
+  }
+
+  entry(key: SettingKey): SettingEntry {
+    const definition = SETTING_DEFINITIONS[key];
+    return {
+      key,
+      value: definition.format(this.settings),
+      description: definition.description,
+      overridden: definition.fields.some(field => field in this.overrides)
+    };
+  }
+
+  list(): SettingEntry[] {
+    return SETTING_KEYS.map(key => this.entry(key));
+  }
+}
@@ -1,7 +1,35 @@
+import type { PermissionMode, ClaudeNotificationEvent, Verbosity } from "../claude/types.ts";
+import type { SettingEntry } from "./settings.ts";
+
+// メンションで通知するイベント（Claude Codeのイベントと長時間実行した/shellの終了）
+export type NotificationEvent = ClaudeNotificationEvent | 'shell';
+
+export interface BotSettings {
+  mentionEnabled: boolean;
+  mentionUserId: string | null;
+  // ユーザーの代わりにメンションするロール
+  mentionRoleId: string | null;
+  // 通知するイベントと、完了・失敗・/shellの終了を通知する最短の実行時間（秒）
+  notifyEvents: NotificationEvent[];
+  notifyMinDurationSec: number;
+  permissionMode: PermissionMode;
+  // 予算の上限（USD、nullは無制限）
+  dailyBudgetUsd: number | null;
+  sessionBudgetUsd: number | null;
+  // デフォルトのモデル（nullはClaude Codeの既定）とレート制限時のフォールバック順
+  model: string | null;
+  fallbackModels: string[];
+  // スレッドに表示するClaude Codeのメッセージ
+  verbosity: Verbosity;
+  showThinking: boolean;
+  showToolResults: boolean;
+  showOtherContent: boolean;
+}
+
 export interface SettingsResult {
   success: boolean;
-  mentionEnabled?: boolean;
-  mentionUserId?: string | null;
+  // 表示する設定（list・get・変更後の値）
+  entries?: SettingEntry[];
   message?: string;
 }
 